@@ -0,0 +1,3092 @@
+import crypto from 'crypto';
+import TelegramBot from 'node-telegram-bot-api';
+import { Connection, PublicKey, Keypair, VersionedTransaction, Transaction } from '@solana/web3.js';
+import { getAccount, getAssociatedTokenAddress, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import bs58 from 'bs58';
+import { BreezeClient, BreezeUserBalancesInstance } from './breeze/index.js';
+import { AmountOption, CallbackDataError, callbackData, CallbackRouter } from './callbacks.js';
+import {
+    BREEZE_PROGRAM_ID,
+    COMPUTE_UNIT_PRICE_MICROLAMPORTS,
+    CONVERSATION_TIMEOUT_SECONDS,
+    EXTERNAL_SIGNING_POLL_INTERVAL_MS,
+    EXTERNAL_SIGNING_TIMEOUT_SECONDS,
+    KEY_ENCRYPTION_SECRET,
+    KEY_UNLOCK_MINUTES,
+    MAX_WALLETS_PER_USER,
+    PENDING_TX_TTL_SECONDS,
+    SECRET_MESSAGE_TTL_SECONDS,
+    SOLANA_CLUSTER,
+    SOLANA_PAY_URL,
+    SOLANA_RPC_URL,
+    TX_CONFIRMATION_TIMEOUT_SECONDS,
+    TX_REBROADCAST_INTERVAL_MS
+} from './config.js';
+import { ConversationInputs, ConversationState, SENSITIVE_STEPS, validateAmount, validateInput } from './conversation.js';
+import { explorerTransactionUrl, resolveCluster } from './explorer.js';
+import { BreezeFund, fitsInButtons } from './funds.js';
+import { MIN_PASSPHRASE_LENGTH, sealSecretKey, unsealSecretKey, WrongPassphraseError } from './keyVault.js';
+import { buildSweepTransaction, InsufficientSolError } from './migration.js';
+import { qrCodePng } from './qr.js';
+import { SimulationFailedError, SimulationSummary, simulateTransaction } from './simulation.js';
+import { FeeSponsor } from './sponsorship.js';
+import {
+    findSignedTransaction,
+    solanaPayUrl,
+    TransactionRequestError,
+    transactionRequestLink,
+    TransactionRequestResponse,
+    TransactionRequestSource,
+    walletRedirectLink
+} from './solanaPay.js';
+import {
+    SUBMISSION_STATUSES,
+    SubmissionStatus,
+    submitTransaction,
+    trackTransaction,
+    TransactionDroppedError,
+    TransactionFailedError,
+    TransactionTimeoutError,
+    withComputeUnitPrice
+} from './submission.js';
+import { convertFromTokenAmount, convertToTokenAmount, TOKEN_DECIMALS, TOKEN_MINTS, TOKEN_PROGRAM_IDS, TokenSymbol } from './tokens.js';
+import { SavedWallet, SigningRequest, UserData, UserStore } from './userStore.js';
+import { isSignedBy, UnsafeTransactionError, verifyBalanceChanges, verifyTransaction } from './verifier.js';
+
+const EXPLORER_CLUSTER = resolveCluster(SOLANA_RPC_URL, SOLANA_CLUSTER);
+const BREEZE_PROGRAM_IDS = (BREEZE_PROGRAM_ID ?? '').split(',').filter((id) => id.trim()).map((id) => new PublicKey(id.trim()));
+
+// /command[@botname] [arguments]
+const COMMAND = /^\/(\w+)(?:@\w+)?(?:\s+([\s\S]*))?$/;
+
+// Shown in Telegram's command menu via setMyCommands
+const BOT_COMMANDS: TelegramBot.BotCommand[] = [
+    { command: 'start', description: 'Open the main menu' },
+    { command: 'balance', description: 'Show your Breeze balances' },
+    { command: 'deposit', description: 'Deposit: /deposit <amount|all> [asset]' },
+    { command: 'withdraw', description: 'Withdraw: /withdraw <amount|all|50%> [asset]' },
+    { command: 'history', description: 'Yield history: /history [page]' },
+    { command: 'apy', description: 'APY of your Breeze positions' },
+    { command: 'wallet', description: 'Show your wallet address' },
+    { command: 'logout', description: 'Remove your wallet from the bot' },
+    { command: 'deletemydata', description: 'Delete everything the bot stores about you' },
+    { command: 'cancel', description: 'Cancel the current prompt' },
+    { command: 'help', description: 'List all commands' }
+];
+
+// Read-only commands that also work in groups; anything touching keys or funds is private-chat only
+const GROUP_BOT_COMMANDS = BOT_COMMANDS.filter(({ command }) => ['balance', 'history', 'apy', 'help'].includes(command));
+
+// Wallets set up before naming existed, and every user's first wallet, go by this name
+const DEFAULT_WALLET_NAME = 'Main';
+
+// Balances are read a page at a time, up to a bound in case Breeze keeps reporting more
+const BALANCES_PAGE_SIZE = 100;
+const MAX_BALANCE_PAGES = 20;
+
+// Far more than any transaction needs, as base64 or raw bytes
+const MAX_TRANSACTION_FILE_BYTES = 16 * 1024;
+
+const RETRY_KEYBOARD = {
+    inline_keyboard: [
+        [{ text: '🔄 Try Again', callback_data: callbackData('confirmTransaction') }],
+        [{ text: '❌ Cancel', callback_data: callbackData('earnYield') }]
+    ]
+};
+
+interface AssetBalance {
+    raw: bigint;
+    human: number;
+}
+
+interface FundPosition extends AssetBalance {
+    fund: BreezeFund;
+}
+
+interface CallbackContext {
+    chatId: number;
+    query: TelegramBot.CallbackQuery;
+}
+
+// A read-only view shown in a group on behalf of the member who asked for it
+interface GroupView {
+    userId: number;
+    replyTo: number; // the member's command message; whoever sent it owns the view's buttons
+    messageId?: number; // the view itself once sent, so buttons can update it in place
+}
+
+interface GroupCallbackContext extends CallbackContext {
+    view: GroupView;
+}
+
+function parsePage(arg: string | undefined): number | undefined {
+    const page = arg === undefined ? 1 : Number(arg);
+    return Number.isInteger(page) && page >= 1 ? page : undefined;
+}
+
+function shortAddress(publicKey: string): string {
+    return `${publicKey.slice(0, 8)}...${publicKey.slice(-8)}`;
+}
+
+export class BreezeBot implements TransactionRequestSource {
+    private users: Map<number, UserData> = new Map();
+    private tappedMenus: Map<number, number> = new Map(); // chat id -> menu message the callback being handled came from
+    private secretMessages: Map<string, NodeJS.Timeout> = new Map(); // chat id:message id -> deletion timer
+    private callbacks: CallbackRouter<CallbackContext> = this.createCallbackRouter();
+    private groupCallbacks: CallbackRouter<GroupCallbackContext> = this.createGroupCallbackRouter();
+    private botUsername?: string;
+
+    constructor(
+        private bot: TelegramBot,
+        private connection: Connection,
+        private breeze: BreezeClient,
+        private userStore: UserStore,
+        private funds: BreezeFund[],
+        private feeSponsor?: FeeSponsor
+    ) {
+        this.setupHandlers();
+    }
+
+    // Publishes BOT_COMMANDS to Telegram's command menu, and the read-only subset to groups
+    async registerCommands() {
+        try {
+            await this.bot.setMyCommands(BOT_COMMANDS);
+            await this.bot.setMyCommands(GROUP_BOT_COMMANDS, { scope: { type: 'all_group_chats' } });
+        } catch (error) {
+            console.error('Error registering bot commands:', error);
+        }
+    }
+
+    private setupHandlers() {
+        this.bot.onText(COMMAND, (msg, match) => this.handleUpdate(msg.chat.id, () => this.handleCommand(msg, match)));
+        this.bot.on('callback_query', (query) => this.handleUpdate(query.message?.chat.id, () => this.handleCallbackQuery(query)));
+        this.bot.on('message', (msg) => this.handleUpdate(msg.chat.id, () => this.handleMessage(msg)));
+    }
+
+    // node-telegram-bot-api doesn't await handlers, so an error escaping one would become an
+    // unhandled rejection and take the whole process down
+    private async handleUpdate(chatId: number | undefined, handle: () => Promise<void>) {
+        try {
+            await handle();
+        } catch (error) {
+            console.error('Error handling update:', error);
+            if (chatId === undefined) {
+                return;
+            }
+            try {
+                await this.bot.sendMessage(chatId, '❌ Something went wrong. Please try again.');
+            } catch (replyError) {
+                console.error('Error reporting a failed update:', replyError);
+            }
+        }
+    }
+
+    // Sessions belong to Telegram users (from.id), not chats. A private chat's id is its user's id,
+    // so handlers for private chats pass the chat id. The store is the source of truth, as other
+    // replicas may have changed the session since this one last saw it: every update reads it again.
+    // Unlocked keys never leave the process, so a wallet unlocked here stays unlocked here only.
+    private async loadUser(userId: number): Promise<UserData> {
+        const cached = this.users.get(userId);
+        const stored = await this.userStore.get(userId);
+        let userData = cached;
+
+        if (!cached || !stored || stored.revision !== cached.revision) {
+            userData = stored ?? {};
+            if (cached?.keypair && !userData.keypair && cached.keypair.publicKey.toBase58() === userData.publicKey) {
+                userData.keypair = cached.keypair;
+                userData.unlockedUntil = cached.unlockedUntil;
+            }
+            this.users.set(userId, userData);
+        }
+
+        this.restoreSavedWallet(userData!);
+        return userData!;
+    }
+
+    private async saveUser(userId: number) {
+        const userData = this.users.get(userId);
+
+        if (!userData) {
+            return;
+        }
+
+        try {
+            userData.revision = crypto.randomBytes(8).toString('hex');
+            await this.userStore.set(userId, userData);
+        } catch (error) {
+            console.error('Error saving user data:', error);
+        }
+    }
+
+    private async deleteMessageQuietly(chatId: number, messageId: number) {
+        try {
+            await this.bot.deleteMessage(chatId, messageId);
+        } catch (error) {
+            console.error('Error deleting message:', error);
+        }
+    }
+
+    // Shows a private key briefly: the message deletes itself after SECRET_MESSAGE_TTL_SECONDS or
+    // as soon as the user confirms they saved it, so it doesn't linger in chat history. The deadline
+    // is saved with the user, so a restart doesn't leave the key behind.
+    private async sendSecretMessage(chatId: number, text: string) {
+        const message = await this.bot.sendMessage(chatId,
+            `${text}\n\n⏳ This message deletes itself in ${SECRET_MESSAGE_TTL_SECONDS} seconds.`,
+            {
+                parse_mode: 'Markdown',
+                reply_markup: { inline_keyboard: [[{ text: '✅ I Saved It', callback_data: callbackData('dismissSecret') }]] }
+            }
+        );
+
+        const userData = this.users.get(chatId)!;
+        const deleteAt = Date.now() + SECRET_MESSAGE_TTL_SECONDS * 1000;
+        userData.secretMessages = [...(userData.secretMessages ?? []), { messageId: message.message_id, deleteAt }];
+        await this.saveUser(chatId);
+
+        this.scheduleSecretMessageDeletion(chatId, message.message_id, deleteAt);
+    }
+
+    private scheduleSecretMessageDeletion(chatId: number, messageId: number, deleteAt: number) {
+        const key = `${chatId}:${messageId}`;
+        clearTimeout(this.secretMessages.get(key));
+        this.secretMessages.set(key, setTimeout(() => {
+            void this.deleteSecretMessage(chatId, messageId);
+        }, Math.max(0, deleteAt - Date.now())));
+    }
+
+    // Picks up the deletions left over by the previous run, deleting overdue messages straight away
+    async resumeSecretMessageDeletions() {
+        try {
+            for (const userId of await this.userStore.userIds()) {
+                for (const { messageId, deleteAt } of (await this.userStore.get(userId))?.secretMessages ?? []) {
+                    this.scheduleSecretMessageDeletion(userId, messageId, deleteAt);
+                }
+            }
+        } catch (error) {
+            console.error('Error resuming secret message deletions:', error);
+        }
+    }
+
+    private async deleteSecretMessage(chatId: number, messageId: number) {
+        const key = `${chatId}:${messageId}`;
+        clearTimeout(this.secretMessages.get(key));
+        this.secretMessages.delete(key);
+
+        await this.deleteMessageQuietly(chatId, messageId);
+
+        // Never brings back a user who deleted their data in the meantime
+        try {
+            if (!(await this.userStore.get(chatId))?.secretMessages?.some((secret) => secret.messageId === messageId)) {
+                return;
+            }
+            const userData = await this.loadUser(chatId);
+            userData.secretMessages = userData.secretMessages?.filter((secret) => secret.messageId !== messageId);
+            await this.saveUser(chatId);
+        } catch (error) {
+            console.error('Error saving a deleted secret message:', error);
+        }
+    }
+
+    // Removes the buttons from a menu that is no longer live
+    private async disableMenu(chatId: number, messageId: number) {
+        try {
+            await this.bot.editMessageReplyMarkup({ inline_keyboard: [] }, { chat_id: chatId, message_id: messageId });
+        } catch (error) {
+            console.error('Error disabling menu:', error);
+        }
+    }
+
+    // Only one menu per chat is live. Taps on it replace it in place; anything else sends a new
+    // menu and strips the buttons from the old one. Returns the id of the live menu.
+    private async showMenu(chatId: number, text: string, keyboard: TelegramBot.InlineKeyboardMarkup): Promise<number> {
+        const userData = this.users.get(chatId)!;
+        const previous = userData.menuMessageId;
+
+        if (previous !== undefined && this.tappedMenus.get(chatId) === previous) {
+            try {
+                await this.bot.editMessageText(text, { chat_id: chatId, message_id: previous, parse_mode: 'Markdown', reply_markup: keyboard });
+                return previous;
+            } catch (error) {
+                // Tapping a button that leads back to the same screen leaves nothing to change
+                if (error instanceof Error && /message is not modified/i.test(error.message)) {
+                    return previous;
+                }
+                console.error('Error editing menu:', error);
+            }
+        }
+
+        const message = await this.bot.sendMessage(chatId, text, { parse_mode: 'Markdown', reply_markup: keyboard });
+        userData.menuMessageId = message.message_id;
+        if (previous !== undefined && previous !== message.message_id) {
+            await this.disableMenu(chatId, previous);
+        }
+        return message.message_id;
+    }
+
+    // Sends a group view as a reply to the command that asked for it, or updates it in place
+    private async showGroupView(chatId: number, view: GroupView, text: string, keyboard?: TelegramBot.InlineKeyboardMarkup) {
+        if (view.messageId !== undefined) {
+            await this.sendOrEditMessage(chatId, view.messageId, text, keyboard ?? { inline_keyboard: [] });
+            return;
+        }
+
+        await this.bot.sendMessage(chatId, text, { parse_mode: 'Markdown', reply_to_message_id: view.replyTo, reply_markup: keyboard });
+    }
+
+    // Points a group member at the private chat, where wallets and funds are handled
+    private async redirectToPrivateChat(msg: TelegramBot.Message, text: string) {
+        const username = await this.getBotUsername();
+
+        await this.bot.sendMessage(msg.chat.id, text, {
+            reply_to_message_id: msg.message_id,
+            reply_markup: username ? { inline_keyboard: [[{ text: '💬 Open Private Chat', url: `https://t.me/${username}` }]] } : undefined
+        });
+    }
+
+    private async getBotUsername(): Promise<string | undefined> {
+        if (this.botUsername === undefined) {
+            try {
+                this.botUsername = (await this.bot.getMe()).username;
+            } catch (error) {
+                console.error('Error fetching bot username:', error);
+            }
+        }
+        return this.botUsername;
+    }
+
+    private isUnlocked(userData: UserData): boolean {
+        return !!userData.keypair && !!userData.sealedKey && (userData.unlockedUntil ?? 0) > Date.now();
+    }
+
+    private lockWallet(userData: UserData) {
+        userData.keypair = undefined;
+        userData.unlockedUntil = undefined;
+    }
+
+    private unlockWallet(chatId: number, keypair: Keypair) {
+        const userData = this.users.get(chatId)!;
+        userData.keypair = keypair;
+        userData.unlockedUntil = Date.now() + KEY_UNLOCK_MINUTES * 60 * 1000;
+
+        // Drop the decrypted key from memory once the session window is over
+        setTimeout(() => {
+            if (userData.unlockedUntil && userData.unlockedUntil <= Date.now()) {
+                this.lockWallet(userData);
+            }
+        }, KEY_UNLOCK_MINUTES * 60 * 1000);
+    }
+
+    private walletName(userData: UserData): string {
+        return userData.walletName ?? DEFAULT_WALLET_NAME;
+    }
+
+    // A sealed key or a watched address; a key still waiting for its passphrase doesn't count yet
+    private hasWallet(userData: UserData): boolean {
+        return !!userData.sealedKey || (!!userData.watchOnly && !!userData.publicKey);
+    }
+
+    private walletCount(userData: UserData): number {
+        return (this.hasWallet(userData) ? 1 : 0) + (userData.otherWallets?.length ?? 0);
+    }
+
+    // Moves the active wallet into the saved ones and locks it, leaving no wallet active
+    private parkActiveWallet(userData: UserData) {
+        if (this.hasWallet(userData)) {
+            userData.otherWallets = [
+                ...(userData.otherWallets ?? []),
+                { name: this.walletName(userData), sealedKey: userData.sealedKey, publicKey: userData.publicKey!, watchOnly: userData.watchOnly }
+            ];
+        }
+
+        this.lockWallet(userData);
+        userData.sealedKey = undefined;
+        userData.publicKey = undefined;
+        userData.watchOnly = undefined;
+        userData.walletName = undefined;
+        userData.pendingTransaction = undefined;
+    }
+
+    private activateWallet(userData: UserData, wallet: SavedWallet) {
+        userData.otherWallets = (userData.otherWallets ?? []).filter((other) => other.publicKey !== wallet.publicKey);
+        userData.sealedKey = wallet.sealedKey;
+        userData.publicKey = wallet.publicKey;
+        userData.watchOnly = wallet.watchOnly;
+        userData.walletName = wallet.name;
+    }
+
+    // A wallet being added that never got its passphrase is gone, so the last saved one takes over again
+    private restoreSavedWallet(userData: UserData) {
+        const saved = userData.otherWallets ?? [];
+        if (!this.hasWallet(userData) && !userData.keypair && saved.length > 0) {
+            this.activateWallet(userData, saved[saved.length - 1]);
+        }
+    }
+
+    // The wallet being set up becomes the active one; one that was active is saved under its name
+    private startNewWallet(userData: UserData, publicKey: PublicKey, keypair?: Keypair) {
+        if (this.hasWallet(userData)) {
+            this.parkActiveWallet(userData);
+            userData.walletName = userData.newWalletName;
+        }
+        userData.newWalletName = undefined;
+
+        userData.keypair = keypair;
+        userData.sealedKey = undefined;
+        userData.watchOnly = keypair ? undefined : true;
+        userData.publicKey = publicKey.toString();
+    }
+
+
+    // FIXED: Better balance handling for exact amounts
+    private async getBalances(publicKey: string) {
+        try {
+            const pubKey = new PublicKey(publicKey);
+
+            // Get SOL balance
+            const solBalance = await this.connection.getBalance(pubKey) / 1e9;
+
+            // Get token balances
+            const balances: { sol: number } & Record<Lowercase<TokenSymbol>, AssetBalance> = {
+                sol: solBalance,
+                usdc: { raw: BigInt(0), human: 0 },
+                usdt: { raw: BigInt(0), human: 0 },
+                pyusd: { raw: BigInt(0), human: 0 },
+                usds: { raw: BigInt(0), human: 0 }
+            };
+
+            for (const [symbol, mint] of Object.entries(TOKEN_MINTS)) {
+                try {
+                    const tokenMint = new PublicKey(mint);
+                    const programId = TOKEN_PROGRAM_IDS[symbol as TokenSymbol];
+                    const tokenAccount = await getAssociatedTokenAddress(tokenMint, pubKey, false, programId);
+                    const accountInfo = await getAccount(this.connection, tokenAccount, undefined, programId);
+
+                    const rawAmount = BigInt(accountInfo.amount.toString());
+                    const humanAmount = convertFromTokenAmount(rawAmount, symbol);
+
+                    const key = symbol.toLowerCase() as Lowercase<TokenSymbol>;
+                    balances[key] = { raw: rawAmount, human: humanAmount };
+                } catch (error) {
+                    // Token account doesn't exist, balance remains 0
+                }
+            }
+
+            return balances;
+        } catch (error) {
+            console.error('Error fetching balances:', error);
+            return {
+                sol: 0,
+                usdc: { raw: BigInt(0), human: 0 },
+                usdt: { raw: BigInt(0), human: 0 },
+                pyusd: { raw: BigInt(0), human: 0 },
+                usds: { raw: BigInt(0), human: 0 }
+            };
+        }
+    }
+
+    private findFund(fundId: string): BreezeFund | undefined {
+        return this.funds.find((fund) => fund.id === fundId);
+    }
+
+    // Catalogue funds first; positions in funds outside the catalogue can still be withdrawn
+    private async resolveFund(userPublicKey: string, fundId: string): Promise<BreezeFund | undefined> {
+        return this.findFund(fundId) ?? (await this.getBreezePositions(userPublicKey)).get(fundId)?.fund;
+    }
+
+    private async getWalletBalance(publicKey: string, asset: TokenSymbol): Promise<AssetBalance> {
+        const balances = await this.getBalances(publicKey);
+        return balances[asset.toLowerCase() as Lowercase<TokenSymbol>];
+    }
+
+    // Every page of the wallet's Breeze balances, or null when Breeze can't be reached
+    private async getAllBreezeBalances(userPublicKey: string): Promise<BreezeUserBalancesInstance[] | null> {
+        const balances: BreezeUserBalancesInstance[] = [];
+
+        for (let page = 1; page <= MAX_BALANCE_PAGES; page++) {
+            const balanceData = await this.breeze.getUserBalances(userPublicKey, page, BALANCES_PAGE_SIZE);
+            if (!balanceData) {
+                return null;
+            }
+            balances.push(...balanceData.data);
+
+            // has_more is authoritative; total_pages can lag behind while positions change
+            if (!balanceData.meta.has_more || balanceData.data.length === 0) {
+                break;
+            }
+        }
+
+        return balances;
+    }
+
+    // Breeze positions keyed by fund id, in token units
+    private async getBreezePositions(userPublicKey: string): Promise<Map<string, FundPosition>> {
+        const positions: Map<string, FundPosition> = new Map();
+        const balances = await this.getAllBreezeBalances(userPublicKey);
+
+        for (const balance of balances ?? []) {
+            if (!balance.yield_balance || !(balance.token_symbol in TOKEN_MINTS)) {
+                continue;
+            }
+            const fundId = balance.yield_balance.fund_id;
+            const fund = this.findFund(fundId)
+                ?? { id: fundId, name: fundId, baseAsset: balance.token_symbol as TokenSymbol };
+            const raw = (positions.get(fundId)?.raw ?? BigInt(0)) + BigInt(balance.yield_balance.funds);
+            positions.set(fundId, { fund, raw, human: convertFromTokenAmount(raw, fund.baseAsset) });
+        }
+
+        return positions;
+    }
+
+    private async handleStart(msg: TelegramBot.Message) {
+        const chatId = msg.chat.id;
+        const userData = await this.loadUser(chatId);
+
+        if (userData.pendingTransaction || userData.conversation) {
+            userData.pendingTransaction = undefined;
+            userData.conversation = undefined;
+            await this.saveUser(chatId);
+        }
+
+        if (!this.hasWallet(userData) && !userData.keypair) {
+            await this.showMenu(chatId,
+                '🚀 Welcome to BREEZE INTEGRATION BOT! 🌊\n\n' +
+                'To get started, you need to set up your wallet:\n\n' +
+                "👀 Rather keep your private key to yourself? Watch your wallet's address instead and sign " +
+                'deposits and withdrawals in your own wallet app.',
+                {
+                    inline_keyboard: [
+                        [{ text: '🔑 Generate New Keypair', callback_data: callbackData('generateKeypair') }],
+                        [{ text: '📥 Import Private Key', callback_data: callbackData('importKeypair') }],
+                        [{ text: '👀 Watch an Address', callback_data: callbackData('watchAddress') }]
+                    ]
+                }
+            );
+        } else {
+            await this.showMainInterface(chatId);
+        }
+    }
+
+    private async generateKeypair(chatId: number) {
+        const keypair = Keypair.generate();
+        this.startNewWallet(this.users.get(chatId)!, keypair.publicKey, keypair);
+
+        await this.sendSecretMessage(chatId,
+            '🔑 New keypair generated!\n\n' +
+            `📍 Public Key: \`${keypair.publicKey.toString()}\`\n\n` +
+            `🔐 Private Key: \`${bs58.encode(keypair.secretKey)}\`\n\n` +
+            '⚠️ **IMPORTANT**: Save your private key securely! You can export it again later from /wallet with your passphrase.'
+        );
+
+        await this.promptNewPassphrase(chatId);
+    }
+
+    private async importKeypair(chatId: number) {
+        await this.bot.sendMessage(chatId,
+            '🔐 Please send your private key (base58 encoded), or /cancel to go back:',
+            {
+                reply_markup: {
+                    force_reply: true
+                }
+            }
+        );
+
+        this.startConversation(chatId, { step: 'private_key' });
+    }
+
+    private async handlePrivateKeyInput(chatId: number, keypair: Keypair) {
+        const userData = this.users.get(chatId)!;
+        this.startNewWallet(userData, keypair.publicKey, keypair);
+        userData.conversation = undefined;
+
+        await this.bot.sendMessage(chatId,
+            '✅ Keypair imported successfully!\n\n' +
+            `📍 Public Key: \`${keypair.publicKey.toString()}\`\n\n` +
+            '🗑️ Your message with the private key was deleted from the chat.',
+            { parse_mode: 'Markdown' }
+        );
+
+        await this.promptNewPassphrase(chatId);
+    }
+
+    private async promptNewPassphrase(chatId: number) {
+        await this.bot.sendMessage(chatId,
+            '🔐 Choose a passphrase to encrypt your wallet.\n\n' +
+            `It must be at least ${MIN_PASSPHRASE_LENGTH} characters long. ` +
+            "You'll need it to sign transactions and it can't be recovered if you lose it.",
+            {
+                reply_markup: {
+                    force_reply: true
+                }
+            }
+        );
+
+        this.startConversation(chatId, { step: 'new_passphrase' });
+    }
+
+    private async promptWatchAddress(chatId: number) {
+        await this.bot.sendMessage(chatId,
+            "👀 Please send your wallet's public address, or /cancel to go back.\n\n" +
+            "The bot never holds its key: you'll sign deposits and withdrawals in your own wallet app.",
+            {
+                reply_markup: {
+                    force_reply: true
+                }
+            }
+        );
+
+        this.startConversation(chatId, { step: 'watch_address' });
+    }
+
+    private async handleWatchAddressInput(chatId: number, publicKey: PublicKey) {
+        const userData = this.users.get(chatId)!;
+        const known = [userData.publicKey, ...(userData.otherWallets ?? []).map((wallet) => wallet.publicKey)];
+
+        if (this.hasWallet(userData) && known.includes(publicKey.toBase58())) {
+            await this.bot.sendMessage(chatId, '❌ That wallet is already in your list. Please send another address.');
+            return;
+        }
+
+        this.startNewWallet(userData, publicKey);
+        userData.walletName ??= DEFAULT_WALLET_NAME;
+        userData.conversation = undefined;
+
+        await this.bot.sendMessage(chatId,
+            `✅ Watching \`${publicKey.toBase58()}\`\n\n` +
+            "Deposits and withdrawals will open in your wallet app for signing, and I'll follow them on-chain.",
+            { parse_mode: 'Markdown' }
+        );
+
+        await this.showMainInterface(chatId);
+    }
+
+    private async handleNewPassphraseInput(chatId: number, passphrase: string) {
+        const userData = this.users.get(chatId)!;
+
+        if (!userData.keypair) {
+            userData.conversation = undefined;
+            await this.handleStart({ chat: { id: chatId } } as TelegramBot.Message);
+            return;
+        }
+
+        userData.sealedKey = await sealSecretKey(userData.keypair.secretKey, passphrase, KEY_ENCRYPTION_SECRET);
+        userData.walletName ??= DEFAULT_WALLET_NAME;
+        userData.conversation = undefined;
+        this.unlockWallet(chatId, userData.keypair);
+
+        await this.bot.sendMessage(chatId,
+            `✅ Wallet encrypted! It stays unlocked for ${KEY_UNLOCK_MINUTES} minutes.`
+        );
+
+        await this.showMainInterface(chatId);
+    }
+
+    private async promptUnlock(chatId: number, prompt: string) {
+        await this.bot.sendMessage(chatId, prompt, {
+            reply_markup: {
+                force_reply: true
+            }
+        });
+
+        this.startConversation(chatId, { step: 'unlock_passphrase' });
+    }
+
+    private async handleUnlockInput(chatId: number, passphrase: string) {
+        const userData = this.users.get(chatId)!;
+
+        let keypair: Keypair;
+        try {
+            keypair = await unsealSecretKey(userData.sealedKey!, passphrase, KEY_ENCRYPTION_SECRET);
+        } catch (error) {
+            if (error instanceof WrongPassphraseError) {
+                await this.bot.sendMessage(chatId, '❌ Wrong passphrase. Please try again or use /start to go back.');
+                return;
+            }
+            throw error;
+        }
+
+        userData.conversation = undefined;
+        this.unlockWallet(chatId, keypair);
+
+        await this.bot.sendMessage(chatId, `🔓 Wallet unlocked for ${KEY_UNLOCK_MINUTES} minutes.`);
+
+        if (userData.pendingTransaction) {
+            await this.showTransactionConfirmation(chatId);
+        } else {
+            await this.showMainInterface(chatId);
+        }
+    }
+
+    // Exporting always asks for the passphrase, even while the wallet is unlocked
+    private async promptExportKey(chatId: number) {
+        await this.bot.sendMessage(chatId, '🔐 Please enter your passphrase to export your private key, or /cancel to go back:', {
+            reply_markup: {
+                force_reply: true
+            }
+        });
+
+        this.startConversation(chatId, { step: 'export_passphrase' });
+    }
+
+    private async handleExportInput(chatId: number, passphrase: string) {
+        const userData = this.users.get(chatId)!;
+
+        let keypair: Keypair;
+        try {
+            keypair = await unsealSecretKey(userData.sealedKey!, passphrase, KEY_ENCRYPTION_SECRET);
+        } catch (error) {
+            if (error instanceof WrongPassphraseError) {
+                await this.bot.sendMessage(chatId, '❌ Wrong passphrase. Please try again or use /cancel to go back.');
+                return;
+            }
+            throw error;
+        }
+
+        userData.conversation = undefined;
+
+        await this.sendSecretMessage(chatId,
+            '🔑 **Your Private Key**\n\n' +
+            `\`${bs58.encode(keypair.secretKey)}\`\n\n` +
+            '⚠️ Anyone with this key controls your wallet. Never share it or keep it in a screenshot.'
+        );
+
+        await this.showWallet(chatId);
+    }
+
+    private async showReplaceWallet(chatId: number) {
+        const userData = this.users.get(chatId)!;
+
+        await this.showMenu(chatId,
+            '♻️ **Replace Wallet** ♻️\n\n' +
+            'If you think your private key was exposed, move everything to a new wallet:\n\n' +
+            '1. Your Breeze positions are withdrawn\n' +
+            '2. All tokens and SOL are sent to a newly generated keypair\n' +
+            '3. The new wallet replaces this one and keeps your passphrase\n\n' +
+            `📍 Current wallet: \`${userData.publicKey}\`\n\n` +
+            '⚠️ Every step is an on-chain transaction with a small network fee.',
+            {
+                inline_keyboard: [
+                    [{ text: '✅ Move Everything to a New Wallet', callback_data: callbackData('confirmReplaceWallet') }],
+                    [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+                ]
+            }
+        );
+    }
+
+    private async promptReplaceWallet(chatId: number) {
+        await this.bot.sendMessage(chatId, '🔐 Please enter your passphrase to replace your wallet, or /cancel to go back:', {
+            reply_markup: {
+                force_reply: true
+            }
+        });
+
+        this.startConversation(chatId, { step: 'replace_passphrase' });
+    }
+
+    private async handleReplaceInput(chatId: number, passphrase: string) {
+        const userData = this.users.get(chatId)!;
+
+        let keypair: Keypair;
+        try {
+            keypair = await unsealSecretKey(userData.sealedKey!, passphrase, KEY_ENCRYPTION_SECRET);
+        } catch (error) {
+            if (error instanceof WrongPassphraseError) {
+                await this.bot.sendMessage(chatId, '❌ Wrong passphrase. Please try again or use /cancel to go back.');
+                return;
+            }
+            throw error;
+        }
+
+        userData.conversation = undefined;
+
+        // An earlier attempt that stopped halfway may already have moved funds to its replacement
+        if (!userData.replacement) {
+            const replacement = Keypair.generate();
+            userData.replacement = {
+                sealedKey: await sealSecretKey(replacement.secretKey, passphrase, KEY_ENCRYPTION_SECRET),
+                publicKey: replacement.publicKey.toString()
+            };
+            await this.saveUser(chatId);
+
+            await this.sendSecretMessage(chatId,
+                '🔑 **Your New Wallet**\n\n' +
+                `📍 Public Key: \`${replacement.publicKey.toString()}\`\n\n` +
+                `🔐 Private Key: \`${bs58.encode(replacement.secretKey)}\`\n\n` +
+                '⚠️ Save the new private key securely. Your funds are moving to this wallet.'
+            );
+        }
+
+        const replacement = await unsealSecretKey(userData.replacement.sealedKey, passphrase, KEY_ENCRYPTION_SECRET);
+        await this.migrateWallet(chatId, keypair, replacement);
+    }
+
+    // Withdraws every Breeze position, then sweeps the wallet into the replacement in one transaction.
+    // The replacement only takes over once the sweep lands; until then the current wallet stays active.
+    private async migrateWallet(chatId: number, from: Keypair, to: Keypair) {
+        const userData = this.users.get(chatId)!;
+        const submitOptions = { rebroadcastIntervalMs: TX_REBROADCAST_INTERVAL_MS, timeoutMs: TX_CONFIRMATION_TIMEOUT_SECONDS * 1000 };
+        const steps: string[] = [];
+        let statusMessageId: number | undefined;
+        const showProgress = async (step: string, keyboard: TelegramBot.InlineKeyboardMarkup = { inline_keyboard: [] }) => {
+            steps.push(step);
+            statusMessageId = await this.sendOrEditMessage(chatId, statusMessageId, '♻️ **Replacing Wallet** ♻️\n\n' + steps.join('\n'), keyboard);
+        };
+
+        try {
+            for (const { fund, raw, human } of (await this.getBreezePositions(from.publicKey.toString())).values()) {
+                const data = await this.breeze.createWithdrawTransaction({
+                    fundId: fund.id,
+                    amount: Number(raw),
+                    all: true,
+                    userKey: from.publicKey.toString()
+                });
+                if (typeof data === 'object' && 'message' in data) {
+                    throw new Error(data.message);
+                }
+
+                const transaction = VersionedTransaction.deserialize(Buffer.from(data, 'base64'));
+                await verifyTransaction(this.connection, transaction, {
+                    type: 'withdraw',
+                    user: from.publicKey,
+                    mint: new PublicKey(TOKEN_MINTS[fund.baseAsset]),
+                    tokenProgramId: TOKEN_PROGRAM_IDS[fund.baseAsset],
+                    amount: raw,
+                    breezeProgramIds: BREEZE_PROGRAM_IDS
+                });
+                transaction.sign([from]);
+                await submitTransaction(this.connection, transaction, submitOptions);
+                await showProgress(`✅ Withdrew ${human.toFixed(6)} ${fund.baseAsset} from ${fund.name}`);
+            }
+
+            const sweep = await buildSweepTransaction(this.connection, from.publicKey, to.publicKey);
+            if (sweep) {
+                sweep.transaction.sign([from]);
+                await submitTransaction(this.connection, sweep.transaction, submitOptions);
+                await showProgress(
+                    [
+                        ...sweep.tokens.map(({ symbol, amount }) => `${convertFromTokenAmount(amount, symbol).toFixed(6)} ${symbol}`),
+                        ...(sweep.lamports > 0 ? [`${(sweep.lamports / 1e9).toFixed(6)} SOL`] : [])
+                    ].map((moved) => `✅ Moved ${moved}`).join('\n') || '✅ Closed empty token accounts'
+                );
+            }
+        } catch (error) {
+            console.error('Wallet replacement error:', error);
+            const reason = error instanceof InsufficientSolError
+                ? `the wallet needs at least ${(error.requiredLamports / 1e9).toFixed(6)} SOL for fees`
+                : error instanceof UnsafeTransactionError
+                    ? 'a Breeze withdrawal failed our safety checks'
+                    : error instanceof TransactionFailedError
+                        ? `a transaction failed on-chain (${error.reason})`
+                        : 'a transaction could not be completed';
+            await showProgress(
+                `❌ Stopped because ${reason}. Your current wallet is still active and holds everything not moved yet. ` +
+                'Try again from /wallet to finish moving to the same new wallet.',
+                { inline_keyboard: [[{ text: '🔙 Back to Main', callback_data: callbackData('main') }]] }
+            );
+            return;
+        }
+
+        userData.sealedKey = userData.replacement!.sealedKey;
+        userData.publicKey = userData.replacement!.publicKey;
+        userData.replacement = undefined;
+        userData.pendingTransaction = undefined;
+        this.unlockWallet(chatId, to);
+
+        await showProgress(
+            `\n🎉 **Wallet replaced!** Your new address is \`${userData.publicKey}\`. The old key no longer controls anything in the bot.`,
+            { inline_keyboard: [[{ text: '🔙 Back to Main', callback_data: callbackData('main') }]] }
+        );
+    }
+
+    private async showLogout(chatId: number) {
+        const userData = await this.loadUser(chatId);
+
+        if (!this.hasWallet(userData) && !userData.keypair) {
+            await this.bot.sendMessage(chatId, "🔑 There's no wallet to log out of.");
+            return;
+        }
+
+        await this.showMenu(chatId,
+            '🚪 **Log Out** 🚪\n\n' +
+            (userData.otherWallets?.length
+                ? `This removes all ${this.walletCount(userData)} of your wallets and your session from the bot.\n\n`
+                : 'This removes your wallet and your session from the bot.\n\n') +
+            (userData.otherWallets?.length
+                ? "⚠️ Funds stay in each wallet, but only its private key can reach them afterwards. " +
+                  "Export every key you haven't saved first, switching wallets from the main menu."
+                : userData.watchOnly
+                    ? '👀 The bot only watches this wallet, so its funds and key stay in your wallet app.'
+                    : `⚠️ Funds stay at \`${userData.publicKey}\`, but only your private key can reach them afterwards. ` +
+                      "Export it first if you haven't saved it."),
+            {
+                inline_keyboard: [
+                    [{ text: '🚪 Log Out', callback_data: callbackData('logout') }],
+                    ...(userData.sealedKey ? [[{ text: '🔑 Export Private Key', callback_data: callbackData('exportKey') }]] : []),
+                    [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+                ]
+            }
+        );
+    }
+
+    private async showDeleteData(chatId: number) {
+        const userData = await this.loadUser(chatId);
+
+        await this.showMenu(chatId,
+            '🗑️ **Delete My Data** 🗑️\n\n' +
+            'This permanently deletes everything the bot stores about you: your encrypted wallet, your session and any ' +
+            "transaction in progress, and it stops watching for transactions you were asked to sign. Fees the bot paid " +
+            "for you are kept as anonymous amounts. The bot's menus and key messages are removed from this chat too." +
+            (userData.publicKey && !userData.watchOnly
+                ? `\n\n⚠️ Funds stay at \`${userData.publicKey}\`, but only your private key can reach them afterwards. ` +
+                  "Export it first if you haven't saved it."
+                : ''),
+            {
+                inline_keyboard: [
+                    [{ text: '🗑️ Delete Everything', callback_data: callbackData('deleteData') }],
+                    [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+                ]
+            }
+        );
+    }
+
+    // Drops the cached session and the stored record, so the next contact starts from scratch. Signing
+    // requests go with the record, which stops their watchers, and key messages still shown are deleted.
+    private async forgetUser(chatId: number) {
+        const userData = this.users.get(chatId);
+        if (userData) {
+            this.lockWallet(userData);
+        }
+
+        this.users.delete(chatId);
+        await this.userStore.delete(chatId);
+
+        for (const secret of userData?.secretMessages ?? []) {
+            await this.deleteSecretMessage(chatId, secret.messageId);
+        }
+    }
+
+    private async logout(chatId: number, messageId: number) {
+        try {
+            await this.forgetUser(chatId);
+        } catch (error) {
+            console.error('Error logging out:', error);
+            await this.bot.sendMessage(chatId, '❌ Failed to log out. Please try again.');
+            return;
+        }
+
+        await this.sendOrEditMessage(chatId, messageId, '👋 Logged out. Your wallet was removed from the bot. Use /start to set one up again.', {
+            inline_keyboard: []
+        });
+    }
+
+    private async deleteUserData(chatId: number, messageId: number) {
+        try {
+            await this.forgetUser(chatId);
+            await this.feeSponsor?.forget(chatId);
+        } catch (error) {
+            console.error('Error deleting user data:', error);
+            await this.bot.sendMessage(chatId, '❌ Failed to delete your data. Please try again.');
+            return;
+        }
+
+        await this.deleteMessageQuietly(chatId, messageId);
+
+        await this.bot.sendMessage(chatId, '🗑️ All your data was deleted. Use /start if you ever want to come back.');
+    }
+
+    private async showMainInterface(chatId: number) {
+        const userData = this.users.get(chatId)!;
+        this.restoreSavedWallet(userData);
+
+        if (!this.hasWallet(userData)) {
+            // A key without a passphrase is either mid-setup or was stored before key sealing existed
+            if (userData.keypair) {
+                await this.promptNewPassphrase(chatId);
+            } else {
+                await this.handleStart({ chat: { id: chatId } } as TelegramBot.Message);
+            }
+            return;
+        }
+
+        const publicKey = userData.publicKey!;
+        const unlocked = this.isUnlocked(userData);
+        const balances = await this.getBalances(publicKey);
+        const breezeBalance = await this.getUserCurrentValue(publicKey);
+        const currentYield = await this.getBreezeYieldFromAPI(publicKey);
+
+        const message =
+            '🌊 **BREEZE INTEGRATION BOT** 🌊\n\n' +
+            `💳 Wallet: **${this.walletName(userData)}** \`${shortAddress(publicKey)}\`\n` +
+            `${userData.watchOnly ? '👀 Watch-only' : unlocked ? '🔓 Unlocked' : '🔒 Locked'}\n\n` +
+            '💰 **Balances:**\n' +
+            `• SOL: ${balances.sol.toFixed(4)} ◎\n` +
+            `• USDC: ${balances.usdc.human.toFixed(2)} 💵\n` +
+            `• USDT: ${balances.usdt.human.toFixed(2)} 💵\n` +
+            `• PYUSD: ${balances.pyusd.human.toFixed(2)} 💵\n` +
+            `• USDS: ${balances.usds.human.toFixed(2)} 💵\n\n` +
+            `🌊 **Breeze Balance:** $${breezeBalance.toFixed(2)}\n` +
+            `📈 **Current APY:** ${currentYield.toFixed(2)}%\n\n` +
+            '🚀 Ready to earn yield with Breeze!';
+
+        const keyboard = {
+            inline_keyboard: [
+                [{ text: '🌊 Earn Yield with Breeze', callback_data: callbackData('earnYield') }],
+                [
+                    { text: '💳 Detailed Balances', callback_data: callbackData('balances') },
+                    { text: '📈 Yield History', callback_data: callbackData('yieldHistory', 1) }
+                ],
+                [
+                    { text: '💸 Buy', callback_data: callbackData('mockFeature', 'buy') },
+                    { text: '💰 Sell', callback_data: callbackData('mockFeature', 'sell') }
+                ],
+                [
+                    { text: '📊 Positions', callback_data: callbackData('mockFeature', 'positions') },
+                    { text: '📋 Limit Orders', callback_data: callbackData('mockFeature', 'limit_orders') }
+                ],
+                [
+                    { text: '👥 Copy Trade', callback_data: callbackData('mockFeature', 'copy_trade') },
+                    { text: '⚙️ Settings', callback_data: callbackData('mockFeature', 'settings') }
+                ],
+                [{ text: '🎯 Slippage Settings', callback_data: callbackData('mockFeature', 'slippage') }],
+                [{ text: '👛 Wallets', callback_data: callbackData('wallets') }],
+                ...(userData.watchOnly ? [] : [[unlocked
+                    ? { text: '🔒 Lock Wallet', callback_data: callbackData('lockWallet') }
+                    : { text: '🔓 Unlock Wallet', callback_data: callbackData('unlockWallet') }]])
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    private async getUserCurrentValue(userPublicKey: string): Promise<number> {
+        try {
+            // Use the new user-balances endpoint to get the total portfolio value
+            const balances = await this.getAllBreezeBalances(userPublicKey);
+
+            if (!balances) {
+                return 0;
+            }
+
+            let totalPortfolioValue: number = 0;
+            for (const balance of balances) {
+                if (!balance.yield_balance) {
+                    continue;
+                }
+                // FIXED: Convert from token amount to human readable
+                const humanAmount = convertFromTokenAmount(
+                    BigInt(balance.yield_balance.funds), 
+                    balance.token_symbol
+                );
+                totalPortfolioValue += humanAmount;
+            }
+
+            return totalPortfolioValue;
+        } catch (error) {
+            console.error('Error fetching user current value:', error);
+            return 0;
+        }
+    }
+
+    private async getBreezeYieldFromAPI(userPublicKey: string): Promise<number> {
+        try {
+            const yieldData = await this.breeze.getUserYield(userPublicKey);
+            if (!yieldData || !yieldData.data || yieldData.data.length === 0) {
+                return 0;
+            }
+
+            // Calculate average APY from all positions
+            let totalAPY = 0;
+            let count = 0;
+
+            for (const position of yieldData.data) {
+                const apy = parseFloat(position.apy);
+                if (!isNaN(apy)) {
+                    totalAPY += apy;
+                    count++;
+                }
+            }
+
+            return count > 0 ? totalAPY / count : 0;
+        } catch (error) {
+            console.error('Error calculating Breeze yield:', error);
+            return 0;
+        }
+    }
+
+    private async showEarnYieldInterface(chatId: number) {
+        const userData = this.users.get(chatId)!;
+        const publicKey = userData.publicKey!;
+        const balances = await this.getBalances(publicKey);
+        const currentYield = await this.getBreezeYieldFromAPI(publicKey);
+        const breezeBalance = await this.getUserCurrentValue(publicKey);
+
+        const message =
+            '🌊 **Earn Yield with Breeze** 🌊\n\n' +
+            '💰 **Current Balances:**\n' +
+            `• USDC: ${balances.usdc.human.toFixed(2)} 💵\n` +
+            `• USDT: ${balances.usdt.human.toFixed(2)} 💵\n` +
+            `• PYUSD: ${balances.pyusd.human.toFixed(2)} 💵\n` +
+            `• USDS: ${balances.usds.human.toFixed(2)} 💵\n\n` +
+            `📈 **Current Breeze Yield:** ${currentYield.toFixed(1)}% APY\n` +
+            `🌊 **Deposited in Breeze:** $${breezeBalance.toFixed(2)}\n\n` +
+            '💡 Earn passive yield on your stablecoins!';
+
+        const keyboard = {
+            inline_keyboard: [
+                [
+                    { text: '📥 Deposit', callback_data: callbackData('depositMenu') },
+                    { text: '📤 Withdraw', callback_data: callbackData('withdrawMenu') }
+                ],
+                [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    private async showDepositInterface(chatId: number) {
+        let message = '📥 **Deposit to Breeze** 📥\n\n';
+        if (this.funds.length === 0) {
+            message += 'No Breeze funds are available right now.';
+        } else {
+            for (const fund of this.funds) {
+                message += `🏦 **${fund.name}** (${fund.baseAsset})\n`;
+                if (fund.description) {
+                    message += `${fund.description}\n`;
+                }
+                message += '\n';
+            }
+            message += 'Select the fund you want to deposit into:';
+        }
+
+        const keyboard = {
+            inline_keyboard: [
+                ...this.funds.map((fund) => [
+                    { text: `🏦 ${fund.name}`, callback_data: callbackData('deposit', fund.id) }
+                ]),
+                [{ text: '🔙 Back', callback_data: callbackData('earnYield') }]
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    private async showWithdrawInterface(chatId: number) {
+        const userData = this.users.get(chatId)!;
+        const positions = [...(await this.getBreezePositions(userData.publicKey!)).values()]
+            .filter((position) => position.raw > 0);
+
+        let message = '📤 **Withdraw from Breeze** 📤\n\n';
+        if (positions.length === 0) {
+            message += 'No funds deposited in Breeze yet.';
+        } else {
+            message += '💰 **Available to withdraw:**\n';
+            for (const { fund, human } of positions) {
+                message += `• ${fund.name}: ${human.toFixed(2)} ${fund.baseAsset}\n`;
+                // Breeze fund ids that can't be put on a button are still reachable by command
+                if (!fitsInButtons(fund.id)) {
+                    message += `  Withdraw with \`/withdraw all ${fund.id}\`\n`;
+                }
+            }
+            message += '\nSelect the fund you want to withdraw from:';
+        }
+
+        const keyboard = {
+            inline_keyboard: [
+                ...positions.filter(({ fund }) => fitsInButtons(fund.id)).map(({ fund }) => [
+                    { text: `🏦 ${fund.name}`, callback_data: callbackData('withdraw', fund.id) }
+                ]),
+                [{ text: '🔙 Back', callback_data: callbackData('earnYield') }]
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    private async showDepositAmountSelection(chatId: number, fund: BreezeFund) {
+        const userData = this.users.get(chatId)!;
+        const asset = fund.baseAsset;
+        const balance = await this.getWalletBalance(userData.publicKey!, asset);
+
+        const message =
+            `📥 **${fund.name} Deposit Amount** 📥\n\n` +
+            `💰 Available ${asset}: ${balance.human.toFixed(TOKEN_DECIMALS[asset])}\n\n` +
+            'Select deposit amount:';
+
+        const keyboard = {
+            inline_keyboard: [
+                [{ text: '50%', callback_data: callbackData('deposit', fund.id, '50') }],
+                [{ text: '100%', callback_data: callbackData('deposit', fund.id, '100') }],
+                [{ text: '💰 Custom Amount', callback_data: callbackData('deposit', fund.id, 'custom') }],
+                [{ text: '🔙 Back', callback_data: callbackData('depositMenu') }]
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    private async showWithdrawAmountSelection(chatId: number, fund: BreezeFund) {
+        const userData = this.users.get(chatId)!;
+        const asset = fund.baseAsset;
+        const positions = await this.getBreezePositions(userData.publicKey!);
+        const available = positions.get(fund.id)?.human ?? 0;
+
+        const message =
+            `📤 **${fund.name} Withdraw Amount** 📤\n\n` +
+            `💰 Available to withdraw: ${available.toFixed(TOKEN_DECIMALS[asset])} ${asset}\n\n` +
+            'Select withdrawal amount:';
+
+        const keyboard = {
+            inline_keyboard: [
+                [{ text: '50%', callback_data: callbackData('withdraw', fund.id, '50') }],
+                [{ text: '100%', callback_data: callbackData('withdraw', fund.id, '100') }],
+                [{ text: '💰 Custom Amount', callback_data: callbackData('withdraw', fund.id, 'custom') }],
+                [{ text: '🔙 Back', callback_data: callbackData('withdrawMenu') }]
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    private logTransactionDetails(serializedTx: string, context: string) {
+        try {
+            console.log(`\n=== ${context} TRANSACTION DEBUG ===`);
+            console.log('Serialized TX (base64):', serializedTx.substring(0, 100) + '...');
+
+            const transaction = VersionedTransaction.deserialize(Buffer.from(serializedTx, 'base64'));
+
+            console.log('Transaction details:');
+            console.log('- Version:', transaction.version);
+            console.log('- Message keys:', transaction.message.staticAccountKeys.length);
+            console.log('- Instructions:', transaction.message.compiledInstructions.length);
+            console.log('- Account keys:');
+            transaction.message.staticAccountKeys.forEach((key, index) => {
+                console.log(`  [${index}]: ${key.toString()}`);
+            });
+            console.log('- Programs:');
+            transaction.message.compiledInstructions.forEach((instruction, index) => {
+                console.log(`  [${index}]: ${transaction.message.staticAccountKeys[instruction.programIdIndex]?.toString()}`);
+            });
+
+            console.log('===========================\n');
+        } catch (error) {
+            console.error(`Failed to deserialize transaction in ${context}:`, error);
+            console.log('Raw serialized data:', serializedTx);
+        }
+    }
+
+    // Asks Breeze for the transaction and stores it as pending; false when Breeze refused
+    private async createPendingTransaction(
+        chatId: number,
+        type: 'deposit' | 'withdraw',
+        fund: BreezeFund,
+        tokenAmount: bigint,
+        humanAmount: number,
+        all: boolean
+    ): Promise<boolean> {
+        const userData = this.users.get(chatId)!;
+        const feePayer = await this.sponsoredFeePayer(chatId);
+        const params = {
+            fundId: fund.id,
+            amount: Number(tokenAmount), // FIXED: Convert BigInt to number for API
+            all,
+            userKey: userData.publicKey!,
+            payerKey: feePayer
+        };
+
+        const data = type === 'deposit'
+            ? await this.breeze.createDepositTransaction(params)
+            : await this.breeze.createWithdrawTransaction(params);
+
+        if (typeof data === 'object' && 'message' in data) {
+            await this.bot.sendMessage(chatId, `❌ Error: ${data.message}`);
+            return false;
+        }
+
+        const createdAt = Date.now();
+        userData.pendingTransaction = {
+            serializedTx: data,
+            type,
+            amount: humanAmount,
+            asset: fund.baseAsset,
+            fundId: fund.id,
+            all,
+            feePayer,
+            createdAt,
+            expiresAt: createdAt + PENDING_TX_TTL_SECONDS * 1000
+        };
+
+        return true;
+    }
+
+    // Gasless mode covers wallets the bot signs for, while today's budgets last. Watch-only wallets
+    // pay their own fees, as their transactions are sent and found on-chain by the user's wallet.
+    private async sponsoredFeePayer(chatId: number): Promise<string | undefined> {
+        if (!this.feeSponsor || this.users.get(chatId)!.watchOnly) {
+            return undefined;
+        }
+
+        try {
+            return await this.feeSponsor.canSponsor(chatId) ? this.feeSponsor.payer.publicKey.toBase58() : undefined;
+        } catch (error) {
+            console.error('Error checking the sponsorship budget:', error);
+            return undefined;
+        }
+    }
+
+    // Rebuilds the pending transaction from its stored request once its blockhash may have expired
+    private async refreshPendingTransaction(chatId: number): Promise<boolean> {
+        const userData = this.users.get(chatId)!;
+        const pendingTx = userData.pendingTransaction!;
+
+        if (pendingTx.expiresAt > Date.now()) {
+            return true;
+        }
+
+        userData.pendingTransaction = undefined;
+        const fund = pendingTx.fundId ? await this.resolveFund(userData.publicKey!, pendingTx.fundId) : undefined;
+        if (!fund || pendingTx.amount === undefined) {
+            await this.bot.sendMessage(chatId, '⏰ This transaction expired. Please start it again from the menu.');
+            return false;
+        }
+
+        console.log(`Rebuilding ${pendingTx.type} transaction created at ${new Date(pendingTx.createdAt ?? 0).toISOString()}`);
+
+        try {
+            const tokenAmount = convertToTokenAmount(pendingTx.amount, fund.baseAsset);
+            if (!(await this.createPendingTransaction(chatId, pendingTx.type, fund, tokenAmount, pendingTx.amount, pendingTx.all ?? false))) {
+                return false;
+            }
+        } catch (error) {
+            console.error('Error rebuilding transaction:', error);
+            await this.bot.sendMessage(chatId, '❌ This transaction expired and could not be rebuilt. Please try again.');
+            return false;
+        }
+
+        await this.bot.sendMessage(chatId, '♻️ The transaction expired, so a fresh one was built for the same amount.');
+        return true;
+    }
+
+    // A rebuilt transaction is a different one, so it goes back through the confirm screen to be priced,
+    // checked and simulated before anything signs it. Returns whether that happened.
+    private async reconfirmIfExpired(chatId: number): Promise<boolean> {
+        if (this.users.get(chatId)!.pendingTransaction!.expiresAt > Date.now()) {
+            return false;
+        }
+        await this.showTransactionConfirmation(chatId);
+        return true;
+    }
+
+    // FIXED: Updated processDeposit method with proper BigInt handling
+    private async processDeposit(chatId: number, fund: BreezeFund, percentage?: number, customAmount?: number) {
+        const userData = this.users.get(chatId)!;
+        const asset = fund.baseAsset;
+        const balance = await this.getWalletBalance(userData.publicKey!, asset);
+
+        let tokenAmount: bigint;
+        let humanAmount: number;
+        let isAll = false;
+
+        if (percentage === 100) {
+            // Use exact raw balance for 100%
+            tokenAmount = balance.raw;
+            humanAmount = balance.human;
+            isAll = true;
+        } else if (percentage === 50) {
+            // Calculate 50% of raw balance
+            tokenAmount = balance.raw / BigInt(2);
+            humanAmount = convertFromTokenAmount(tokenAmount, asset);
+        } else if (customAmount) {
+            humanAmount = customAmount;
+            tokenAmount = convertToTokenAmount(customAmount, asset);
+        } else {
+            return;
+        }
+
+        if (tokenAmount <= 0) {
+            await this.bot.sendMessage(chatId, `❌ Insufficient ${asset} balance!`);
+            return;
+        }
+
+        console.log(`Deposit: ${humanAmount} ${asset} (${tokenAmount.toString()} token units)`);
+
+        try {
+            if (await this.createPendingTransaction(chatId, 'deposit', fund, tokenAmount, humanAmount, isAll)) {
+                await this.showTransactionConfirmation(chatId);
+            }
+        } catch (error) {
+            console.error('Deposit error:', error);
+            await this.bot.sendMessage(chatId, '❌ Failed to create deposit transaction. Please try again.');
+        }
+    }
+
+    private async processWithdraw(chatId: number, fund: BreezeFund, percentage?: number, customAmount?: number) {
+        const userData = this.users.get(chatId)!;
+        const asset = fund.baseAsset;
+        const positions = await this.getBreezePositions(userData.publicKey!);
+        const position = positions.get(fund.id) ?? { raw: BigInt(0), human: 0 };
+
+        let tokenAmount: bigint;
+        let humanAmount: number;
+        let isAll = false;
+
+        if (percentage === 100) {
+            tokenAmount = position.raw;
+            humanAmount = position.human;
+            isAll = true;
+        } else if (percentage === 50) {
+            tokenAmount = position.raw / BigInt(2);
+            humanAmount = convertFromTokenAmount(tokenAmount, asset);
+        } else if (customAmount) {
+            humanAmount = customAmount;
+            tokenAmount = convertToTokenAmount(customAmount, asset);
+        } else {
+            return;
+        }
+
+        if (tokenAmount <= 0) {
+            await this.bot.sendMessage(chatId, '❌ No funds available to withdraw!');
+            return;
+        }
+
+        console.log(`Withdraw: ${humanAmount} ${asset} (${tokenAmount.toString()} token units)`);
+
+        try {
+            // Withdraw-all sends the full position amount along with all=true
+            if (await this.createPendingTransaction(chatId, 'withdraw', fund, tokenAmount, humanAmount, isAll)) {
+                await this.showTransactionConfirmation(chatId);
+            }
+        } catch (error) {
+            console.error('Withdraw error:', error);
+            await this.bot.sendMessage(chatId, '❌ Failed to create withdrawal transaction. Please try again.');
+        }
+    }
+
+
+    // Transactions that fail verification are dropped so they can never be signed
+    private async verifyPendingTransaction(chatId: number, transaction: VersionedTransaction): Promise<boolean> {
+        const userData = this.users.get(chatId)!;
+        const pendingTx = userData.pendingTransaction!;
+        const asset = pendingTx.asset as TokenSymbol;
+
+        try {
+            await verifyTransaction(this.connection, transaction, {
+                type: pendingTx.type,
+                user: new PublicKey(userData.publicKey!),
+                feePayer: pendingTx.feePayer ? new PublicKey(pendingTx.feePayer) : undefined,
+                mint: new PublicKey(TOKEN_MINTS[asset]),
+                tokenProgramId: TOKEN_PROGRAM_IDS[asset],
+                amount: convertToTokenAmount(pendingTx.amount!, asset),
+                breezeProgramIds: BREEZE_PROGRAM_IDS
+            });
+            return true;
+        } catch (error) {
+            userData.pendingTransaction = undefined;
+
+            if (error instanceof UnsafeTransactionError) {
+                await this.reportUnsafeTransaction(chatId, pendingTx, error);
+                return false;
+            }
+
+            console.error('Transaction verification error:', error);
+            await this.bot.sendMessage(chatId, '❌ Unable to verify the transaction. Please try again.');
+            return false;
+        }
+    }
+
+    private async reportUnsafeTransaction(chatId: number, pendingTx: NonNullable<UserData['pendingTransaction']>, error: UnsafeTransactionError) {
+        console.error('Unsafe transaction rejected:', error.problems);
+        await this.bot.sendMessage(chatId,
+            `🛑 This ${pendingTx.type} transaction failed our safety checks and was not signed:\n\n` +
+            error.problems.map((problem) => `• ${problem}\n`).join('') +
+            '\nNo funds were moved. Please try again later.'
+        );
+    }
+
+    // Simulation failures drop the pending transaction so it can never be confirmed
+    private async simulatePendingTransaction(chatId: number, transaction: VersionedTransaction): Promise<SimulationSummary | undefined> {
+        const userData = this.users.get(chatId)!;
+        const pendingTx = userData.pendingTransaction!;
+
+        let simulation: SimulationSummary;
+        try {
+            simulation = await simulateTransaction(
+                this.connection,
+                transaction,
+                new PublicKey(userData.publicKey!),
+                pendingTx.feePayer ? new PublicKey(pendingTx.feePayer) : undefined
+            );
+        } catch (error) {
+            userData.pendingTransaction = undefined;
+
+            if (error instanceof SimulationFailedError) {
+                const logErrors = error.logs.filter((log) => /error|failed/i.test(log)).slice(-3);
+                await this.bot.sendMessage(chatId,
+                    `❌ This ${pendingTx.type} would fail, so it was not sent for signing.\n\n` +
+                    `Reason: ${error.reason}\n` +
+                    logErrors.map((log) => `• ${log}\n`).join('') +
+                    '\nNo funds were moved. Please try again later.'
+                );
+                return undefined;
+            }
+
+            console.error('Simulation error:', error);
+            await this.bot.sendMessage(chatId, '❌ Unable to simulate the transaction. Please try again.');
+            return undefined;
+        }
+
+        // Tokens can leave the wallet inside a Breeze program call, out of sight of verifyTransaction
+        try {
+            const asset = pendingTx.asset as TokenSymbol;
+            verifyBalanceChanges(simulation.balanceChanges, {
+                type: pendingTx.type,
+                asset,
+                amount: convertToTokenAmount(pendingTx.amount!, asset)
+            });
+        } catch (error) {
+            userData.pendingTransaction = undefined;
+            if (!(error instanceof UnsafeTransactionError)) {
+                throw error;
+            }
+            await this.reportUnsafeTransaction(chatId, pendingTx, error);
+            return undefined;
+        }
+
+        // The fee payer only signs transactions that cost it what the budgets allow for
+        if (pendingTx.feePayer && simulation.feePayerCost !== undefined) {
+            const sponsoredLamports = Math.round(simulation.feePayerCost * 1e9);
+            const maxFeeLamports = this.feeSponsor?.budgets.maxFeeLamports ?? 0;
+            if (sponsoredLamports > maxFeeLamports) {
+                userData.pendingTransaction = undefined;
+                console.error(`Sponsored ${pendingTx.type} would cost the fee payer ${sponsoredLamports} lamports`);
+                await this.bot.sendMessage(chatId,
+                    `🛑 This ${pendingTx.type} would cost ${simulation.feePayerCost.toFixed(6)} SOL in fees, more than the ` +
+                    `${(maxFeeLamports / 1e9).toFixed(6)} SOL the bot covers per transaction, so it was not signed.\n\n` +
+                    'No funds were moved. Please try again later.'
+                );
+                return undefined;
+            }
+            pendingTx.sponsoredLamports = sponsoredLamports;
+            pendingTx.sponsoredMessage = Buffer.from(transaction.message.serialize()).toString('base64');
+        }
+
+        return simulation;
+    }
+
+    private async showTransactionConfirmation(chatId: number) {
+        if (!(await this.refreshPendingTransaction(chatId))) {
+            return;
+        }
+
+        const userData = this.users.get(chatId)!;
+        const { type, amount, asset, fundId, serializedTx } = userData.pendingTransaction!;
+
+        let transaction: VersionedTransaction;
+        try {
+            transaction = VersionedTransaction.deserialize(Buffer.from(serializedTx, 'base64'));
+        } catch (error) {
+            console.error('Invalid transaction data:', error);
+            userData.pendingTransaction = undefined;
+            await this.bot.sendMessage(chatId, '❌ Invalid transaction data.');
+            return;
+        }
+
+        try {
+            transaction = await withComputeUnitPrice(this.connection, transaction, COMPUTE_UNIT_PRICE_MICROLAMPORTS);
+            userData.pendingTransaction!.serializedTx = Buffer.from(transaction.serialize()).toString('base64');
+        } catch (error) {
+            console.error('Error adding priority fee:', error);
+        }
+
+        if (!(await this.verifyPendingTransaction(chatId, transaction))) {
+            return;
+        }
+
+        const simulation = await this.simulatePendingTransaction(chatId, transaction);
+        if (!simulation) {
+            return;
+        }
+
+        const fund = fundId ? await this.resolveFund(userData.publicKey!, fundId) : undefined;
+        const changes = simulation.balanceChanges.map(({ symbol, delta }) =>
+            `• ${symbol}: ${delta > 0 ? '+' : ''}${delta.toFixed(symbol === 'SOL' ? 6 : 2)}\n`
+        );
+
+        const message =
+            `✅ **Confirm ${type.charAt(0).toUpperCase() + type.slice(1)}** ✅\n\n` +
+            `💰 Amount: ${amount!.toFixed(6)} ${asset}\n` +
+            (fund ? `🏦 Fund: ${fund.name}\n` : '') +
+            `🎯 Action: ${type.charAt(0).toUpperCase() + type.slice(1)} ${type === 'deposit' ? 'to' : 'from'} Breeze\n\n` +
+            '🔮 **Simulated balance changes:**\n' +
+            (changes.length > 0 ? changes.join('') : '• No balance changes\n') +
+            (simulation.unitsConsumed !== undefined ? `⚙️ Compute units: ${simulation.unitsConsumed.toLocaleString('en-US')}\n` : '') +
+            (simulation.feePayerCost !== undefined
+                ? `🎁 Network fee: ${simulation.feePayerCost.toFixed(6)} SOL, paid by the bot\n`
+                : `⛽ Network fee: ${simulation.fee.toFixed(6)} SOL\n`) +
+            `⏳ Valid for ${PENDING_TX_TTL_SECONDS} seconds, then rebuilt for you to confirm again\n\n` +
+            (userData.watchOnly ? '⚠️ Please confirm this transaction, then sign it in your wallet:' : '⚠️ Please confirm this transaction:');
+
+        const keyboard = {
+            inline_keyboard: [
+                [userData.watchOnly
+                    ? { text: '✍️ Sign in My Wallet', callback_data: callbackData('confirmTransaction') }
+                    : { text: '✅ Confirm Transaction', callback_data: callbackData('confirmTransaction') }],
+                [{ text: '📤 Export for Offline Signing', callback_data: callbackData('exportTransaction') }],
+                [{ text: '❌ Cancel', callback_data: callbackData('earnYield') }]
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    private async confirmTransaction(chatId: number) {
+        const userData = this.users.get(chatId)!;
+        const pendingTx = userData.pendingTransaction;
+
+        if (!pendingTx) {
+            await this.bot.sendMessage(chatId, '❌ No pending transaction found.');
+            return;
+        }
+
+        let transaction: VersionedTransaction;
+        try {
+            if (!pendingTx.serializedTx) {
+                await this.bot.sendMessage(chatId, '❌ Invalid transaction data.');
+                return;
+            }
+
+            if (await this.reconfirmIfExpired(chatId)) {
+                return;
+            }
+
+            if (userData.watchOnly) {
+                await this.requestExternalSignature(chatId);
+                return;
+            }
+
+            if (!this.isUnlocked(userData)) {
+                await this.promptUnlock(chatId, '🔒 Your wallet is locked. Please enter your passphrase to sign this transaction:');
+                return;
+            }
+
+            this.logTransactionDetails(pendingTx.serializedTx, 'CONFIRMING');
+
+            transaction = VersionedTransaction.deserialize(Buffer.from(pendingTx.serializedTx, 'base64'));
+
+            // Re-checked right before signing, whatever happened since the confirm screen
+            if (!(await this.verifyPendingTransaction(chatId, transaction))) {
+                return;
+            }
+
+            transaction.sign([userData.keypair!]);
+            if (!(await this.signAsFeePayer(chatId, pendingTx, transaction))) {
+                return;
+            }
+        } catch (error) {
+            console.error('Transaction error:', error);
+            await this.bot.sendMessage(chatId, '❌ Failed to process transaction. Please try again.');
+            return;
+        }
+
+        await this.submitPendingTransaction(chatId, transaction);
+    }
+
+    // Sends the signed transaction and keeps a single status message up to date until it settles
+    private async submitPendingTransaction(chatId: number, transaction: VersionedTransaction) {
+        const userData = this.users.get(chatId)!;
+
+        await this.followTransaction(chatId, userData.pendingTransaction!, bs58.encode(transaction.signatures[0]), (onStatus) =>
+            submitTransaction(this.connection, transaction, {
+                commitment: 'finalized',
+                rebroadcastIntervalMs: TX_REBROADCAST_INTERVAL_MS,
+                timeoutMs: TX_CONFIRMATION_TIMEOUT_SECONDS * 1000,
+                onStatus
+            })
+        );
+    }
+
+    // Reports a transaction's progress in one status message while `send` drives it to finalization
+    private async followTransaction(
+        chatId: number,
+        pendingTx: NonNullable<UserData['pendingTransaction']>,
+        signature: string,
+        send: (onStatus: (status: SubmissionStatus) => Promise<void>) => Promise<string>
+    ) {
+        // Whatever the user started since then is left alone
+        const clearPending = () => {
+            const userData = this.users.get(chatId);
+            if (userData?.pendingTransaction?.serializedTx === pendingTx.serializedTx) {
+                userData.pendingTransaction = undefined;
+            }
+        };
+        const explorerKeyboard = {
+            inline_keyboard: [[{ text: '🔍 View on Explorer', url: explorerTransactionUrl(signature, EXPLORER_CLUSTER, SOLANA_RPC_URL) }]]
+        };
+
+        let statusMessageId: number | undefined;
+        let reached: SubmissionStatus = 'sent';
+        const showStatus = async (outcome?: string, keyboard: TelegramBot.InlineKeyboardMarkup = explorerKeyboard) => {
+            const text = this.formatTransactionStatus(pendingTx, signature, reached, outcome);
+            statusMessageId = await this.sendOrEditMessage(chatId, statusMessageId, text, keyboard);
+        };
+
+        try {
+            await send(async (status) => {
+                reached = status;
+                await showStatus();
+            });
+
+            const action = pendingTx.type === 'deposit' ? 'deposited to' : 'withdrawn from';
+            await showStatus(`🎉 **Successfully ${action} Breeze!**`, {
+                inline_keyboard: [...explorerKeyboard.inline_keyboard, [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]]
+            });
+
+            clearPending();
+
+        } catch (error) {
+            console.error('Transaction error:', error);
+
+            // A signed transaction can't be sent twice; whatever happens next needs a rebuilt one
+            pendingTx.expiresAt = 0;
+
+            if (error instanceof TransactionFailedError) {
+                const logErrors = error.logs.filter((log) => /error|failed/i.test(log)).slice(-3);
+                await showStatus(
+                    `❌ **Failed on-chain:** \`${error.reason}\`\n` +
+                    logErrors.map((log) => `• \`${log}\`\n`).join('') +
+                    'Only the network fee was charged.'
+                );
+                return;
+            }
+
+            if (error instanceof TransactionDroppedError) {
+                await showStatus('⌛ The network dropped the transaction before it was confirmed. No funds were moved. Tap Try Again to review a fresh one.', RETRY_KEYBOARD);
+                return;
+            }
+
+            // It may still land, so it must not be rebuilt and sent again
+            if (error instanceof TransactionTimeoutError) {
+                clearPending();
+                await showStatus(error.lastStatus === 'confirmed'
+                    ? '✅ Confirmed, but finalization is taking longer than usual. Check the explorer for the final state.'
+                    : `⌛ Still not confirmed after ${TX_CONFIRMATION_TIMEOUT_SECONDS} seconds. It may still land, so check the explorer before trying again.`
+                );
+                return;
+            }
+
+            // The blockhash ran out between the last check and the send
+            if (error instanceof Error && /blockhash not found/i.test(error.message)) {
+                await this.showMenu(chatId, '⏰ The transaction expired before it reached the network. Tap Try Again to review a fresh one.', RETRY_KEYBOARD);
+                return;
+            }
+
+            await this.bot.sendMessage(chatId, '❌ Failed to process transaction. Please try again.');
+        }
+    }
+
+    // Hands the unsigned transaction to a hardware wallet or offline device as base64 and a QR code,
+    // then waits for the signed copy to be pasted or uploaded back
+    private async exportForOfflineSigning(chatId: number) {
+        const userData = this.users.get(chatId)!;
+
+        if (!userData.pendingTransaction) {
+            await this.bot.sendMessage(chatId, '❌ No pending transaction found.');
+            return;
+        }
+        if (await this.reconfirmIfExpired(chatId)) {
+            return;
+        }
+        const pendingTx = userData.pendingTransaction!;
+
+        let transaction: VersionedTransaction;
+        try {
+            transaction = VersionedTransaction.deserialize(Buffer.from(pendingTx.serializedTx, 'base64'));
+        } catch (error) {
+            console.error('Invalid transaction data:', error);
+            userData.pendingTransaction = undefined;
+            await this.bot.sendMessage(chatId, '❌ Invalid transaction data.');
+            return;
+        }
+
+        // Re-checked before it leaves the bot, whatever happened since the confirm screen
+        if (!(await this.verifyPendingTransaction(chatId, transaction))) {
+            return;
+        }
+        this.logTransactionDetails(pendingTx.serializedTx, 'OFFLINE EXPORT');
+
+        try {
+            await this.bot.sendPhoto(chatId, await qrCodePng(pendingTx.serializedTx), { caption: '📷 Unsigned transaction' }, {
+                filename: 'transaction.png',
+                contentType: 'image/png'
+            });
+        } catch (error) {
+            // The base64 copy is enough to sign with
+            console.error('Error sending transaction QR code:', error);
+        }
+
+        this.startConversation(chatId, { step: 'signed_transaction' });
+        await this.showMenu(chatId,
+            '📤 **Offline Signing** 📤\n\n' +
+            `Sign this ${pendingTx.type} with the wallet \`${shortAddress(userData.publicKey!)}\` on your hardware wallet or offline device. ` +
+            'Scan the QR code above or copy the unsigned transaction (base64):\n\n' +
+            `\`${pendingTx.serializedTx}\`\n\n` +
+            "📥 Then paste the signed transaction here or upload it as a file. I'll check your signature and send it to the network.\n\n" +
+            '⏳ Its blockhash expires about a minute after it was built, so sign it right away.',
+            { inline_keyboard: [[{ text: '❌ Cancel', callback_data: callbackData('earnYield') }]] }
+        );
+    }
+
+    // Signed transactions may come back as a file, holding base64 text or the raw bytes some tools write
+    private async readUploadedTransaction(chatId: number, document: TelegramBot.Document): Promise<string | undefined> {
+        if ((document.file_size ?? 0) > MAX_TRANSACTION_FILE_BYTES) {
+            await this.bot.sendMessage(chatId, '❌ That file is too large to be a transaction. Please upload the signed transaction or paste it instead.');
+            return undefined;
+        }
+
+        try {
+            const chunks: Buffer[] = [];
+            for await (const chunk of this.bot.getFileStream(document.file_id)) {
+                chunks.push(chunk as Buffer);
+            }
+            const content = Buffer.concat(chunks);
+            return /^[\x20-\x7e\s]*$/.test(content.toString('latin1')) ? content.toString('utf8') : content.toString('base64');
+        } catch (error) {
+            console.error('Error downloading uploaded transaction:', error);
+            await this.bot.sendMessage(chatId, '❌ Could not read that file. Please try again or paste the transaction instead.');
+            return undefined;
+        }
+    }
+
+    // Only the exported transaction, unchanged and signed by the wallet, is sent to the network
+    private async handleSignedTransactionInput(chatId: number, transaction: VersionedTransaction) {
+        const userData = this.users.get(chatId)!;
+        const pendingTx = userData.pendingTransaction;
+
+        if (!pendingTx) {
+            userData.conversation = undefined;
+            await this.bot.sendMessage(chatId, '❌ No pending transaction found.');
+            return;
+        }
+
+        const exported = VersionedTransaction.deserialize(Buffer.from(pendingTx.serializedTx, 'base64'));
+        if (!Buffer.from(transaction.message.serialize()).equals(Buffer.from(exported.message.serialize()))) {
+            await this.bot.sendMessage(chatId,
+                "❌ That isn't the transaction I exported, or it was changed while signing. " +
+                'Please send the signed copy of the exported transaction, or use /cancel to go back.'
+            );
+            return;
+        }
+        if (!isSignedBy(transaction, new PublicKey(userData.publicKey!))) {
+            await this.bot.sendMessage(chatId,
+                `❌ That transaction isn't signed by your wallet \`${shortAddress(userData.publicKey!)}\`. ` +
+                'Please sign it with that wallet and send it again, or use /cancel to go back.',
+                { parse_mode: 'Markdown' }
+            );
+            return;
+        }
+
+        userData.conversation = undefined;
+        this.logTransactionDetails(Buffer.from(transaction.serialize()).toString('base64'), 'OFFLINE SIGNED');
+
+        // Re-checked right before sending, whatever happened since the export
+        if (!(await this.verifyPendingTransaction(chatId, transaction))) {
+            return;
+        }
+
+        try {
+            if (!(await this.signAsFeePayer(chatId, pendingTx, transaction))) {
+                return;
+            }
+        } catch (error) {
+            console.error('Error signing as fee payer:', error);
+            await this.bot.sendMessage(chatId, '❌ Failed to process transaction. Please try again.');
+            return;
+        }
+
+        await this.submitPendingTransaction(chatId, transaction);
+    }
+
+    // Gasless transactions also carry the operator's signature as fee payer. It only signs the exact
+    // transaction that was simulated, and its fee is recorded first so the budgets hold whatever
+    // else is being confirmed. False when it refused; the user has been told why.
+    private async signAsFeePayer(chatId: number, pendingTx: NonNullable<UserData['pendingTransaction']>, transaction: VersionedTransaction): Promise<boolean> {
+        if (!pendingTx.feePayer) {
+            return true;
+        }
+        if (this.feeSponsor?.payer.publicKey.toBase58() !== pendingTx.feePayer) {
+            throw new Error('The fee payer this transaction was built for is no longer configured');
+        }
+
+        const message = Buffer.from(transaction.message.serialize()).toString('base64');
+        if (pendingTx.sponsoredLamports === undefined || pendingTx.sponsoredMessage !== message) {
+            console.error(`Refused to sponsor a ${pendingTx.type} that was not simulated`);
+            pendingTx.expiresAt = 0;
+            await this.showMenu(chatId, '🛑 The bot only pays fees for transactions it has checked, so this one was not sent. Tap Try Again to review a fresh one.', RETRY_KEYBOARD);
+            return false;
+        }
+
+        // Fees are charged whether the transaction succeeds or fails on-chain; ones the network drops
+        // stay counted too, erring on the side of the budgets
+        transaction.sign([this.feeSponsor.payer]);
+        if (!(await this.feeSponsor.reserve(chatId, bs58.encode(transaction.signatures[0]), pendingTx.sponsoredLamports))) {
+            pendingTx.expiresAt = 0;
+            await this.showMenu(chatId, "🛑 The bot's fee budget ran out before this transaction was sent. Tap Try Again to review a fresh one, paying the fee yourself.", RETRY_KEYBOARD);
+            return false;
+        }
+        return true;
+    }
+
+    // Offers the pending transaction to a watch-only wallet as a Solana Pay transaction request. The
+    // wallet sends it to the network itself, so the bot watches the chain to find out how it went.
+    private async requestExternalSignature(chatId: number) {
+        const userData = this.users.get(chatId)!;
+
+        if (!SOLANA_PAY_URL) {
+            userData.pendingTransaction = undefined;
+            await this.showMenu(chatId, "❌ Signing in your own wallet isn't set up on this bot yet, so watch-only wallets can't transact.", {
+                inline_keyboard: [[{ text: '🔙 Back to Main', callback_data: callbackData('main') }]]
+            });
+            return;
+        }
+
+        // Requests are stored with the user, so whichever replica the wallet reaches can serve them
+        const pendingTx = userData.pendingTransaction!;
+        const requests = (userData.signingRequests ?? []).filter((request) => request.expiresAt > Date.now());
+        userData.signingRequests = requests;
+        let requestId = pendingTx.signingRequestId;
+        if (!requestId || !requests.some((request) => request.id === requestId)) {
+            requestId = `${chatId}.${bs58.encode(crypto.randomBytes(16))}`;
+            pendingTx.signingRequestId = requestId;
+            requests.push({
+                id: requestId,
+                wallet: userData.publicKey!,
+                pendingTransaction: { ...pendingTx },
+                blockhashes: [],
+                until: await this.latestSignature(userData.publicKey!),
+                expiresAt: Date.now() + EXTERNAL_SIGNING_TIMEOUT_SECONDS * 1000
+            });
+            await this.saveUser(chatId);
+            void this.watchForExternalSignature(chatId, requestId);
+        }
+
+        await this.showMenu(chatId,
+            '✍️ **Sign in Your Wallet** ✍️\n\n' +
+            'Tap "Open in Wallet" on the phone with your wallet app (Phantom, Backpack, Solflare, ...), ' +
+            'or paste this Solana Pay link into a wallet that supports it:\n\n' +
+            `\`${solanaPayUrl(transactionRequestLink(SOLANA_PAY_URL, requestId))}\`\n\n` +
+            `👀 I'll watch the chain for up to ${Math.round(EXTERNAL_SIGNING_TIMEOUT_SECONDS / 60)} minutes and report back once it lands.`,
+            {
+                inline_keyboard: [
+                    [{ text: '📱 Open in Wallet', url: walletRedirectLink(SOLANA_PAY_URL, requestId) }],
+                    [{ text: '❌ Cancel', callback_data: callbackData('earnYield') }]
+                ]
+            }
+        );
+    }
+
+    private async latestSignature(publicKey: string): Promise<string | undefined> {
+        try {
+            const [latest] = await this.connection.getSignaturesForAddress(new PublicKey(publicKey), { limit: 1 }, 'confirmed');
+            return latest?.signature;
+        } catch (error) {
+            console.error('Error fetching wallet signatures:', error);
+            return undefined;
+        }
+    }
+
+    // Solana Pay POST from the user's wallet: hands over the pending transaction. A stale one is rebuilt and
+    // shown in the chat to be confirmed again, and this request is refused.
+    async createTransactionRequest(requestId: string, account: PublicKey): Promise<TransactionRequestResponse> {
+        const chatId = Number(requestId.split('.')[0]);
+        const userData = Number.isSafeInteger(chatId) && await this.userStore.get(chatId) ? await this.loadUser(chatId) : undefined;
+        const request = userData?.signingRequests?.find((candidate) => candidate.id === requestId);
+        if (!request || request.expiresAt <= Date.now() || userData!.pendingTransaction?.signingRequestId !== requestId) {
+            throw new TransactionRequestError(410, 'This request was cancelled or has expired. Please start again in the bot.');
+        }
+        if (account.toBase58() !== request.wallet) {
+            throw new TransactionRequestError(400, `Please connect the wallet ${shortAddress(request.wallet)}.`);
+        }
+
+        try {
+            if (await this.reconfirmIfExpired(chatId)) {
+                throw new TransactionRequestError(410, 'This transaction expired. Please confirm the fresh one in the bot.');
+            }
+            const pendingTx = userData!.pendingTransaction!;
+
+            // Re-checked before it leaves the bot, whatever happened since the confirm screen
+            const transaction = VersionedTransaction.deserialize(Buffer.from(pendingTx.serializedTx, 'base64'));
+            if (!(await this.verifyPendingTransaction(chatId, transaction))) {
+                throw new TransactionRequestError(422, 'This transaction failed the bot\'s safety checks. See the chat for details.');
+            }
+            request.blockhashes.push(transaction.message.recentBlockhash);
+
+            const type = pendingTx.type.charAt(0).toUpperCase() + pendingTx.type.slice(1);
+            return {
+                transaction: pendingTx.serializedTx,
+                message: `${type} ${pendingTx.amount?.toFixed(2)} ${pendingTx.asset} ${pendingTx.type === 'deposit' ? 'to' : 'from'} Breeze`
+            };
+        } finally {
+            await this.saveUser(chatId);
+        }
+    }
+
+    // Polls until the signed transaction shows up on-chain, the request times out, or the user moves
+    // on before their wallet ever fetched it. Once served it is watched for even if the user moved on.
+    // The request is read from the store on every poll, as another replica may have served it, and
+    // stops being watched once it is gone because the user deleted their data.
+    private async watchForExternalSignature(chatId: number, requestId: string) {
+        const checked: Set<string> = new Set(); // signatures already ruled out
+        let request = await this.findSigningRequest(chatId, requestId);
+
+        try {
+            while (request && Date.now() < request.expiresAt) {
+                await new Promise((resolve) => setTimeout(resolve, EXTERNAL_SIGNING_POLL_INTERVAL_MS));
+
+                request = await this.findSigningRequest(chatId, requestId);
+                if (!request) {
+                    return;
+                }
+                if (request.blockhashes.length === 0) {
+                    if ((await this.userStore.get(chatId))?.pendingTransaction?.signingRequestId !== requestId) {
+                        return;
+                    }
+                    continue;
+                }
+
+                let signature: string | undefined;
+                try {
+                    signature = await findSignedTransaction(this.connection, new PublicKey(request.wallet), request.blockhashes, {
+                        until: request.until,
+                        checked
+                    });
+                } catch (error) {
+                    console.error('Error looking for the signed transaction:', error);
+                }
+                request = await this.findSigningRequest(chatId, requestId);
+                if (!request) {
+                    return;
+                }
+                if (!signature) {
+                    continue;
+                }
+
+                // The user's own copy, if still pending, so the outcome is recorded on it
+                const userData = await this.loadUser(chatId);
+                const pendingTx = userData.pendingTransaction?.signingRequestId === requestId ? userData.pendingTransaction : request.pendingTransaction;
+                const found = signature;
+                await this.followTransaction(chatId, pendingTx, found, (onStatus) =>
+                    trackTransaction(this.connection, found, {
+                        commitment: 'finalized',
+                        rebroadcastIntervalMs: TX_REBROADCAST_INTERVAL_MS,
+                        timeoutMs: TX_CONFIRMATION_TIMEOUT_SECONDS * 1000,
+                        onStatus
+                    })
+                );
+                return;
+            }
+
+            if (request && request.blockhashes.length > 0) {
+                await this.bot.sendMessage(chatId,
+                    `⌛ Your wallet fetched the ${request.pendingTransaction.type} but I haven't seen it on-chain in ` +
+                    `${Math.round(EXTERNAL_SIGNING_TIMEOUT_SECONDS / 60)} minutes. If you signed it, check your wallet's activity before trying again.`
+                );
+            }
+        } catch (error) {
+            console.error('Error watching for an externally signed transaction:', error);
+        } finally {
+            await this.removeSigningRequest(chatId, requestId);
+        }
+    }
+
+    private async findSigningRequest(chatId: number, requestId: string): Promise<SigningRequest | undefined> {
+        const userData = await this.userStore.get(chatId);
+        return userData?.signingRequests?.find((request) => request.id === requestId);
+    }
+
+    // Saves whatever the watcher changed too, but never brings back a user who deleted their data
+    private async removeSigningRequest(chatId: number, requestId: string) {
+        try {
+            if (!(await this.findSigningRequest(chatId, requestId))) {
+                return;
+            }
+            const userData = await this.loadUser(chatId);
+            userData.signingRequests = userData.signingRequests?.filter((request) => request.id !== requestId);
+            await this.saveUser(chatId);
+        } catch (error) {
+            console.error('Error removing a signing request:', error);
+        }
+    }
+
+    // Progress checklist for a submitted transaction; the stage after the last one reached is in progress
+    private formatTransactionStatus(
+        pendingTx: NonNullable<UserData['pendingTransaction']>,
+        signature: string,
+        reached: SubmissionStatus,
+        outcome?: string
+    ): string {
+        const reachedIndex = SUBMISSION_STATUSES.indexOf(reached);
+        const stages = SUBMISSION_STATUSES.map((status, index) => {
+            const icon = index <= reachedIndex ? '✅' : index === reachedIndex + 1 && !outcome ? '⏳' : '▫️';
+            return `${icon} ${status.charAt(0).toUpperCase() + status.slice(1)}\n`;
+        });
+
+        return `🌊 **${pendingTx.type.charAt(0).toUpperCase() + pendingTx.type.slice(1)} ${pendingTx.amount?.toFixed(2)} ${pendingTx.asset}**\n\n` +
+            stages.join('') +
+            (outcome ? `\n${outcome}\n` : '') +
+            `\n🔗 Transaction: \`${signature}\``;
+    }
+
+    // Shows the message as the live menu the first time and edits it afterwards; returns its id
+    private async sendOrEditMessage(
+        chatId: number,
+        messageId: number | undefined,
+        text: string,
+        keyboard: TelegramBot.InlineKeyboardMarkup
+    ): Promise<number> {
+        if (messageId === undefined) {
+            return this.showMenu(chatId, text, keyboard);
+        }
+
+        try {
+            await this.bot.editMessageText(text, { chat_id: chatId, message_id: messageId, parse_mode: 'Markdown', reply_markup: keyboard });
+        } catch (error) {
+            console.error('Error editing message:', error);
+        }
+        return messageId;
+    }
+
+    private async showDetailedBalances(chatId: number, group?: GroupView) {
+        const userData = this.users.get(group?.userId ?? chatId)!;
+        const publicKey = userData.publicKey!;
+        const breezeBalances = await this.getAllBreezeBalances(publicKey);
+
+        if (!breezeBalances) {
+            await this.bot.sendMessage(chatId, '❌ Unable to fetch Breeze balances. Please try again later.');
+            return;
+        }
+
+        let totalPortfolioValue = 0;
+        let totalYieldEarned = 0;
+        let breezePosition: boolean = false;
+        
+        for (const balance of breezeBalances) {
+            if (!balance.yield_balance) {
+                continue;
+            }
+            // FIXED: Convert from token amounts to human readable
+            const positionValue = convertFromTokenAmount(
+                BigInt(balance.yield_balance.funds), 
+                balance.token_symbol
+            );
+            const yieldEarned = convertFromTokenAmount(
+                BigInt(balance.yield_balance.amount_of_yield), 
+                balance.token_symbol
+            );
+            
+            totalPortfolioValue += positionValue;
+            totalYieldEarned += yieldEarned;
+            breezePosition = true;
+        }
+
+        let message = '💳 **Detailed Breeze Balances** 💳\n\n';
+        message += `💰 **Total Portfolio Value:** $${totalPortfolioValue.toFixed(6)}\n`;
+        message += `🎯 **Total Yield Earned:** $${totalYieldEarned.toFixed(6)}\n\n`;
+
+        if (breezeBalances.length === 0) {
+            message += 'No positions found in Breeze.';
+        } else {
+            for (const balance of breezeBalances) {
+                message += `**${balance.token_symbol}**\n`;
+                
+                // FIXED: Convert wallet balance from token amount
+                const walletBalance = convertFromTokenAmount(
+                    BigInt(balance.total_balance), 
+                    balance.token_symbol
+                );
+                message += `• Wallet Balance: ${walletBalance.toFixed(6)}\n`;
+                message += `• Total Balance: ${walletBalance.toFixed(6)}\n`;
+
+                if (balance.yield_balance) {
+                    // FIXED: Convert yield balance amounts
+                    const positionValue = convertFromTokenAmount(
+                        BigInt(balance.yield_balance.funds), 
+                        balance.token_symbol
+                    );
+                    const yieldEarned = convertFromTokenAmount(
+                        BigInt(balance.yield_balance.amount_of_yield), 
+                        balance.token_symbol
+                    );
+                    
+                    message += `• Fund Positions:\n`;
+                    message += `- Total Yield: $${yieldEarned.toFixed(2)}\n`;
+                    message += `- ${balance.yield_balance.fund_id}: $${positionValue.toFixed(6)} (APY: ${balance.yield_balance.fund_apy.toFixed(6)}%)\n`;
+                }
+                message += '\n';
+            }
+        }
+
+        if (group) {
+            await this.showGroupView(chatId, group, message);
+            return;
+        }
+
+        const keyboard = {
+            inline_keyboard: [
+                [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    // Pages through the yield history, optionally for a single fund
+    private async showYieldHistory(chatId: number, page = 1, fundId?: string, group?: GroupView) {
+        const userData = this.users.get(group?.userId ?? chatId)!;
+        const publicKey = userData.publicKey!;
+        const yieldData = await this.breeze.getUserYield(publicKey, fundId, page);
+
+        if (!yieldData) {
+            await this.bot.sendMessage(chatId, '❌ Unable to fetch yield history. Please try again later.');
+            return;
+        }
+
+        let totalYieldEarned: number = 0;
+        
+        // FIXED: Calculate total yield earned by converting from token amounts
+        for (const position of yieldData.data) {
+            // Assuming yield_earned is in token amounts, convert to human readable
+            // You might need to determine the token symbol for each position
+            // If the API doesn't provide token symbol, you might need to infer it from base_asset
+            const tokenSymbol = position.base_asset === 'USDC' ? 'USDC' : 
+                              position.base_asset === 'USDT' ? 'USDT' : 
+                              position.base_asset === 'PYUSD' ? 'PYUSD' : 
+                              position.base_asset === 'USDS' ? 'USDS' : 'USDC'; // default to USDC
+            
+            const yieldEarned = convertFromTokenAmount(
+                BigInt(position.yield_earned), 
+                tokenSymbol
+            );
+            totalYieldEarned += yieldEarned;
+        }
+
+        const positions = await this.getBreezePositions(publicKey);
+        const filterFund = fundId ? positions.get(fundId)?.fund ?? this.findFund(fundId) : undefined;
+
+        let message = '📈 **Yield History** 📈\n\n';
+        if (fundId) {
+            message += `🔎 **Fund:** ${filterFund?.name ?? fundId}\n`;
+        }
+        message += `💰 **Total Yield Earned:** $${totalYieldEarned.toFixed(2)}\n\n`;
+
+        if (yieldData.data.length === 0) {
+            message += 'No yield history found.';
+        } else {
+            for (const yieldEntry of yieldData.data) {
+                const entryDate = new Date(yieldEntry.entry_date).toLocaleDateString();
+                const lastUpdated = new Date(yieldEntry.last_updated).toLocaleDateString();
+
+                // FIXED: Convert position value and yield earned from token amounts
+                const tokenSymbol = yieldEntry.base_asset === 'USDC' ? 'USDC' : 
+                                  yieldEntry.base_asset === 'USDT' ? 'USDT' : 
+                                  yieldEntry.base_asset === 'PYUSD' ? 'PYUSD' : 
+                                  yieldEntry.base_asset === 'USDS' ? 'USDS' : 'USDC';
+                
+                const positionValue = convertFromTokenAmount(
+                    BigInt(yieldEntry.position_value), 
+                    tokenSymbol
+                );
+                const yieldEarned = convertFromTokenAmount(
+                    BigInt(yieldEntry.yield_earned), 
+                    tokenSymbol
+                );
+
+                message += `**${yieldEntry.fund_name}** (${yieldEntry.base_asset})\n`;
+                message += `• Position Value: $${positionValue.toFixed(6)}\n`;
+                message += `• Yield Earned: $${yieldEarned.toFixed(6)}\n`;
+                message += `• APY: ${parseFloat(yieldEntry.apy).toFixed(6)}%\n`;
+                message += `• Entry Date: ${entryDate}\n`;
+                message += `• Last Updated: ${lastUpdated}\n\n`;
+            }
+
+        }
+        if (yieldData.meta.total_pages > 1 || page > 1) {
+            message += `📄 Page ${page} of ${Math.max(yieldData.meta.total_pages, 1)}`;
+        }
+
+        const navigation: TelegramBot.InlineKeyboardButton[] = [];
+        if (page > 1) {
+            navigation.push({ text: '⬅️ Prev', callback_data: callbackData('yieldHistory', page - 1, fundId) });
+        }
+        // has_more is authoritative; total_pages can lag behind while positions change
+        if (yieldData.meta.has_more) {
+            navigation.push({ text: 'Next ➡️', callback_data: callbackData('yieldHistory', page + 1, fundId) });
+        }
+
+        // Filtering only makes sense with more than one position to choose from
+        const filters: TelegramBot.InlineKeyboardButton[][] = [];
+        if (positions.size > 1 || fundId) {
+            filters.push([{ text: fundId ? '📋 All Funds' : '✅ All Funds', callback_data: callbackData('yieldHistory', 1) }]);
+            for (const { fund } of positions.values()) {
+                try {
+                    const data = callbackData('yieldHistory', 1, fund.id);
+                    filters.push([{ text: `${fund.id === fundId ? '✅' : '🔎'} ${fund.name}`, callback_data: data }]);
+                } catch (error) {
+                    // Fund ids too long for a button just don't get a filter
+                    if (!(error instanceof CallbackDataError)) throw error;
+                }
+            }
+        }
+
+        const buttons = [...(navigation.length > 0 ? [navigation] : []), ...filters];
+        if (group) {
+            await this.showGroupView(chatId, group, message, buttons.length > 0 ? { inline_keyboard: buttons } : undefined);
+            return;
+        }
+
+        const keyboard = {
+            inline_keyboard: [
+                ...buttons,
+                [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+            ]
+        };
+
+        await this.showMenu(chatId, message, keyboard);
+    }
+
+    private async showApy(chatId: number, group?: GroupView) {
+        const userData = this.users.get(group?.userId ?? chatId)!;
+        const yieldData = await this.breeze.getUserYield(userData.publicKey!);
+
+        if (!yieldData) {
+            await this.bot.sendMessage(chatId, '❌ Unable to fetch APY data. Please try again later.');
+            return;
+        }
+
+        let message = '📈 **Breeze APY** 📈\n\n';
+        if (yieldData.data.length === 0) {
+            message += 'No Breeze positions yet. Deposit with /deposit to start earning.';
+        } else {
+            const apys = yieldData.data.map((position) => parseFloat(position.apy));
+            yieldData.data.forEach((position, index) => {
+                message += `• ${position.fund_name} (${position.base_asset}): ${apys[index].toFixed(2)}%\n`;
+            });
+            message += `\n📊 **Average:** ${(apys.reduce((sum, apy) => sum + apy, 0) / apys.length).toFixed(2)}%`;
+        }
+
+        await this.bot.sendMessage(chatId, message, { parse_mode: 'Markdown', reply_to_message_id: group?.replyTo });
+    }
+
+    private async showWallet(chatId: number) {
+        const userData = this.users.get(chatId)!;
+        const unlocked = this.isUnlocked(userData);
+
+        if (userData.watchOnly) {
+            await this.showMenu(chatId,
+                '💳 **Your Wallet** 💳\n\n' +
+                `👛 ${this.walletName(userData)}\n` +
+                `\`${userData.publicKey}\`\n\n` +
+                '👀 Watch-only: the bot has no key for this wallet. Deposits and withdrawals are signed in your own wallet app.',
+                { inline_keyboard: [[{ text: '🔙 Back to Main', callback_data: callbackData('main') }]] }
+            );
+            return;
+        }
+
+        await this.showMenu(chatId,
+            '💳 **Your Wallet** 💳\n\n' +
+            `👛 ${this.walletName(userData)}\n` +
+            `\`${userData.publicKey}\`\n\n` +
+            (unlocked ? '🔓 Unlocked' : '🔒 Locked'),
+            {
+                inline_keyboard: [
+                    [unlocked
+                        ? { text: '🔒 Lock Wallet', callback_data: callbackData('lockWallet') }
+                        : { text: '🔓 Unlock Wallet', callback_data: callbackData('unlockWallet') }],
+                    [{ text: '🔑 Export Private Key', callback_data: callbackData('exportKey') }],
+                    [{ text: '♻️ Replace Wallet', callback_data: callbackData('replaceWallet') }],
+                    [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+                ]
+            }
+        );
+    }
+
+    private async showWallets(chatId: number) {
+        const userData = this.users.get(chatId)!;
+        const others = userData.otherWallets ?? [];
+        const canAdd = this.walletCount(userData) < MAX_WALLETS_PER_USER;
+
+        await this.showMenu(chatId,
+            '👛 **Your Wallets** 👛\n\n' +
+            `✅ **${this.walletName(userData)}** \`${shortAddress(userData.publicKey!)}\` (active)\n` +
+            others.map((wallet) => `• **${wallet.name}** \`${shortAddress(wallet.publicKey)}\`${wallet.watchOnly ? ' 👀' : ''}\n`).join('') +
+            '\nEach wallet keeps its own passphrase, so the one you switch to starts locked.' +
+            (canAdd ? '' : `\n\n⚠️ You've reached the limit of ${MAX_WALLETS_PER_USER} wallets.`),
+            {
+                inline_keyboard: [
+                    ...others.map((wallet) => [{ text: `🔄 Switch to ${wallet.name}`, callback_data: callbackData('switchWallet', wallet.publicKey) }]),
+                    ...(canAdd ? [[{ text: '➕ Add Wallet', callback_data: callbackData('addWallet') }]] : []),
+                    [{ text: '📊 Portfolio', callback_data: callbackData('portfolio') }],
+                    [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+                ]
+            }
+        );
+    }
+
+    private async promptWalletName(chatId: number) {
+        const userData = this.users.get(chatId)!;
+
+        if (this.walletCount(userData) >= MAX_WALLETS_PER_USER) {
+            await this.showWallets(chatId);
+            return;
+        }
+
+        await this.bot.sendMessage(chatId,
+            '🏷️ Please enter a name for the new wallet (e.g. Savings), or /cancel to go back:',
+            {
+                reply_markup: {
+                    force_reply: true
+                }
+            }
+        );
+
+        this.startConversation(chatId, { step: 'wallet_name' });
+    }
+
+    private async handleWalletNameInput(chatId: number, name: string) {
+        const userData = this.users.get(chatId)!;
+        const names = [this.walletName(userData), ...(userData.otherWallets ?? []).map((wallet) => wallet.name)];
+
+        if (names.some((existing) => existing.toLowerCase() === name.toLowerCase())) {
+            await this.bot.sendMessage(chatId, `❌ You already have a wallet called ${name}. Please choose another name.`);
+            return;
+        }
+
+        userData.conversation = undefined;
+        userData.newWalletName = name;
+
+        await this.showMenu(chatId,
+            `➕ **Add Wallet: ${name}** ➕\n\n` +
+            'Generate a new keypair, import an existing one or watch an address. ' +
+            `**${this.walletName(userData)}** stays saved and you can switch back to it any time.`,
+            {
+                inline_keyboard: [
+                    [{ text: '🔑 Generate New Keypair', callback_data: callbackData('generateKeypair') }],
+                    [{ text: '📥 Import Private Key', callback_data: callbackData('importKeypair') }],
+                    [{ text: '👀 Watch an Address', callback_data: callbackData('watchAddress') }],
+                    [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+                ]
+            }
+        );
+    }
+
+    private async switchWallet(chatId: number, publicKey: string) {
+        const userData = this.users.get(chatId)!;
+        const wallet = userData.otherWallets?.find((other) => other.publicKey === publicKey);
+
+        if (!wallet) {
+            await this.showWallets(chatId);
+            return;
+        }
+
+        // The replacement flow moves funds out of the active wallet and must finish on that wallet
+        if (userData.replacement) {
+            await this.showMenu(chatId,
+                `♻️ **${this.walletName(userData)}** is being replaced. Finish that from /wallet before switching.`,
+                { inline_keyboard: [[{ text: '🔙 Back to Main', callback_data: callbackData('main') }]] }
+            );
+            return;
+        }
+
+        this.parkActiveWallet(userData);
+        this.activateWallet(userData, wallet);
+
+        await this.showMainInterface(chatId);
+    }
+
+    // Breeze positions summed over every wallet, one user-balances lookup per key
+    private async showPortfolio(chatId: number) {
+        const userData = this.users.get(chatId)!;
+        const wallets = [
+            { name: this.walletName(userData), publicKey: userData.publicKey! },
+            ...(userData.otherWallets ?? [])
+        ];
+
+        let message = '📊 **Portfolio** 📊\n\n';
+        let totalValue = 0;
+        let totalYield = 0;
+        let unavailable = 0;
+
+        for (const wallet of wallets) {
+            const balances = await this.getAllBreezeBalances(wallet.publicKey);
+            message += `👛 **${wallet.name}**${wallet.publicKey === userData.publicKey ? ' (active)' : ''}\n`;
+
+            if (!balances) {
+                unavailable++;
+                message += '• ⚠️ Balances unavailable\n\n';
+                continue;
+            }
+
+            let value = 0;
+            let earned = 0;
+            for (const balance of balances) {
+                if (!balance.yield_balance) {
+                    continue;
+                }
+                value += convertFromTokenAmount(BigInt(balance.yield_balance.funds), balance.token_symbol);
+                earned += convertFromTokenAmount(BigInt(balance.yield_balance.amount_of_yield), balance.token_symbol);
+            }
+
+            message += `• In Breeze: $${value.toFixed(2)}\n• Yield Earned: $${earned.toFixed(2)}\n\n`;
+            totalValue += value;
+            totalYield += earned;
+        }
+
+        message +=
+            `💰 **Total in Breeze:** $${totalValue.toFixed(2)}\n` +
+            `🎯 **Total Yield Earned:** $${totalYield.toFixed(2)}`;
+        if (unavailable > 0) {
+            message += `\n\n⚠️ ${unavailable === 1 ? 'One wallet is' : `${unavailable} wallets are`} missing from the totals. Please try again later.`;
+        }
+
+        await this.showMenu(chatId, message, {
+            inline_keyboard: [
+                [{ text: '👛 Wallets', callback_data: callbackData('wallets') }],
+                [{ text: '🔙 Back to Main', callback_data: callbackData('main') }]
+            ]
+        });
+    }
+
+    private async handleMockFeature(chatId: number, feature: string) {
+        const messages = {
+            buy: "💸 You're on the Breeze side! Buy functionality isn't supported yet, but hey, at least you're earning yield! 😄",
+            sell: "💰 You're on the Breeze side! Sell functionality isn't supported yet, but your funds are working hard! 🚀",
+            positions: "📊 You're on the Breeze side! No trading positions here, just steady yield earning! 📈",
+            limit_orders: "📋 You're on the Breeze side! No limit orders needed when you're earning passive yield! 💪",
+            copy_trade: "👥 You're on the Breeze side! Why copy trades when you can earn guaranteed yield? 🎯",
+            settings: "⚙️ You're on the Breeze side! Settings are simple - just earn yield and relax! 🌊",
+            slippage: "🎯 You're on the Breeze side! No slippage worries here, just smooth sailing! ⛵"
+        };
+
+        await this.showMenu(chatId, messages[feature as keyof typeof messages] || "Feature coming soon! 🚧", {
+            inline_keyboard: [[{ text: '🔙 Back to Main', callback_data: callbackData('main') }]]
+        });
+    }
+
+    private async handleCallbackQuery(query: TelegramBot.CallbackQuery) {
+        if (query.message!.chat.type !== 'private') {
+            await this.handleGroupCallbackQuery(query);
+            return;
+        }
+
+        // Only the chat's own user can tap here, and the chat id is their session key
+        const chatId = query.message!.chat.id;
+        const messageId = query.message!.message_id;
+        const data = query.data!;
+        const userData = await this.loadUser(chatId);
+
+        // Key messages sit outside the menus and can be dismissed at any time without leaving the current flow
+        if (data === callbackData('dismissSecret')) {
+            await this.bot.answerCallbackQuery(query.id);
+            await this.callbacks.dispatch({ chatId, query }, data);
+            return;
+        }
+
+        // Buttons on older menus could restart abandoned flows, such as confirming a stale transaction
+        if (userData.menuMessageId !== undefined && messageId !== userData.menuMessageId) {
+            await this.bot.answerCallbackQuery(query.id, { text: '⌛ This menu is out of date. Please use the latest one.' });
+            await this.disableMenu(chatId, messageId);
+            return;
+        }
+
+        // Outdated and unknown buttons are answered by the router's fallback
+        if (!this.callbacks.handles(data)) {
+            await this.callbacks.dispatch({ chatId, query }, data);
+            return;
+        }
+
+        await this.bot.answerCallbackQuery(query.id);
+        this.tappedMenus.set(chatId, messageId);
+
+        // Navigating anywhere but Confirm or Export abandons the pending transaction; any prompt is abandoned too
+        if (data !== callbackData('confirmTransaction') && data !== callbackData('exportTransaction')) {
+            userData.pendingTransaction = undefined;
+        }
+        userData.conversation = undefined;
+
+        try {
+            await this.callbacks.dispatch({ chatId, query }, data);
+        } finally {
+            if (this.tappedMenus.get(chatId) === messageId) {
+                this.tappedMenus.delete(chatId);
+            }
+        }
+
+        await this.saveUser(chatId);
+    }
+
+    private createCallbackRouter(): CallbackRouter<CallbackContext> {
+        return new CallbackRouter<CallbackContext>()
+            .on('generateKeypair', ({ chatId }) => this.generateKeypair(chatId))
+            .on('importKeypair', ({ chatId }) => this.importKeypair(chatId))
+            .on('watchAddress', ({ chatId }) => this.promptWatchAddress(chatId))
+            .on('main', ({ chatId }) => this.showMainInterface(chatId))
+            .on('unlockWallet', ({ chatId }) => this.promptUnlock(chatId, '🔐 Please enter your passphrase to unlock your wallet:'))
+            .on('lockWallet', ({ chatId }) => {
+                this.lockWallet(this.users.get(chatId)!);
+                return this.showMainInterface(chatId);
+            })
+            .on('exportKey', ({ chatId }) => this.promptExportKey(chatId))
+            .on('dismissSecret', ({ chatId, query }) => this.deleteSecretMessage(chatId, query.message!.message_id))
+            .on('replaceWallet', ({ chatId }) => this.showReplaceWallet(chatId))
+            .on('confirmReplaceWallet', ({ chatId }) => this.promptReplaceWallet(chatId))
+            .on('logout', ({ chatId, query }) => this.logout(chatId, query.message!.message_id))
+            .on('deleteData', ({ chatId, query }) => this.deleteUserData(chatId, query.message!.message_id))
+            .on('wallets', ({ chatId }) => this.showWallets(chatId))
+            .on('addWallet', ({ chatId }) => this.promptWalletName(chatId))
+            .on('switchWallet', ({ chatId }, publicKey) => this.switchWallet(chatId, publicKey))
+            .on('portfolio', ({ chatId }) => this.showPortfolio(chatId))
+            .on('earnYield', ({ chatId }) => this.showEarnYieldInterface(chatId))
+            .on('depositMenu', ({ chatId }) => this.showDepositInterface(chatId))
+            .on('withdrawMenu', ({ chatId }) => this.showWithdrawInterface(chatId))
+            .on('confirmTransaction', ({ chatId }) => this.confirmTransaction(chatId))
+            .on('exportTransaction', ({ chatId }) => this.exportForOfflineSigning(chatId))
+            .on('mockFeature', ({ chatId }, feature) => this.handleMockFeature(chatId, feature))
+            .on('balances', ({ chatId }) => this.showDetailedBalances(chatId))
+            .on('yieldHistory', ({ chatId }, page, fundId) => this.showYieldHistory(chatId, page, fundId))
+            .on('deposit', ({ chatId }, fundId, option) => this.handleFundCallback(chatId, 'deposit', fundId, option))
+            .on('withdraw', ({ chatId }, fundId, option) => this.handleFundCallback(chatId, 'withdraw', fundId, option))
+            .fallback(async ({ chatId, query }, data, reason) => {
+                if (reason === 'outdated') {
+                    await this.bot.answerCallbackQuery(query.id, { text: '⌛ This button is from an older version of the bot. Please use /start.' });
+                    await this.disableMenu(chatId, query.message!.message_id);
+                    return;
+                }
+                console.error('Unknown callback data:', data);
+                await this.bot.answerCallbackQuery(query.id, { text: '❓ This button is not supported.' });
+            });
+    }
+
+    // Buttons on a group view only answer the member whose command it replies to
+    private async handleGroupCallbackQuery(query: TelegramBot.CallbackQuery) {
+        const message = query.message!;
+        const owner = message.reply_to_message?.from?.id;
+
+        if (owner === undefined || owner !== query.from.id) {
+            await this.bot.answerCallbackQuery(query.id, { text: '🚫 These buttons belong to someone else. Send the command yourself to get your own.' });
+            return;
+        }
+
+        const userData = await this.loadUser(owner);
+        if (!userData.publicKey) {
+            await this.bot.answerCallbackQuery(query.id, { text: '🔑 You need a wallet first. Message me privately and use /start.' });
+            return;
+        }
+
+        const data = query.data!;
+        if (this.groupCallbacks.handles(data)) {
+            await this.bot.answerCallbackQuery(query.id);
+        }
+
+        const view = { userId: owner, replyTo: message.reply_to_message!.message_id, messageId: message.message_id };
+        await this.groupCallbacks.dispatch({ chatId: message.chat.id, query, view }, data);
+    }
+
+    private createGroupCallbackRouter(): CallbackRouter<GroupCallbackContext> {
+        return new CallbackRouter<GroupCallbackContext>()
+            .on('yieldHistory', ({ chatId, view }, page, fundId) => this.showYieldHistory(chatId, page, fundId, view))
+            .fallback(async ({ chatId, query }) => {
+                await this.bot.answerCallbackQuery(query.id, { text: '🔒 That only works in a private chat with me.' });
+                await this.disableMenu(chatId, query.message!.message_id);
+            });
+    }
+
+    private async handleFundCallback(chatId: number, type: 'deposit' | 'withdraw', fundId: string, option?: AmountOption) {
+        const userData = this.users.get(chatId)!;
+        // Deposits only go to catalogue funds; withdrawals also cover funds the user already holds
+        const fund = type === 'deposit' ? this.findFund(fundId) : await this.resolveFund(userData.publicKey!, fundId);
+        if (!fund) return;
+
+        switch (option) {
+            case undefined:
+                if (type === 'deposit') {
+                    await this.showDepositAmountSelection(chatId, fund);
+                } else {
+                    await this.showWithdrawAmountSelection(chatId, fund);
+                }
+                break;
+            case '50':
+            case '100':
+                if (type === 'deposit') {
+                    await this.processDeposit(chatId, fund, Number(option));
+                } else {
+                    await this.processWithdraw(chatId, fund, Number(option));
+                }
+                break;
+            case 'custom':
+                await this.bot.sendMessage(chatId, `💰 Please enter the custom ${fund.baseAsset} amount to ${type}, or /cancel to go back:`, {
+                    reply_markup: { force_reply: true }
+                });
+                this.startConversation(chatId, { step: 'amount', type, fundId: fund.id, asset: fund.baseAsset });
+                break;
+        }
+    }
+
+    // Explains what's wrong with the amount and returns undefined when it isn't usable
+    private async parseAmountInput(chatId: number, text: string, asset: TokenSymbol): Promise<number | undefined> {
+        const amount = validateAmount(text, asset);
+        if (!amount.ok) {
+            await this.bot.sendMessage(chatId, amount.error);
+            return undefined;
+        }
+        return amount.value;
+    }
+
+    private async handleCommand(msg: TelegramBot.Message, match: RegExpExecArray | null) {
+        const chatId = msg.chat.id;
+        const command = match![1].toLowerCase();
+        const args = (match![2] ?? '').split(/\s+/).filter((arg) => arg.length > 0);
+
+        if (msg.chat.type !== 'private') {
+            await this.handleGroupCommand(msg, command, args);
+            return;
+        }
+
+        if (command === 'start') {
+            await this.handleStart(msg);
+            return;
+        }
+        if (command === 'help') {
+            await this.showHelp(chatId);
+            return;
+        }
+        if (command === 'cancel') {
+            await this.cancelConversation(chatId);
+            return;
+        }
+        if (command === 'logout') {
+            await this.showLogout(chatId);
+            return;
+        }
+        if (command === 'deletemydata') {
+            await this.showDeleteData(chatId);
+            return;
+        }
+        if (!BOT_COMMANDS.some((botCommand) => botCommand.command === command)) {
+            return;
+        }
+
+        const userData = await this.loadUser(chatId);
+        if (!this.hasWallet(userData)) {
+            await this.bot.sendMessage(chatId, '🔑 You need a wallet first. Use /start to set one up.');
+            return;
+        }
+
+        // Commands navigate away just like menu buttons do
+        userData.pendingTransaction = undefined;
+        userData.conversation = undefined;
+
+        switch (command) {
+            case 'balance':
+                await this.showDetailedBalances(chatId);
+                break;
+            case 'deposit':
+                await this.handleDepositCommand(chatId, args);
+                break;
+            case 'withdraw':
+                await this.handleWithdrawCommand(chatId, args);
+                break;
+            case 'history': {
+                const page = parsePage(args[0]);
+                if (page === undefined) {
+                    await this.bot.sendMessage(chatId, 'Usage: /history [page]');
+                    break;
+                }
+                await this.showYieldHistory(chatId, page);
+                break;
+            }
+            case 'apy':
+                await this.showApy(chatId);
+                break;
+            case 'wallet':
+                await this.showWallet(chatId);
+                break;
+        }
+
+        await this.saveUser(chatId);
+    }
+
+    // Groups only get read-only stats, looked up by the session of the member who asked
+    private async handleGroupCommand(msg: TelegramBot.Message, command: string, args: string[]) {
+        const chatId = msg.chat.id;
+        if (!msg.from || !BOT_COMMANDS.some((botCommand) => botCommand.command === command)) {
+            return;
+        }
+
+        if (command === 'help') {
+            await this.showHelp(chatId, true);
+            return;
+        }
+        if (!GROUP_BOT_COMMANDS.some((botCommand) => botCommand.command === command)) {
+            await this.redirectToPrivateChat(msg, `🔒 /${command} only works in a private chat with me, so your wallet stays out of the group.`);
+            return;
+        }
+
+        const userData = await this.loadUser(msg.from.id);
+        if (!this.hasWallet(userData)) {
+            await this.redirectToPrivateChat(msg, '🔑 You need a wallet first. Message me privately and use /start to set one up.');
+            return;
+        }
+
+        const view: GroupView = { userId: msg.from.id, replyTo: msg.message_id };
+        switch (command) {
+            case 'balance':
+                await this.showDetailedBalances(chatId, view);
+                break;
+            case 'history': {
+                const page = parsePage(args[0]);
+                if (page === undefined) {
+                    await this.bot.sendMessage(chatId, 'Usage: /history [page]', { reply_to_message_id: msg.message_id });
+                    break;
+                }
+                await this.showYieldHistory(chatId, page, undefined, view);
+                break;
+            }
+            case 'apy':
+                await this.showApy(chatId, view);
+                break;
+        }
+    }
+
+    private async showHelp(chatId: number, inGroup = false) {
+        await this.bot.sendMessage(chatId,
+            '🌊 **Breeze Bot Commands** 🌊\n\n' +
+            (inGroup ? GROUP_BOT_COMMANDS : BOT_COMMANDS).map(({ command, description }) => `/${command} - ${description}\n`).join('') +
+            (inGroup
+                ? '\nWallet setup, deposits and withdrawals only work in a private chat with me.'
+                : '\nAssets are USDC, USDT, PYUSD and USDS, or a fund id from the deposit menu.'),
+            { parse_mode: 'Markdown' }
+        );
+    }
+
+    // /deposit <amount|all> [asset]; without an asset the first USDC fund is used
+    private async handleDepositCommand(chatId: number, args: string[]) {
+        const [amountArg, fundArg] = args;
+        if (!amountArg) {
+            await this.bot.sendMessage(chatId, 'Usage: /deposit <amount|all> [asset]\nExample: /deposit 25 USDC');
+            return;
+        }
+
+        const fund = fundArg
+            ? this.findFund(fundArg) ?? this.funds.find((candidate) => candidate.baseAsset === fundArg.toUpperCase())
+            : this.funds.find((candidate) => candidate.baseAsset === 'USDC') ?? this.funds[0];
+        if (!fund) {
+            await this.bot.sendMessage(chatId, fundArg
+                ? `❌ No Breeze fund for ${fundArg}. Available: ${[...new Set(this.funds.map((candidate) => candidate.baseAsset))].join(', ')}`
+                : '❌ No Breeze funds are available right now.'
+            );
+            return;
+        }
+
+        if (amountArg.toLowerCase() === 'all') {
+            await this.processDeposit(chatId, fund, 100);
+            return;
+        }
+
+        const amount = await this.parseAmountInput(chatId, amountArg, fund.baseAsset);
+        if (amount !== undefined) {
+            await this.processDeposit(chatId, fund, undefined, amount);
+        }
+    }
+
+    // /withdraw <amount|all|50%> [asset]; the asset can be left out while only one position is held
+    private async handleWithdrawCommand(chatId: number, args: string[]) {
+        const userData = this.users.get(chatId)!;
+        const [amountArg, fundArg] = args;
+        if (!amountArg) {
+            await this.bot.sendMessage(chatId, 'Usage: /withdraw <amount|all|50%> [asset]\nExample: /withdraw 50% USDC');
+            return;
+        }
+
+        const positions = [...(await this.getBreezePositions(userData.publicKey!)).values()];
+        const candidates = fundArg
+            ? positions.filter(({ fund }) => fund.id === fundArg || fund.baseAsset === fundArg.toUpperCase())
+            : positions;
+
+        if (candidates.length === 0) {
+            await this.bot.sendMessage(chatId, fundArg ? `❌ You have no Breeze position in ${fundArg}.` : '❌ No funds deposited in Breeze yet.');
+            return;
+        }
+        if (candidates.length > 1) {
+            await this.bot.sendMessage(chatId,
+                '❓ You hold several positions. Add the fund id to pick one:\n' +
+                candidates.map(({ fund }) => `• /withdraw ${amountArg} ${fund.id} (${fund.name})\n`).join('')
+            );
+            return;
+        }
+
+        const fund = candidates[0].fund;
+        switch (amountArg.toLowerCase()) {
+            case 'all':
+            case '100%':
+                await this.processWithdraw(chatId, fund, 100);
+                return;
+            case '50%':
+                await this.processWithdraw(chatId, fund, 50);
+                return;
+        }
+
+        const amount = await this.parseAmountInput(chatId, amountArg, fund.baseAsset);
+        if (amount !== undefined) {
+            await this.processWithdraw(chatId, fund, undefined, amount);
+        }
+    }
+
+    private startConversation(chatId: number, state: ConversationState) {
+        const userData = this.users.get(chatId)!;
+        userData.conversation = { state, expiresAt: Date.now() + CONVERSATION_TIMEOUT_SECONDS * 1000 };
+    }
+
+    private async cancelConversation(chatId: number) {
+        const userData = await this.loadUser(chatId);
+
+        if (!userData.conversation) {
+            await this.bot.sendMessage(chatId, 'Nothing to cancel.');
+            return;
+        }
+
+        userData.conversation = undefined;
+        // A key that never got a passphrase is dropped rather than left unencrypted in memory
+        if (!this.hasWallet(userData)) {
+            userData.keypair = undefined;
+            userData.publicKey = undefined;
+        }
+
+        await this.bot.sendMessage(chatId, '✖️ Cancelled.');
+        await this.showMainInterface(chatId);
+        await this.saveUser(chatId);
+    }
+
+    // Runs the state's validator and explains what's wrong when the text isn't usable
+    private async readInput<S extends ConversationState>(
+        chatId: number,
+        state: S,
+        text: string
+    ): Promise<ConversationInputs[S['step']] | undefined> {
+        const input = validateInput(state, text);
+        if (!input.ok) {
+            await this.bot.sendMessage(chatId, input.error);
+            return undefined;
+        }
+        return input.value;
+    }
+
+    private async handleMessage(msg: TelegramBot.Message) {
+        if ((!msg.text && !msg.document) || msg.text?.startsWith('/')) return;
+        // Prompts only ever run in private chats; group chatter is never read as input
+        if (msg.chat.type !== 'private') return;
+
+        const chatId = msg.chat.id;
+        const userData = await this.loadUser(chatId);
+        const conversation = userData.conversation;
+
+        if (!conversation) return;
+
+        const state = conversation.state;
+        if (SENSITIVE_STEPS.includes(state.step)) {
+            await this.deleteMessageQuietly(chatId, msg.message_id);
+        }
+
+        // An abandoned prompt must not swallow unrelated messages much later
+        if (conversation.expiresAt <= Date.now()) {
+            userData.conversation = undefined;
+            await this.bot.sendMessage(chatId, '⌛ That prompt timed out, so your message was ignored.');
+            await this.showMainInterface(chatId);
+            await this.saveUser(chatId);
+            return;
+        }
+
+        // Only a signed transaction may come back as a file; every other prompt needs text
+        const text = state.step === 'signed_transaction' && msg.document
+            ? await this.readUploadedTransaction(chatId, msg.document)
+            : msg.text;
+        if (text === undefined) return;
+
+        switch (state.step) {
+            case 'private_key': {
+                const keypair = await this.readInput(chatId, state, text);
+                if (keypair) {
+                    await this.handlePrivateKeyInput(chatId, keypair);
+                }
+                break;
+            }
+            case 'watch_address': {
+                const publicKey = await this.readInput(chatId, state, text);
+                if (publicKey) {
+                    await this.handleWatchAddressInput(chatId, publicKey);
+                }
+                break;
+            }
+            case 'new_passphrase': {
+                const passphrase = await this.readInput(chatId, state, text);
+                if (passphrase !== undefined) {
+                    await this.handleNewPassphraseInput(chatId, passphrase);
+                }
+                break;
+            }
+            case 'unlock_passphrase': {
+                const passphrase = await this.readInput(chatId, state, text);
+                if (passphrase !== undefined) {
+                    await this.handleUnlockInput(chatId, passphrase);
+                }
+                break;
+            }
+            case 'export_passphrase': {
+                const passphrase = await this.readInput(chatId, state, text);
+                if (passphrase !== undefined) {
+                    await this.handleExportInput(chatId, passphrase);
+                }
+                break;
+            }
+            case 'replace_passphrase': {
+                const passphrase = await this.readInput(chatId, state, text);
+                if (passphrase !== undefined) {
+                    await this.handleReplaceInput(chatId, passphrase);
+                }
+                break;
+            }
+            case 'wallet_name': {
+                const name = await this.readInput(chatId, state, text);
+                if (name !== undefined) {
+                    await this.handleWalletNameInput(chatId, name);
+                }
+                break;
+            }
+            case 'signed_transaction': {
+                const transaction = await this.readInput(chatId, state, text);
+                if (transaction) {
+                    await this.handleSignedTransactionInput(chatId, transaction);
+                }
+                break;
+            }
+            case 'amount': {
+                const fund = await this.resolveFund(userData.publicKey!, state.fundId);
+                if (!fund) {
+                    userData.conversation = undefined;
+                    await this.showEarnYieldInterface(chatId);
+                    break;
+                }
+                const amount = await this.readInput(chatId, state, text);
+                if (amount === undefined) {
+                    break;
+                }
+                userData.conversation = undefined;
+                if (state.type === 'deposit') {
+                    await this.processDeposit(chatId, fund, undefined, amount);
+                } else {
+                    await this.processWithdraw(chatId, fund, undefined, amount);
+                }
+                break;
+            }
+        }
+
+        await this.saveUser(chatId);
+    }
+}
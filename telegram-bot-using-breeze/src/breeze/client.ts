@@ -0,0 +1,67 @@
+export type BreezeApiResponseUpdated =
+    | string // when the response is just the serialized transaction
+    | { message: string }; // when there's an error
+
+export interface BreezeUserBalancesInstance {
+    token_address: string;
+    token_symbol: string;
+    token_name: string;
+    decimals: number;
+    total_balance: number;
+    yield_balance: BreezeUserBalancesYieldsInstance;
+}
+
+export interface BreezeUserBalancesYieldsInstance {
+    fund_id: string;
+    funds: string; // amount of funds
+    amount_of_yield: string;
+    fund_apy: number;
+}
+export interface BreezeUserBalancesResponse {
+    data: BreezeUserBalancesInstance[];
+    meta: {
+        page: number;
+        per_page: number;
+        total: number;
+        total_pages: number;
+        has_more: boolean;
+    }
+}
+export interface BreezeUserYieldInstance {
+    fund_id: string;
+    fund_name: string;
+    base_asset: string;
+    position_value: string;
+    yield_earned: string;
+    apy: string;
+    entry_date: string;
+    last_updated: string;
+}
+export interface BreezeUserYieldResponse {
+    data: BreezeUserYieldInstance[];
+    meta: {
+        page: number;
+        per_page: number;
+        total: number;
+        total_pages: number;
+        has_more: boolean;
+    }
+}
+
+export interface BreezeTransactionParams {
+    fundId: string;
+    amount: number; // token units
+    all: boolean;
+    userKey: string;
+    payerKey?: string;
+}
+
+// Everything the bot needs from Breeze, independent of whether it talks to the raw API or the SDK.
+// Reads resolve to null when Breeze can't be reached; transaction builders resolve to the
+// serialized transaction or a `{ message }` error and only throw on transport failures.
+export interface BreezeClient {
+    getUserBalances(userPublicKey: string, page?: number, limit?: number): Promise<BreezeUserBalancesResponse | null>;
+    getUserYield(userPublicKey: string, fundId?: string, page?: number, limit?: number): Promise<BreezeUserYieldResponse | null>;
+    createDepositTransaction(params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated>;
+    createWithdrawTransaction(params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated>;
+}
@@ -0,0 +1,94 @@
+import {
+    BreezeApiResponseUpdated,
+    BreezeClient,
+    BreezeTransactionParams,
+    BreezeUserBalancesResponse,
+    BreezeUserYieldResponse
+} from './client.js';
+
+// Talks to the Breeze REST API directly with fetch
+export class FetchBreezeClient implements BreezeClient {
+    constructor(private apiKey: string, private baseUrl: string) {}
+
+    async getUserBalances(userPublicKey: string, page: number = 1, limit: number = 10): Promise<BreezeUserBalancesResponse | null> {
+        try {
+            const response = await fetch(`${this.baseUrl}/user-balances/${userPublicKey}?page=${page}&limit=${limit}`, {
+                method: 'GET',
+                headers: this.headers()
+            });
+
+            if (!response.ok) {
+                console.error('Error fetching user balances: HTTP', response.status);
+                return null;
+            }
+
+            const data = await response.json() as BreezeUserBalancesResponse;
+            return data;
+        } catch (error) {
+            console.error('Error fetching user balances:', error);
+            return null;
+        }
+    }
+
+    async getUserYield(userPublicKey: string, fundId?: string, page: number = 1, limit: number = 10): Promise<BreezeUserYieldResponse | null> {
+        try {
+            const query = new URLSearchParams({ page: String(page), limit: String(limit) });
+            if (fundId) {
+                query.set('fund_id', fundId);
+            }
+
+            const response = await fetch(`${this.baseUrl}/user-yield/${userPublicKey}?${query}`, {
+                method: 'GET',
+                headers: this.headers()
+            });
+
+            if (!response.ok) {
+                console.error('Error fetching user yield: HTTP', response.status);
+                return null;
+            }
+
+            const data = await response.json() as BreezeUserYieldResponse;
+            return data;
+        } catch (error) {
+            console.error('Error fetching user yield:', error);
+            return null;
+        }
+    }
+
+    async createDepositTransaction(params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated> {
+        return this.postTransaction('/deposit/tx', params);
+    }
+
+    async createWithdrawTransaction(params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated> {
+        return this.postTransaction('/withdraw/tx', params);
+    }
+
+    private async postTransaction(endpoint: string, params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated> {
+        const requestBody = {
+            "params": {
+                "fund_id": params.fundId,
+                "amount": params.amount,
+                "all": params.all,
+                "user_key": params.userKey,
+                "payer_key": params.payerKey ?? null
+            }
+        };
+
+        console.log(`${endpoint} request body:`, JSON.stringify(requestBody, null, 2));
+
+        const response = await fetch(`${this.baseUrl}${endpoint}`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(requestBody)
+        });
+
+        return await response.json() as BreezeApiResponseUpdated;
+    }
+
+    private headers() {
+        return {
+            "Content-Type": "application/json",
+            "x-api-key": this.apiKey
+        };
+    }
+}
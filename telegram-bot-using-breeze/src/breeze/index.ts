@@ -0,0 +1,18 @@
+import { BreezeClient } from './client.js';
+import { FetchBreezeClient } from './fetchClient.js';
+import { SdkBreezeClient } from './sdkClient.js';
+
+export * from './client.js';
+export { FetchBreezeClient } from './fetchClient.js';
+export { SdkBreezeClient } from './sdkClient.js';
+
+export function createBreezeClient(type: string, apiKey: string, baseUrl: string): BreezeClient {
+    switch (type) {
+        case 'api':
+            return new FetchBreezeClient(apiKey, baseUrl);
+        case 'sdk':
+            return new SdkBreezeClient(apiKey, baseUrl);
+        default:
+            throw new Error(`Unknown BREEZE_CLIENT type: ${type}`);
+    }
+}
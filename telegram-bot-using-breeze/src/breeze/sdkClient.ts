@@ -0,0 +1,88 @@
+import { BreezeApiError, BreezeSDK } from '@breezebaby/breeze-sdk';
+import {
+    BreezeApiResponseUpdated,
+    BreezeClient,
+    BreezeTransactionParams,
+    BreezeUserBalancesResponse,
+    BreezeUserYieldResponse
+} from './client.js';
+
+// Goes through the official Breeze SDK
+export class SdkBreezeClient implements BreezeClient {
+    private breezeSDK: BreezeSDK;
+
+    constructor(apiKey: string, baseUrl: string) {
+        this.breezeSDK = new BreezeSDK({
+            baseUrl: `${baseUrl}/`,
+            apiKey
+        });
+    }
+
+    async getUserBalances(userPublicKey: string, page: number = 1, limit: number = 10): Promise<BreezeUserBalancesResponse | null> {
+        try {
+            return await this.breezeSDK.getUserBalances({
+                userId: userPublicKey,
+                page,
+                limit
+            });
+        } catch (error) {
+            console.error('Error fetching user balances:', error);
+            return null;
+        }
+    }
+
+    async getUserYield(userPublicKey: string, fundId?: string, page: number = 1, limit: number = 10): Promise<BreezeUserYieldResponse | null> {
+        try {
+            return await this.breezeSDK.getUserYield({
+                userId: userPublicKey,
+                fundId,
+                page,
+                limit
+            });
+        } catch (error) {
+            console.error('Error fetching user yield:', error);
+            return null;
+        }
+    }
+
+    async createDepositTransaction(params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated> {
+        console.log('Creating deposit transaction:', JSON.stringify(params, null, 2));
+
+        try {
+            return await this.breezeSDK.createDepositTransaction({
+                fundId: params.fundId,
+                amount: params.amount,
+                all: params.all,
+                userKey: params.userKey,
+                payerKey: params.payerKey
+            });
+        } catch (error) {
+            return this.toErrorResponse(error);
+        }
+    }
+
+    async createWithdrawTransaction(params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated> {
+        console.log('Creating withdraw transaction:', JSON.stringify(params, null, 2));
+
+        try {
+            return await this.breezeSDK.createWithdrawTransaction({
+                fundId: params.fundId,
+                amount: params.amount,
+                all: params.all,
+                userKey: params.userKey,
+                payerKey: params.payerKey
+            });
+        } catch (error) {
+            return this.toErrorResponse(error);
+        }
+    }
+
+    // The SDK throws on HTTP errors, while the API client passes the `{ message }` body through;
+    // only API errors are converted so transport failures still throw like they do with fetch
+    private toErrorResponse(error: unknown): { message: string } {
+        if (error instanceof BreezeApiError && error.status !== undefined && error.code !== 'TIMEOUT') {
+            return { message: error.message };
+        }
+        throw error;
+    }
+}
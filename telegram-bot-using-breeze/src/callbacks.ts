@@ -0,0 +1,181 @@
+// Callback data is `<version>:<route code>[:<param>...]`, e.g. 1:dp:usdc-fund:50. Bumping the
+// version makes every button sent before it resolve as outdated instead of running a changed route.
+export const CALLBACK_VERSION = 1;
+export const MAX_CALLBACK_DATA_BYTES = 64; // Telegram rejects buttons with longer callback_data
+const SEPARATOR = ':';
+
+export type AmountOption = '50' | '100' | 'custom';
+const AMOUNT_OPTIONS: AmountOption[] = ['50', '100', 'custom'];
+
+// Parameters carried by each route, in encoding order; trailing optional ones may be left out
+export interface CallbackRoutes {
+    generateKeypair: [];
+    importKeypair: [];
+    watchAddress: [];
+    main: [];
+    unlockWallet: [];
+    lockWallet: [];
+    exportKey: [];
+    dismissSecret: [];
+    replaceWallet: [];
+    confirmReplaceWallet: [];
+    logout: [];
+    deleteData: [];
+    wallets: [];
+    addWallet: [];
+    switchWallet: [publicKey: string];
+    portfolio: [];
+    earnYield: [];
+    depositMenu: [];
+    withdrawMenu: [];
+    confirmTransaction: [];
+    exportTransaction: [];
+    mockFeature: [feature: string];
+    balances: [];
+    yieldHistory: [page: number, fundId?: string];
+    deposit: [fundId: string, option?: AmountOption];
+    withdraw: [fundId: string, option?: AmountOption];
+}
+
+export type CallbackRoute = keyof CallbackRoutes;
+
+// outdated: sent by another version of the bot; unknown: no route matches the data
+export type CallbackFallbackReason = 'outdated' | 'unknown';
+
+type CallbackHandler<C, P extends unknown[]> = (context: C, ...params: P) => Promise<unknown> | unknown;
+type FallbackHandler<C> = (context: C, data: string, reason: CallbackFallbackReason) => Promise<unknown> | unknown;
+
+interface RouteSpec<P> {
+    code: string; // kept short, every byte counts against the limit
+    decode(params: string[]): P | undefined;
+}
+
+export class CallbackDataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CallbackDataError';
+    }
+}
+
+function noParams(params: string[]): [] | undefined {
+    return params.length === 0 ? [] : undefined;
+}
+
+function fundParams(params: string[]): [string, AmountOption?] | undefined {
+    const [fundId, option, ...rest] = params;
+    if (!fundId || rest.length > 0) {
+        return undefined;
+    }
+    if (option === undefined) {
+        return [fundId];
+    }
+    return AMOUNT_OPTIONS.includes(option as AmountOption) ? [fundId, option as AmountOption] : undefined;
+}
+
+function historyParams(params: string[]): [number, string?] | undefined {
+    const [page, fundId, ...rest] = params;
+    if (!/^[1-9]\d*$/.test(page ?? '') || rest.length > 0) {
+        return undefined;
+    }
+    return fundId ? [Number(page), fundId] : [Number(page)];
+}
+
+const ROUTES: { [R in CallbackRoute]: RouteSpec<CallbackRoutes[R]> } = {
+    generateKeypair: { code: 'gk', decode: noParams },
+    importKeypair: { code: 'ik', decode: noParams },
+    watchAddress: { code: 'wa', decode: noParams },
+    main: { code: 'mn', decode: noParams },
+    unlockWallet: { code: 'ul', decode: noParams },
+    lockWallet: { code: 'lk', decode: noParams },
+    exportKey: { code: 'ek', decode: noParams },
+    dismissSecret: { code: 'ds', decode: noParams },
+    replaceWallet: { code: 'rw', decode: noParams },
+    confirmReplaceWallet: { code: 'rc', decode: noParams },
+    logout: { code: 'lo', decode: noParams },
+    deleteData: { code: 'dd', decode: noParams },
+    wallets: { code: 'ws', decode: noParams },
+    addWallet: { code: 'aw', decode: noParams },
+    switchWallet: { code: 'sw', decode: ([publicKey, ...rest]) => publicKey && rest.length === 0 ? [publicKey] : undefined },
+    portfolio: { code: 'pf', decode: noParams },
+    earnYield: { code: 'ey', decode: noParams },
+    depositMenu: { code: 'dm', decode: noParams },
+    withdrawMenu: { code: 'wm', decode: noParams },
+    confirmTransaction: { code: 'cf', decode: noParams },
+    exportTransaction: { code: 'xt', decode: noParams },
+    mockFeature: { code: 'mk', decode: ([feature, ...rest]) => feature && rest.length === 0 ? [feature] : undefined },
+    balances: { code: 'bl', decode: noParams },
+    yieldHistory: { code: 'yh', decode: historyParams },
+    deposit: { code: 'dp', decode: fundParams },
+    withdraw: { code: 'wd', decode: fundParams }
+};
+
+const ROUTES_BY_CODE = new Map(
+    (Object.keys(ROUTES) as CallbackRoute[]).map((route) => [ROUTES[route].code, route])
+);
+
+// Encodes a button's callback data; throws CallbackDataError when it can't be represented
+export function callbackData<R extends CallbackRoute>(route: R, ...params: CallbackRoutes[R]): string {
+    const parts = (params as unknown[]).filter((param) => param !== undefined).map(String);
+    if (parts.some((part) => part.length === 0 || part.includes(SEPARATOR))) {
+        throw new CallbackDataError(`Invalid ${route} callback parameters: ${parts.join(', ')}`);
+    }
+
+    const data = [String(CALLBACK_VERSION), ROUTES[route].code, ...parts].join(SEPARATOR);
+    if (Buffer.byteLength(data) > MAX_CALLBACK_DATA_BYTES) {
+        throw new CallbackDataError(`${route} callback data is longer than ${MAX_CALLBACK_DATA_BYTES} bytes: ${data}`);
+    }
+    return data;
+}
+
+// Dispatches callback data to the handler registered for its route. Data that doesn't decode,
+// comes from another version or has no handler goes to the fallback handler.
+export class CallbackRouter<C> {
+    private handlers: { [R in CallbackRoute]?: CallbackHandler<C, CallbackRoutes[R]> } = {};
+    private fallbackHandler?: FallbackHandler<C>;
+
+    on<R extends CallbackRoute>(route: R, handler: CallbackHandler<C, CallbackRoutes[R]>): this {
+        (this.handlers as Record<CallbackRoute, unknown>)[route] = handler;
+        return this;
+    }
+
+    fallback(handler: FallbackHandler<C>): this {
+        this.fallbackHandler = handler;
+        return this;
+    }
+
+    // Whether dispatching the data reaches a route handler rather than the fallback
+    handles(data: string): boolean {
+        return !this.isOutdated(data) && this.resolve(data) !== undefined;
+    }
+
+    async dispatch(context: C, data: string): Promise<void> {
+        if (this.isOutdated(data)) {
+            await this.fallbackHandler?.(context, data, 'outdated');
+            return;
+        }
+
+        const resolved = this.resolve(data);
+        if (!resolved) {
+            await this.fallbackHandler?.(context, data, 'unknown');
+            return;
+        }
+
+        await resolved.handler(context, ...resolved.params);
+    }
+
+    private isOutdated(data: string): boolean {
+        return data.split(SEPARATOR)[0] !== String(CALLBACK_VERSION);
+    }
+
+    private resolve(data: string): { handler: CallbackHandler<C, unknown[]>; params: unknown[] } | undefined {
+        const [, code, ...params] = data.split(SEPARATOR);
+        const route = ROUTES_BY_CODE.get(code);
+        if (!route) {
+            return undefined;
+        }
+
+        const handler = this.handlers[route] as CallbackHandler<C, unknown[]> | undefined;
+        const decoded = (ROUTES[route] as RouteSpec<unknown[]>).decode(params);
+        return handler && decoded ? { handler, params: decoded } : undefined;
+    }
+}
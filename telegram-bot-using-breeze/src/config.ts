@@ -0,0 +1,65 @@
+import dotenv from 'dotenv';
+import { TokenSymbol } from './tokens.js';
+
+dotenv.config();
+
+// Environment variables
+export const BOT_TOKEN = process.env.BOT_TOKEN!;
+export const TELEGRAM_MODE = process.env.TELEGRAM_MODE || 'polling'; // 'polling' (development) or 'webhook'
+// Webhook mode: Telegram posts to WEBHOOK_URL + WEBHOOK_PATH, usually a TLS-terminating proxy in front of WEBHOOK_PORT
+export const WEBHOOK_URL = (process.env.WEBHOOK_URL || '').replace(/\/+$/, '');
+export const WEBHOOK_PATH = process.env.WEBHOOK_PATH || '/telegram/webhook';
+export const WEBHOOK_PORT = Number(process.env.WEBHOOK_PORT || 8080);
+export const WEBHOOK_SECRET_TOKEN = process.env.WEBHOOK_SECRET_TOKEN!;
+export const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+export const SOLANA_CLUSTER = process.env.SOLANA_CLUSTER; // explorer links; detected from SOLANA_RPC_URL when unset
+export const BREEZE_API_KEY = process.env.BREEZE_API_KEY!;
+export const BREEZE_FUNDS_PATH = process.env.BREEZE_FUNDS_PATH || 'funds.json'; // JSON fund catalogue
+export const BREEZE_FUND_ID = process.env.BREEZE_FUND_ID!;
+// Fallback catalogue when BREEZE_FUNDS_PATH doesn't exist: one fund per asset with an id
+export const BREEZE_FUND_IDS: Record<TokenSymbol, string | undefined> = {
+    USDC: process.env.BREEZE_FUND_ID_USDC || BREEZE_FUND_ID,
+    USDT: process.env.BREEZE_FUND_ID_USDT,
+    PYUSD: process.env.BREEZE_FUND_ID_PYUSD,
+    USDS: process.env.BREEZE_FUND_ID_USDS
+};
+export const BREEZE_PROGRAM_ID = process.env.BREEZE_PROGRAM_ID; // allowed in transactions the bot signs
+export const BREEZE_CLIENT = process.env.BREEZE_CLIENT || 'api'; // 'api' (raw fetch) or 'sdk'
+export const BREEZE_BASE_URL = (process.env.BREEZE_BASE_URL || 'https://api.breeze.baby').replace(/\/+$/, '');
+export const USER_STORE = process.env.USER_STORE || 'file';
+export const USER_STORE_PATH = process.env.USER_STORE_PATH || 'data/users.json';
+export const KEY_ENCRYPTION_SECRET = process.env.KEY_ENCRYPTION_SECRET!;
+export const KEY_UNLOCK_MINUTES = Number(process.env.KEY_UNLOCK_MINUTES || 15);
+// Messages showing a private key (new wallets, exports) are deleted from the chat after this long
+export const SECRET_MESSAGE_TTL_SECONDS = Number(process.env.SECRET_MESSAGE_TTL_SECONDS || 120);
+// Prompts for typed input (amounts, passphrases, keys) are abandoned after this long
+export const CONVERSATION_TIMEOUT_SECONDS = Number(process.env.CONVERSATION_TIMEOUT_SECONDS || 300);
+// How many wallets, active or not, one user can keep in the bot
+export const MAX_WALLETS_PER_USER = Number(process.env.MAX_WALLETS_PER_USER || 10);
+// Breeze transactions carry a recent blockhash; pending ones older than this are rebuilt before use
+export const PENDING_TX_TTL_SECONDS = Number(process.env.PENDING_TX_TTL_SECONDS || 60);
+// Priority fee added to Breeze transactions that aren't pre-signed; 0 leaves them untouched
+export const COMPUTE_UNIT_PRICE_MICROLAMPORTS = Number(process.env.COMPUTE_UNIT_PRICE_MICROLAMPORTS || 0);
+export const TX_REBROADCAST_INTERVAL_MS = Number(process.env.TX_REBROADCAST_INTERVAL_MS || 2000);
+export const TX_CONFIRMATION_TIMEOUT_SECONDS = Number(process.env.TX_CONFIRMATION_TIMEOUT_SECONDS || 120);
+// Solana Pay transaction requests for watch-only wallets: wallets fetch them from SOLANA_PAY_URL (public,
+// usually a TLS-terminating proxy in front of SOLANA_PAY_PORT). Watch-only wallets can't transact when unset.
+export const SOLANA_PAY_URL = (process.env.SOLANA_PAY_URL || '').replace(/\/+$/, '');
+export const SOLANA_PAY_PORT = Number(process.env.SOLANA_PAY_PORT || 8081);
+export const SOLANA_PAY_LABEL = process.env.SOLANA_PAY_LABEL || 'Breeze Bot'; // shown by the wallet
+// How long and how often the bot looks on-chain for a transaction signed in the user's own wallet
+export const EXTERNAL_SIGNING_TIMEOUT_SECONDS = Number(process.env.EXTERNAL_SIGNING_TIMEOUT_SECONDS || 600);
+export const EXTERNAL_SIGNING_POLL_INTERVAL_MS = Number(process.env.EXTERNAL_SIGNING_POLL_INTERVAL_MS || 3000);
+// Gasless mode: an operator keypair (base58 secret key) pays network fees and rent for users' deposits and
+// withdrawals within daily budgets, reset at midnight UTC. Users pay their own fees when unset.
+export const FEE_PAYER_SECRET_KEY = process.env.FEE_PAYER_SECRET_KEY;
+export const SPONSORED_FEES_PER_USER_DAILY_SOL = Number(process.env.SPONSORED_FEES_PER_USER_DAILY_SOL || 0.01);
+export const SPONSORED_FEES_DAILY_SOL = Number(process.env.SPONSORED_FEES_DAILY_SOL || 1);
+// Transactions that would cost the fee payer more than this are refused rather than signed
+export const SPONSORED_FEE_MAX_SOL = Number(process.env.SPONSORED_FEE_MAX_SOL || 0.005);
+// Ledger of sponsored fees, kept the way USER_STORE keeps users
+export const SPONSORSHIP_LEDGER_PATH = process.env.SPONSORSHIP_LEDGER_PATH || 'data/sponsored-fees.jsonl';
+
+// Mock Breeze API (npm run mock)
+export const MOCK_BREEZE_PORT = Number(process.env.MOCK_BREEZE_PORT || 8787);
+export const MOCK_BREEZE_FUND_APY = Number(process.env.MOCK_BREEZE_FUND_APY || 8.5);
@@ -0,0 +1,116 @@
+import { Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { MIN_PASSPHRASE_LENGTH } from './keyVault.js';
+import { TOKEN_DECIMALS, TokenSymbol } from './tokens.js';
+
+// Text input the bot is waiting for; messages outside a conversation are ignored
+export type ConversationState =
+    | { step: 'private_key' }
+    | { step: 'watch_address' }
+    | { step: 'new_passphrase' }
+    | { step: 'unlock_passphrase' }
+    | { step: 'export_passphrase' }
+    | { step: 'replace_passphrase' }
+    | { step: 'wallet_name' }
+    | { step: 'signed_transaction' }
+    | { step: 'amount'; type: 'deposit' | 'withdraw'; fundId: string; asset: TokenSymbol };
+
+export type ConversationStep = ConversationState['step'];
+
+export interface Conversation {
+    state: ConversationState;
+    expiresAt: number; // ms since epoch; later replies reset to the main menu instead
+}
+
+// What each step's validator turns the text into
+export interface ConversationInputs {
+    private_key: Keypair;
+    watch_address: PublicKey;
+    new_passphrase: string;
+    unlock_passphrase: string;
+    export_passphrase: string;
+    replace_passphrase: string;
+    wallet_name: string;
+    signed_transaction: VersionedTransaction;
+    amount: number;
+}
+
+export const MAX_WALLET_NAME_LENGTH = 24;
+
+export type InputValidation<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// Replies to these steps contain secrets and are deleted from the chat, valid or not
+export const SENSITIVE_STEPS: ConversationStep[] = ['private_key', 'new_passphrase', 'unlock_passphrase', 'export_passphrase', 'replace_passphrase'];
+
+type Validator<S extends ConversationState> = (text: string, state: S) => InputValidation<ConversationInputs[S['step']]>;
+
+// Plain decimals only: exponents, Infinity and NaN would not survive the conversion to token units
+export function validateAmount(text: string, asset: TokenSymbol): InputValidation<number> {
+    const trimmed = text.trim();
+    const amount = Number(trimmed);
+    if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed) || amount <= 0) {
+        return { ok: false, error: '❌ Please enter a valid amount.' };
+    }
+    if ((trimmed.split('.')[1] ?? '').replace(/0+$/, '').length > TOKEN_DECIMALS[asset]) {
+        return { ok: false, error: `❌ ${asset} supports maximum ${TOKEN_DECIMALS[asset]} decimal places.` };
+    }
+    // Breeze takes the amount in token units as a JSON number
+    if (amount * 10 ** TOKEN_DECIMALS[asset] > Number.MAX_SAFE_INTEGER) {
+        return { ok: false, error: `❌ That is more ${asset} than the bot can handle in one transaction.` };
+    }
+    return { ok: true, value: amount };
+}
+
+const VALIDATORS: { [S in ConversationStep]: Validator<Extract<ConversationState, { step: S }>> } = {
+    private_key: (text) => {
+        try {
+            return { ok: true, value: Keypair.fromSecretKey(bs58.decode(text.trim())) };
+        } catch (error) {
+            return { ok: false, error: '❌ Invalid private key format. Please try again or use /cancel to go back.' };
+        }
+    },
+    // Program-derived addresses have no key, so no wallet could ever sign for them
+    watch_address: (text) => {
+        try {
+            const publicKey = new PublicKey(text.trim());
+            if (PublicKey.isOnCurve(publicKey.toBytes())) {
+                return { ok: true, value: publicKey };
+            }
+        } catch (error) {
+            // reported below
+        }
+        return { ok: false, error: '❌ That is not a wallet address. Please send your public key (base58 encoded) or use /cancel to go back.' };
+    },
+    new_passphrase: (text) => text.length < MIN_PASSPHRASE_LENGTH
+        ? { ok: false, error: `❌ Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters. Please try again.` }
+        : { ok: true, value: text },
+    // Whether it is the right one is only known once the key is unsealed
+    unlock_passphrase: (text) => ({ ok: true, value: text }),
+    export_passphrase: (text) => ({ ok: true, value: text }),
+    replace_passphrase: (text) => ({ ok: true, value: text }),
+    // Names end up in Markdown messages and button labels
+    wallet_name: (text) => {
+        const name = text.trim();
+        return name.length === 0 || name.length > MAX_WALLET_NAME_LENGTH || /[*_`[\]]/.test(name)
+            ? { ok: false, error: `❌ Wallet names are 1 to ${MAX_WALLET_NAME_LENGTH} characters without * _ \` [ or ]. Please try again.` }
+            : { ok: true, value: name };
+    },
+    // Signing tools hand back base64, often wrapped over several lines
+    signed_transaction: (text) => {
+        const base64 = text.replace(/\s+/g, '');
+        try {
+            if (/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+                return { ok: true, value: VersionedTransaction.deserialize(Buffer.from(base64, 'base64')) };
+            }
+        } catch (error) {
+            // reported below
+        }
+        return { ok: false, error: '❌ That is not a transaction. Please paste the signed transaction (base64 encoded), upload its file, or use /cancel to go back.' };
+    },
+    amount: (text, state) => validateAmount(text, state.asset)
+};
+
+export function validateInput<S extends ConversationState>(state: S, text: string): InputValidation<ConversationInputs[S['step']]> {
+    const validator = VALIDATORS[state.step] as unknown as Validator<S>;
+    return validator(text, state);
+}
@@ -0,0 +1,32 @@
+export type SolanaCluster = 'mainnet-beta' | 'devnet' | 'testnet' | 'custom';
+
+const CLUSTERS: SolanaCluster[] = ['mainnet-beta', 'devnet', 'testnet', 'custom'];
+
+// Uses the configured cluster when there is one, otherwise guesses it from the RPC URL.
+// Local validators are shown as a custom cluster pointing at the RPC URL.
+export function resolveCluster(rpcUrl: string, configured?: string): SolanaCluster {
+    if (configured) {
+        if (!CLUSTERS.includes(configured as SolanaCluster)) {
+            throw new Error(`Unknown Solana cluster: ${configured}`);
+        }
+        return configured as SolanaCluster;
+    }
+
+    if (/devnet/i.test(rpcUrl)) return 'devnet';
+    if (/testnet/i.test(rpcUrl)) return 'testnet';
+    if (/localhost|127\.0\.0\.1/.test(rpcUrl)) return 'custom';
+    return 'mainnet-beta';
+}
+
+export function explorerTransactionUrl(signature: string, cluster: SolanaCluster, rpcUrl: string): string {
+    const url = new URL(`https://explorer.solana.com/tx/${signature}`);
+
+    if (cluster === 'custom') {
+        url.searchParams.set('cluster', 'custom');
+        url.searchParams.set('customUrl', rpcUrl);
+    } else if (cluster !== 'mainnet-beta') {
+        url.searchParams.set('cluster', cluster);
+    }
+
+    return url.toString();
+}
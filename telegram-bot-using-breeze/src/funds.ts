@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import { callbackData, CallbackDataError, MAX_CALLBACK_DATA_BYTES } from './callbacks.js';
+import { TOKEN_MINTS, TokenSymbol } from './tokens.js';
+
+export interface BreezeFund {
+    id: string;
+    name: string;
+    baseAsset: TokenSymbol;
+    description?: string;
+}
+
+// Fund ids travel in the deposit and withdraw buttons' callback data, next to the longest amount option
+export function fitsInButtons(fundId: string): boolean {
+    try {
+        callbackData('deposit', fundId, 'custom');
+        callbackData('withdraw', fundId, 'custom');
+        return true;
+    } catch (error) {
+        if (error instanceof CallbackDataError) {
+            return false;
+        }
+        throw error;
+    }
+}
+
+function checkFundId(id: string, source: string) {
+    if (!fitsInButtons(id)) {
+        throw new Error(`Invalid fund ${id} in ${source}: fund ids can't contain ":" and must fit in ${MAX_CALLBACK_DATA_BYTES} bytes of button data`);
+    }
+}
+
+function parseFund(entry: unknown, filePath: string): BreezeFund {
+    const fund = entry as Partial<BreezeFund>;
+
+    if (typeof fund?.id !== 'string' || !fund.id || typeof fund.name !== 'string' || !fund.name) {
+        throw new Error(`Invalid fund in ${filePath}: every fund needs an id and a name`);
+    }
+    checkFundId(fund.id, filePath);
+    if (typeof fund.baseAsset !== 'string' || !(fund.baseAsset in TOKEN_MINTS)) {
+        throw new Error(`Invalid fund ${fund.id} in ${filePath}: unsupported base asset ${fund.baseAsset}`);
+    }
+    if (fund.description !== undefined && typeof fund.description !== 'string') {
+        throw new Error(`Invalid fund ${fund.id} in ${filePath}: description must be a string`);
+    }
+
+    return { id: fund.id, name: fund.name, baseAsset: fund.baseAsset, description: fund.description };
+}
+
+// Reads the fund catalogue from a JSON array; without the file, one fund per configured asset id is offered
+export function loadFundCatalogue(filePath: string, fallbackFundIds: Record<TokenSymbol, string | undefined>): BreezeFund[] {
+    let contents: string;
+    try {
+        contents = readFileSync(filePath, 'utf8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+        }
+        const assets = (Object.keys(TOKEN_MINTS) as TokenSymbol[]).filter((asset) => fallbackFundIds[asset]);
+        assets.forEach((asset) => checkFundId(fallbackFundIds[asset]!, `the ${asset} fund id setting`));
+        return assets.map((asset) => ({ id: fallbackFundIds[asset]!, name: `Breeze ${asset} Fund`, baseAsset: asset }));
+    }
+
+    const parsed = JSON.parse(contents);
+    if (!Array.isArray(parsed)) {
+        throw new Error(`Invalid fund catalogue in ${filePath}: expected an array of funds`);
+    }
+
+    const funds = parsed.map((entry) => parseFund(entry, filePath));
+    const ids = new Set(funds.map((fund) => fund.id));
+    if (ids.size !== funds.length) {
+        throw new Error(`Invalid fund catalogue in ${filePath}: fund ids must be unique`);
+    }
+
+    return funds;
+}
@@ -0,0 +1,122 @@
+import TelegramBot from 'node-telegram-bot-api';
+import { Connection, Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BreezeBot } from './bot.js';
+import { createBreezeClient } from './breeze/index.js';
+import {
+    BOT_TOKEN,
+    BREEZE_API_KEY,
+    BREEZE_BASE_URL,
+    BREEZE_CLIENT,
+    BREEZE_FUND_IDS,
+    BREEZE_FUNDS_PATH,
+    BREEZE_PROGRAM_ID,
+    FEE_PAYER_SECRET_KEY,
+    SOLANA_PAY_LABEL,
+    SOLANA_PAY_PORT,
+    SOLANA_PAY_URL,
+    SOLANA_RPC_URL,
+    SPONSORED_FEE_MAX_SOL,
+    SPONSORED_FEES_DAILY_SOL,
+    SPONSORED_FEES_PER_USER_DAILY_SOL,
+    SPONSORSHIP_LEDGER_PATH,
+    TELEGRAM_MODE,
+    USER_STORE,
+    USER_STORE_PATH,
+    WEBHOOK_PATH,
+    WEBHOOK_PORT,
+    WEBHOOK_SECRET_TOKEN,
+    WEBHOOK_URL
+} from './config.js';
+import { loadFundCatalogue } from './funds.js';
+import { createSolanaPayServer } from './solanaPay.js';
+import { createSponsorshipLedger, FeeSponsor } from './sponsorship.js';
+import { createUserStore } from './userStore.js';
+import { createWebhookServer } from './webhook.js';
+
+// Long polling for local development, a webhook when running behind a load balancer. Replicas behind
+// it share sessions and signing requests through the user store.
+async function receiveUpdates(telegram: TelegramBot): Promise<string> {
+    switch (TELEGRAM_MODE) {
+        case 'polling':
+            // getUpdates is refused while a webhook is registered
+            await telegram.deleteWebHook();
+            await telegram.startPolling();
+            return 'polling';
+        case 'webhook': {
+            if (!WEBHOOK_URL || !WEBHOOK_SECRET_TOKEN) {
+                throw new Error('WEBHOOK_URL and WEBHOOK_SECRET_TOKEN are required when TELEGRAM_MODE=webhook');
+            }
+            const server = createWebhookServer(telegram, { path: WEBHOOK_PATH, secretToken: WEBHOOK_SECRET_TOKEN });
+            await new Promise<void>((resolve) => server.listen(WEBHOOK_PORT, resolve));
+            await telegram.setWebHook(`${WEBHOOK_URL}${WEBHOOK_PATH}`, { secret_token: WEBHOOK_SECRET_TOKEN });
+            return `webhook on port ${WEBHOOK_PORT}`;
+        }
+        default:
+            throw new Error(`Unknown TELEGRAM_MODE: ${TELEGRAM_MODE}`);
+    }
+}
+
+// Every real Breeze transaction calls the Breeze program, so without its id the safety checks reject them
+// all. Only the local mock (npm run mock) builds transactions that don't.
+function checkBreezeProgramId(): void {
+    const { hostname } = new URL(BREEZE_BASE_URL);
+    if (!BREEZE_PROGRAM_ID?.trim() && !['localhost', '127.0.0.1', '[::1]'].includes(hostname)) {
+        throw new Error('BREEZE_PROGRAM_ID is required unless BREEZE_BASE_URL points at the local mock Breeze API');
+    }
+}
+
+// Gasless mode when an operator fee payer is configured
+function createFeeSponsor(): FeeSponsor | undefined {
+    if (!FEE_PAYER_SECRET_KEY) {
+        return undefined;
+    }
+    return new FeeSponsor(
+        Keypair.fromSecretKey(bs58.decode(FEE_PAYER_SECRET_KEY)),
+        createSponsorshipLedger(USER_STORE, SPONSORSHIP_LEDGER_PATH),
+        {
+            perUserDailyLamports: Math.round(SPONSORED_FEES_PER_USER_DAILY_SOL * 1e9),
+            dailyLamports: Math.round(SPONSORED_FEES_DAILY_SOL * 1e9),
+            maxFeeLamports: Math.round(SPONSORED_FEE_MAX_SOL * 1e9)
+        }
+    );
+}
+
+// Start the bot
+checkBreezeProgramId();
+const funds = loadFundCatalogue(BREEZE_FUNDS_PATH, BREEZE_FUND_IDS);
+const feeSponsor = createFeeSponsor();
+const telegram = new TelegramBot(BOT_TOKEN, { polling: false });
+const breezeBot = new BreezeBot(
+    telegram,
+    new Connection(SOLANA_RPC_URL),
+    createBreezeClient(BREEZE_CLIENT, BREEZE_API_KEY, BREEZE_BASE_URL),
+    createUserStore(USER_STORE, USER_STORE_PATH),
+    funds,
+    feeSponsor
+);
+
+// Watch-only wallets fetch their transactions from here
+async function serveSolanaPay(): Promise<void> {
+    if (!SOLANA_PAY_URL) {
+        return;
+    }
+    const server = createSolanaPayServer(breezeBot, { publicUrl: SOLANA_PAY_URL, label: SOLANA_PAY_LABEL });
+    await new Promise<void>((resolve) => server.listen(SOLANA_PAY_PORT, resolve));
+    console.log(`Serving Solana Pay transaction requests on port ${SOLANA_PAY_PORT}`);
+}
+
+receiveUpdates(telegram)
+    .then(async (mode) => {
+        await serveSolanaPay();
+        await breezeBot.resumeSecretMessageDeletions();
+        await breezeBot.registerCommands();
+        if (feeSponsor) {
+            console.log(`Gasless mode: fees paid by ${feeSponsor.payer.publicKey.toBase58()}`);
+        }
+        console.log(`🌊 Breeze Telegram Bot is running (${BREEZE_CLIENT} client, ${funds.length} funds, ${mode})...`);
+    })
+    .catch((error) => {
+        console.error('Failed to start receiving updates:', error);
+        process.exit(1);
+    });
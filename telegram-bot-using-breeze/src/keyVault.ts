@@ -0,0 +1,68 @@
+import { Keypair } from '@solana/web3.js';
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Secret key encrypted with AES-256-GCM, all fields base64 encoded
+export interface SealedKey {
+    ciphertext: string;
+    iv: string;
+    authTag: string;
+    salt: string;
+}
+
+export class WrongPassphraseError extends Error {
+    constructor() {
+        super('Wrong passphrase');
+        this.name = 'WrongPassphraseError';
+    }
+}
+
+// The encryption key needs both the user's passphrase and the server master key,
+// so a leaked store alone is not enough to brute-force the passphrase offline
+async function deriveKey(passphrase: string, salt: Buffer, masterKey: string): Promise<Buffer> {
+    const passphraseKey = await scrypt(passphrase, salt, KEY_LENGTH);
+    return crypto.createHmac('sha256', masterKey).update(passphraseKey).digest();
+}
+
+export async function sealSecretKey(secretKey: Uint8Array, passphrase: string, masterKey: string): Promise<SealedKey> {
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const key = await deriveKey(passphrase, salt, masterKey);
+
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+
+    return {
+        ciphertext: ciphertext.toString('base64'),
+        iv: iv.toString('base64'),
+        authTag: cipher.getAuthTag().toString('base64'),
+        salt: salt.toString('base64')
+    };
+}
+
+export async function unsealSecretKey(sealedKey: SealedKey, passphrase: string, masterKey: string): Promise<Keypair> {
+    const key = await deriveKey(passphrase, Buffer.from(sealedKey.salt, 'base64'), masterKey);
+
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(sealedKey.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(sealedKey.authTag, 'base64'));
+
+    try {
+        const secretKey = Buffer.concat([
+            decipher.update(Buffer.from(sealedKey.ciphertext, 'base64')),
+            decipher.final()
+        ]);
+        return Keypair.fromSecretKey(secretKey);
+    } catch (error) {
+        // GCM authentication fails when the derived key is wrong
+        throw new WrongPassphraseError();
+    }
+}
@@ -0,0 +1,102 @@
+import {
+    Connection,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
+} from '@solana/web3.js';
+import {
+    ACCOUNT_SIZE,
+    AccountLayout,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createCloseAccountInstruction,
+    createTransferCheckedInstruction,
+    getAssociatedTokenAddressSync,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID
+} from '@solana/spl-token';
+import { TOKEN_DECIMALS, TOKEN_MINTS, TokenSymbol } from './tokens.js';
+
+// Everything a sweep moves; SOL is what's left after the network fee
+export interface Sweep {
+    transaction: VersionedTransaction;
+    tokens: { symbol: TokenSymbol; amount: bigint }[];
+    lamports: number;
+}
+
+// The wallet can't pay the fee and the rent of the new token accounts
+export class InsufficientSolError extends Error {
+    constructor(public requiredLamports: number) {
+        super(`Sweeping the wallet needs at least ${requiredLamports} lamports`);
+        this.name = 'InsufficientSolError';
+    }
+}
+
+// Builds one unsigned transaction that moves every supported token and all SOL from one wallet to
+// another, so the old wallet is emptied completely or not at all. Each token account is closed
+// after its transfer, refunding the rent of the account opened for the new wallet. Returns
+// undefined when there is nothing to move. SOL too little to open the new account stays behind.
+export async function buildSweepTransaction(connection: Connection, from: PublicKey, to: PublicKey): Promise<Sweep | undefined> {
+    // Token accounts belong to the program that owns their mint (PYUSD is a Token-2022 mint), so both are looked up
+    const candidates = (Object.keys(TOKEN_MINTS) as TokenSymbol[]).flatMap((symbol) => {
+        const mint = new PublicKey(TOKEN_MINTS[symbol]);
+        return [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map((programId) => ({
+            symbol,
+            mint,
+            programId,
+            source: getAssociatedTokenAddressSync(mint, from, false, programId)
+        }));
+    });
+    const accounts = await connection.getMultipleAccountsInfo(candidates.map(({ source }) => source), 'confirmed');
+
+    const instructions: TransactionInstruction[] = [];
+    const tokens: Sweep['tokens'] = [];
+    const openedSizes: number[] = []; // Token-2022 accounts carry extensions and cost more rent
+    candidates.forEach(({ symbol, mint, programId, source }, index) => {
+        const account = accounts[index];
+        if (!account || !account.owner.equals(programId)) {
+            return;
+        }
+
+        // Empty accounts are just closed, with their rent going straight to the new wallet
+        const { amount } = AccountLayout.decode(account.data.subarray(0, ACCOUNT_SIZE));
+        if (amount === BigInt(0)) {
+            instructions.push(createCloseAccountInstruction(source, to, from, [], programId));
+            return;
+        }
+
+        const destination = getAssociatedTokenAddressSync(mint, to, false, programId);
+        instructions.push(
+            createAssociatedTokenAccountIdempotentInstruction(from, destination, to, mint, programId),
+            createTransferCheckedInstruction(source, mint, destination, from, amount, TOKEN_DECIMALS[symbol], [], programId),
+            createCloseAccountInstruction(source, from, from, [], programId)
+        );
+        tokens.push({ symbol, amount });
+        openedSizes.push(account.data.length);
+    });
+
+    const balance = await connection.getBalance(from, 'confirmed');
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    const compile = (lamports: number) => new TransactionMessage({
+        payerKey: from,
+        recentBlockhash: blockhash,
+        instructions: [...instructions, ...(lamports > 0 ? [SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports })] : [])]
+    }).compileToV0Message();
+
+    // The fee doesn't depend on the amount, so a placeholder transfer is enough to price it
+    const fee = (await connection.getFeeForMessage(compile(1), 'confirmed')).value ?? 5000;
+    // Accounts are opened one at a time, each refunded by closing its source before the next
+    const tokenRent = tokens.length > 0 ? await connection.getMinimumBalanceForRentExemption(Math.max(...openedSizes)) : 0;
+    if (balance < fee + tokenRent && instructions.length > 0) {
+        throw new InsufficientSolError(fee + tokenRent);
+    }
+
+    const leftover = balance - fee;
+    const lamports = leftover >= await connection.getMinimumBalanceForRentExemption(0) ? leftover : 0;
+    if (instructions.length === 0 && lamports === 0) {
+        return undefined;
+    }
+
+    return { transaction: new VersionedTransaction(compile(lamports)), tokens, lamports };
+}
@@ -0,0 +1,450 @@
+import {
+    ComputeBudgetProgram,
+    Connection,
+    Keypair,
+    PublicKey,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
+} from '@solana/web3.js';
+import {
+    createAssociatedTokenAccountIdempotentInstruction,
+    createTransferCheckedInstruction,
+    getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import crypto from 'crypto';
+import http from 'http';
+import {
+    BreezeUserBalancesInstance,
+    BreezeUserBalancesResponse,
+    BreezeUserYieldInstance,
+    BreezeUserYieldResponse
+} from '../breeze/index.js';
+import { TOKEN_DECIMALS, TOKEN_MINTS, TOKEN_PROGRAM_IDS, TokenSymbol } from '../tokens.js';
+
+const TOKEN_NAMES: Record<TokenSymbol, string> = {
+    USDC: 'USD Coin',
+    USDT: 'Tether USD',
+    PYUSD: 'PayPal USD',
+    USDS: 'Sky Dollar'
+};
+
+// Stand-in program id the mock derives fund vaults from
+const MOCK_BREEZE_PROGRAM_ID = new PublicKey('BreezeMock111111111111111111111111111111111');
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const MAX_PAGE_SIZE = 100;
+const SIGNATURES_PER_LOOKUP = 25;
+const PENDING_TRANSACTION_TTL_MS = 5 * 60 * 1000; // well past the lifetime of its blockhash
+
+export interface MockFund {
+    id: string;
+    name: string;
+    baseAsset: TokenSymbol;
+    apy: number; // percent
+}
+
+export interface MockBreezeServerOptions {
+    funds: MockFund[];
+    apiKey?: string; // when set, requests must send a matching x-api-key header
+    connection?: Connection; // used for real blockhashes and to see transactions land; without it none ever do
+}
+
+interface MockPosition {
+    fundId: string;
+    funds: bigint;
+    yieldEarned: bigint;
+    entryDate: Date;
+    lastUpdated: Date;
+}
+
+// A built transaction whose position change waits for it to land
+interface PendingTransaction {
+    message: string; // base64 serialized message, which signing leaves untouched
+    fundId: string;
+    delta: bigint;
+    expiresAt: number;
+}
+
+interface TransactionRequestBody {
+    params?: {
+        fund_id?: string;
+        amount?: number;
+        all?: boolean;
+        user_key?: string;
+        payer_key?: string | null;
+    };
+}
+
+class MockApiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'MockApiError';
+    }
+}
+
+// Deposits go to a program-derived vault, like real Breeze funds
+function fundVaultAuthority(fund: MockFund): PublicKey {
+    return PublicKey.findProgramAddressSync([Buffer.from('vault'), Buffer.from(fund.id)], MOCK_BREEZE_PROGRAM_ID)[0];
+}
+
+// There is no program to sign for the vault, so withdrawals are paid from a deterministic treasury keypair
+function fundTreasury(fund: MockFund): Keypair {
+    const seed = crypto.createHash('sha256').update(`breeze-mock-vault:${fund.id}`).digest();
+    return Keypair.fromSeed(seed);
+}
+
+function paginate<T>(items: T[], page: number, limit: number) {
+    const total = items.length;
+    const totalPages = Math.max(1, Math.ceil(total / limit));
+
+    return {
+        data: items.slice((page - 1) * limit, page * limit),
+        meta: {
+            page,
+            per_page: limit,
+            total,
+            total_pages: totalPages,
+            has_more: page < totalPages
+        }
+    };
+}
+
+function parsePositiveInt(value: string | null, fallback: number, name: string): number {
+    if (value === null) {
+        return fallback;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new MockApiError(400, `Invalid ${name}: ${value}`);
+    }
+
+    return parsed;
+}
+
+function parsePublicKey(value: string | undefined | null, name: string): PublicKey {
+    try {
+        return new PublicKey(value!);
+    } catch (error) {
+        throw new MockApiError(400, `Invalid ${name}`);
+    }
+}
+
+// In-memory stand-in for the Breeze API. Positions change once a deposit or withdraw transaction
+// it built lands on-chain, which it looks for among the user's transactions whenever it reads them.
+export class MockBreezeApi {
+    private positions: Map<string, MockPosition[]> = new Map();
+    private pending: Map<string, PendingTransaction[]> = new Map(); // user -> transactions built for them
+    private checked: Set<string> = new Set(); // signatures already looked at
+    private warnedAboutBlockhash = false;
+
+    constructor(private options: MockBreezeServerOptions) {}
+
+    async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        try {
+            if (this.options.apiKey && req.headers['x-api-key'] !== this.options.apiKey) {
+                throw new MockApiError(401, 'Invalid API key');
+            }
+
+            const url = new URL(req.url || '/', 'http://localhost');
+            const path = url.pathname.replace(/\/+/g, '/').replace(/\/$/, '');
+            const [, route, param] = path.split('/');
+
+            if (req.method === 'GET' && route === 'user-balances' && param) {
+                return this.sendJson(res, 200, await this.getUserBalances(param, url.searchParams));
+            }
+            if (req.method === 'GET' && route === 'user-yield' && param) {
+                return this.sendJson(res, 200, await this.getUserYield(param, url.searchParams));
+            }
+            if (req.method === 'POST' && path === '/deposit/tx') {
+                return this.sendJson(res, 200, await this.buildTransaction('deposit', await this.readBody(req)));
+            }
+            if (req.method === 'POST' && path === '/withdraw/tx') {
+                return this.sendJson(res, 200, await this.buildTransaction('withdraw', await this.readBody(req)));
+            }
+
+            throw new MockApiError(404, `Route not found: ${req.method} ${path}`);
+        } catch (error) {
+            if (error instanceof MockApiError) {
+                return this.sendJson(res, error.status, { message: error.message });
+            }
+            console.error('Mock Breeze API error:', error);
+            return this.sendJson(res, 500, { message: 'Internal server error' });
+        }
+    }
+
+    private async getUserBalances(userKey: string, query: URLSearchParams): Promise<BreezeUserBalancesResponse> {
+        parsePublicKey(userKey, 'user id');
+        const page = parsePositiveInt(query.get('page'), 1, 'page');
+        const limit = Math.min(parsePositiveInt(query.get('limit'), 10, 'limit'), MAX_PAGE_SIZE);
+        const asset = query.get('asset');
+
+        const balances: BreezeUserBalancesInstance[] = [];
+        for (const position of await this.getPositions(userKey)) {
+            const fund = this.findFund(position.fundId);
+            if (asset && fund.baseAsset !== asset) {
+                continue;
+            }
+
+            balances.push({
+                token_address: TOKEN_MINTS[fund.baseAsset],
+                token_symbol: fund.baseAsset,
+                token_name: TOKEN_NAMES[fund.baseAsset],
+                decimals: TOKEN_DECIMALS[fund.baseAsset],
+                total_balance: Number(position.funds + position.yieldEarned),
+                yield_balance: {
+                    fund_id: fund.id,
+                    funds: position.funds.toString(),
+                    amount_of_yield: position.yieldEarned.toString(),
+                    fund_apy: fund.apy
+                }
+            });
+        }
+
+        return paginate(balances, page, limit);
+    }
+
+    private async getUserYield(userKey: string, query: URLSearchParams): Promise<BreezeUserYieldResponse> {
+        parsePublicKey(userKey, 'user id');
+        const page = parsePositiveInt(query.get('page'), 1, 'page');
+        const limit = Math.min(parsePositiveInt(query.get('limit'), 10, 'limit'), MAX_PAGE_SIZE);
+        const fundId = query.get('fund_id');
+
+        const entries: BreezeUserYieldInstance[] = (await this.getPositions(userKey))
+            .filter((position) => !fundId || position.fundId === fundId)
+            .map((position) => {
+                const fund = this.findFund(position.fundId);
+                return {
+                    fund_id: fund.id,
+                    fund_name: fund.name,
+                    base_asset: fund.baseAsset,
+                    position_value: (position.funds + position.yieldEarned).toString(),
+                    yield_earned: position.yieldEarned.toString(),
+                    apy: fund.apy.toString(),
+                    entry_date: position.entryDate.toISOString(),
+                    last_updated: position.lastUpdated.toISOString()
+                };
+            });
+
+        return paginate(entries, page, limit);
+    }
+
+    private async buildTransaction(type: 'deposit' | 'withdraw', body: TransactionRequestBody): Promise<string> {
+        const params = body.params;
+        if (!params) {
+            throw new MockApiError(400, 'Missing params');
+        }
+
+        const fund = this.findFund(params.fund_id);
+        const user = parsePublicKey(params.user_key, 'user_key');
+        const payer = params.payer_key ? parsePublicKey(params.payer_key, 'payer_key') : user;
+        const position = await this.getPosition(user.toBase58(), fund.id);
+
+        let amount: bigint;
+        if (type === 'withdraw' && params.all) {
+            amount = position ? position.funds + position.yieldEarned : BigInt(0);
+        } else {
+            if (typeof params.amount !== 'number' || !Number.isInteger(params.amount) || params.amount <= 0) {
+                throw new MockApiError(400, 'Amount must be a positive integer in token units');
+            }
+            amount = BigInt(params.amount);
+        }
+
+        if (type === 'withdraw') {
+            const available = position ? position.funds + position.yieldEarned : BigInt(0);
+            if (amount <= 0 || amount > available) {
+                throw new MockApiError(400, 'Insufficient funds in Breeze position');
+            }
+        }
+
+        const mint = new PublicKey(TOKEN_MINTS[fund.baseAsset]);
+        const decimals = TOKEN_DECIMALS[fund.baseAsset];
+        const programId = TOKEN_PROGRAM_IDS[fund.baseAsset];
+        const vaultAuthority = fundVaultAuthority(fund);
+        const treasury = fundTreasury(fund);
+        const userTokenAccount = getAssociatedTokenAddressSync(mint, user, false, programId);
+        const vaultTokenAccount = getAssociatedTokenAddressSync(mint, vaultAuthority, true, programId);
+        const treasuryTokenAccount = getAssociatedTokenAddressSync(mint, treasury.publicKey, false, programId);
+
+        const instructions: TransactionInstruction[] = [
+            ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 })
+        ];
+
+        if (type === 'deposit') {
+            instructions.push(
+                createAssociatedTokenAccountIdempotentInstruction(payer, vaultTokenAccount, vaultAuthority, mint, programId),
+                createTransferCheckedInstruction(userTokenAccount, mint, vaultTokenAccount, user, amount, decimals, [], programId)
+            );
+        } else {
+            instructions.push(
+                createAssociatedTokenAccountIdempotentInstruction(payer, userTokenAccount, user, mint, programId),
+                createTransferCheckedInstruction(treasuryTokenAccount, mint, userTokenAccount, treasury.publicKey, amount, decimals, [], programId)
+            );
+        }
+
+        const message = new TransactionMessage({
+            payerKey: payer,
+            recentBlockhash: await this.getRecentBlockhash(),
+            instructions
+        }).compileToV0Message();
+
+        const transaction = new VersionedTransaction(message);
+        if (type === 'withdraw') {
+            // The treasury signs its transfer; the user and payer signatures are left for the client
+            transaction.sign([treasury]);
+        }
+
+        const pending = this.pending.get(user.toBase58()) ?? [];
+        pending.push({
+            message: Buffer.from(message.serialize()).toString('base64'),
+            fundId: fund.id,
+            delta: type === 'deposit' ? amount : -amount,
+            expiresAt: Date.now() + PENDING_TRANSACTION_TTL_MS
+        });
+        this.pending.set(user.toBase58(), pending);
+
+        return Buffer.from(transaction.serialize()).toString('base64');
+    }
+
+    private async getRecentBlockhash(): Promise<string> {
+        if (this.options.connection) {
+            try {
+                const { blockhash } = await this.options.connection.getLatestBlockhash();
+                return blockhash;
+            } catch (error) {
+                if (!this.warnedAboutBlockhash) {
+                    console.warn('Mock Breeze API could not reach Solana RPC, using random blockhashes:', error);
+                    this.warnedAboutBlockhash = true;
+                }
+            }
+        }
+
+        return Keypair.generate().publicKey.toBase58();
+    }
+
+    private findFund(fundId: string | undefined | null): MockFund {
+        const fund = this.options.funds.find((candidate) => candidate.id === fundId);
+        if (!fund) {
+            throw new MockApiError(404, `Fund not found: ${fundId}`);
+        }
+        return fund;
+    }
+
+    private async getPositions(userKey: string): Promise<MockPosition[]> {
+        await this.applyLandedTransactions(userKey);
+
+        const positions = this.positions.get(userKey) ?? [];
+        positions.forEach((position) => this.accrueYield(position));
+        return positions;
+    }
+
+    private async getPosition(userKey: string, fundId: string): Promise<MockPosition | undefined> {
+        return (await this.getPositions(userKey)).find((position) => position.fundId === fundId);
+    }
+
+    // Matches the user's successful transactions against the ones built for them. Transactions that
+    // never landed are forgotten once their blockhash has long expired.
+    private async applyLandedTransactions(userKey: string) {
+        const connection = this.options.connection;
+        const pending = (this.pending.get(userKey) ?? []).filter((transaction) => transaction.expiresAt > Date.now());
+        this.pending.set(userKey, pending);
+        if (!connection || pending.length === 0) {
+            return;
+        }
+
+        let signatures: Awaited<ReturnType<Connection['getSignaturesForAddress']>>;
+        try {
+            signatures = await connection.getSignaturesForAddress(new PublicKey(userKey), { limit: SIGNATURES_PER_LOOKUP }, 'confirmed');
+        } catch (error) {
+            console.warn('Mock Breeze API could not look up transactions, positions may be behind:', error);
+            return;
+        }
+
+        for (const { signature, err } of signatures.reverse()) {
+            if (err || this.checked.has(signature)) {
+                continue;
+            }
+
+            const details = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+            if (!details) {
+                continue; // not visible to this RPC node yet; looked at again next time
+            }
+            this.checked.add(signature);
+
+            const message = Buffer.from(details.transaction.message.serialize()).toString('base64');
+            const index = pending.findIndex((transaction) => transaction.message === message);
+            if (index >= 0) {
+                this.applyToPosition(userKey, pending[index].fundId, pending[index].delta);
+                pending.splice(index, 1);
+            }
+        }
+    }
+
+    private accrueYield(position: MockPosition) {
+        const now = new Date();
+        const elapsedSeconds = Math.floor((now.getTime() - position.lastUpdated.getTime()) / 1000);
+        if (elapsedSeconds <= 0) {
+            return;
+        }
+
+        const fund = this.findFund(position.fundId);
+        // Basis points keep the calculation in integer token units
+        const apyBasisPoints = BigInt(Math.round(fund.apy * 100));
+        position.yieldEarned += position.funds * apyBasisPoints * BigInt(elapsedSeconds) / BigInt(10000 * SECONDS_PER_YEAR);
+        position.lastUpdated = now;
+    }
+
+    private applyToPosition(userKey: string, fundId: string, delta: bigint) {
+        const positions = this.positions.get(userKey) ?? [];
+        let position = positions.find((candidate) => candidate.fundId === fundId);
+
+        if (!position) {
+            const now = new Date();
+            position = { fundId, funds: BigInt(0), yieldEarned: BigInt(0), entryDate: now, lastUpdated: now };
+            positions.push(position);
+            this.positions.set(userKey, positions);
+        }
+
+        if (delta >= 0) {
+            position.funds += delta;
+            return;
+        }
+
+        // Withdrawals are taken from earned yield first, then from principal
+        let remaining = -delta;
+        const fromYield = remaining < position.yieldEarned ? remaining : position.yieldEarned;
+        position.yieldEarned -= fromYield;
+        remaining -= fromYield;
+        position.funds -= remaining;
+
+        if (position.funds === BigInt(0) && position.yieldEarned === BigInt(0)) {
+            this.positions.set(userKey, positions.filter((candidate) => candidate !== position));
+        }
+    }
+
+    private async readBody(req: http.IncomingMessage): Promise<TransactionRequestBody> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) {
+            chunks.push(chunk as Buffer);
+        }
+
+        try {
+            return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as TransactionRequestBody;
+        } catch (error) {
+            throw new MockApiError(400, 'Invalid JSON body');
+        }
+    }
+
+    private sendJson(res: http.ServerResponse, status: number, body: unknown) {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+}
+
+export function createMockBreezeServer(options: MockBreezeServerOptions): http.Server {
+    const api = new MockBreezeApi(options);
+    return http.createServer((req, res) => {
+        void api.handle(req, res);
+    });
+}
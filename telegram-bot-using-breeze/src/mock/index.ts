@@ -0,0 +1,34 @@
+import { Connection } from '@solana/web3.js';
+import {
+    BREEZE_API_KEY,
+    BREEZE_FUND_IDS,
+    BREEZE_FUNDS_PATH,
+    MOCK_BREEZE_FUND_APY,
+    MOCK_BREEZE_PORT,
+    SOLANA_RPC_URL
+} from '../config.js';
+import { loadFundCatalogue } from '../funds.js';
+import { TOKEN_MINTS, TokenSymbol } from '../tokens.js';
+import { createMockBreezeServer } from './breezeServer.js';
+
+// Serve the bot's fund catalogue, or one mock fund per asset when none is configured
+const catalogue = loadFundCatalogue(BREEZE_FUNDS_PATH, BREEZE_FUND_IDS);
+const funds = catalogue.length > 0
+    ? catalogue.map((fund) => ({ id: fund.id, name: fund.name, baseAsset: fund.baseAsset, apy: MOCK_BREEZE_FUND_APY }))
+    : (Object.keys(TOKEN_MINTS) as TokenSymbol[]).map((asset) => ({
+        id: `mock-${asset.toLowerCase()}-fund`,
+        name: `Breeze Mock ${asset} Fund`,
+        baseAsset: asset,
+        apy: MOCK_BREEZE_FUND_APY
+    }));
+
+// Start the mock Breeze API
+const server = createMockBreezeServer({
+    funds,
+    apiKey: BREEZE_API_KEY,
+    connection: new Connection(SOLANA_RPC_URL)
+});
+
+server.listen(MOCK_BREEZE_PORT, () => {
+    console.log(`🧪 Mock Breeze API listening on http://localhost:${MOCK_BREEZE_PORT}`);
+});
@@ -0,0 +1,15 @@
+import QRCode from 'qrcode';
+
+// QR codes at error correction level L, the densest level, so a whole transaction still fits in a
+// code a phone camera can read off a screen.
+
+const QUIET_ZONE_MODULES = 4;
+const MAX_IMAGE_PIXELS = 1280; // Telegram scales larger photos down, blurring the modules
+
+// The text's QR code as a black on white PNG, quiet zone included, with modules as large as fit
+export async function qrCodePng(text: string): Promise<Buffer> {
+    const { modules } = QRCode.create(text, { errorCorrectionLevel: 'L' });
+    const scale = Math.max(1, Math.floor(MAX_IMAGE_PIXELS / (modules.size + 2 * QUIET_ZONE_MODULES)));
+
+    return QRCode.toBuffer(text, { type: 'png', errorCorrectionLevel: 'L', margin: QUIET_ZONE_MODULES, scale });
+}
@@ -0,0 +1,91 @@
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { ACCOUNT_SIZE, AccountLayout, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { convertFromTokenAmount, TOKEN_MINTS, TOKEN_PROGRAM_IDS, TokenSymbol } from './tokens.js';
+
+const LAMPORTS_PER_SIGNATURE = 5000;
+
+export interface BalanceChange {
+    symbol: TokenSymbol | 'SOL';
+    delta: number; // human readable, negative when the wallet pays
+}
+
+export interface SimulationSummary {
+    balanceChanges: BalanceChange[];
+    unitsConsumed?: number;
+    fee: number; // SOL
+    feePayerCost?: number; // SOL a separate fee payer spends on fees and rent
+}
+
+export class SimulationFailedError extends Error {
+    constructor(public reason: string, public logs: string[]) {
+        super(`Transaction simulation failed: ${reason}`);
+        this.name = 'SimulationFailedError';
+    }
+}
+
+// Token-2022 accounts start with the same layout, followed by their extensions
+function tokenAmount(data: Buffer | undefined): bigint {
+    if (!data || data.length < ACCOUNT_SIZE) {
+        return BigInt(0);
+    }
+    return AccountLayout.decode(data.subarray(0, ACCOUNT_SIZE)).amount;
+}
+
+// Simulates the transaction against current chain state and reports how the owner's SOL and
+// stablecoin balances would change, and what a fee payer other than the owner would spend.
+// Throws SimulationFailedError when the transaction would fail.
+export async function simulateTransaction(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    owner: PublicKey,
+    feePayer?: PublicKey
+): Promise<SimulationSummary> {
+    const symbols = Object.keys(TOKEN_MINTS) as TokenSymbol[];
+    const tokenAccounts = symbols.map((symbol) => getAssociatedTokenAddressSync(new PublicKey(TOKEN_MINTS[symbol]), owner, false, TOKEN_PROGRAM_IDS[symbol]));
+    const sponsor = feePayer && !feePayer.equals(owner) ? feePayer : undefined;
+    const addresses = [owner, ...tokenAccounts, ...(sponsor ? [sponsor] : [])];
+
+    const before = await connection.getMultipleAccountsInfo(addresses);
+    const { value } = await connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        accounts: { encoding: 'base64', addresses: addresses.map((address) => address.toBase58()) }
+    });
+
+    if (value.err) {
+        const reason = typeof value.err === 'string' ? value.err : JSON.stringify(value.err);
+        throw new SimulationFailedError(reason, value.logs ?? []);
+    }
+
+    const after = value.accounts ?? [];
+    const balanceChanges: BalanceChange[] = [];
+
+    const lamportsDelta = (after[0]?.lamports ?? 0) - (before[0]?.lamports ?? 0);
+    if (after[0] && lamportsDelta !== 0) {
+        balanceChanges.push({ symbol: 'SOL', delta: lamportsDelta / 1e9 });
+    }
+
+    symbols.forEach((symbol, index) => {
+        const post = after[index + 1];
+        if (!post) {
+            return;
+        }
+        const delta = tokenAmount(Buffer.from(post.data[0], 'base64')) - tokenAmount(before[index + 1]?.data);
+        if (delta !== BigInt(0)) {
+            const magnitude = convertFromTokenAmount(delta < 0 ? -delta : delta, symbol);
+            balanceChanges.push({ symbol, delta: delta < 0 ? -magnitude : magnitude });
+        }
+    });
+
+    // The RPC can't price messages with a blockhash it doesn't know; fall back to the base fee
+    const { value: feeLamports } = await connection.getFeeForMessage(transaction.message);
+    const fee = (feeLamports ?? transaction.message.header.numRequiredSignatures * LAMPORTS_PER_SIGNATURE) / 1e9;
+
+    // At least the fee, whether or not the RPC took it off the simulated balance
+    const sponsorIndex = symbols.length + 1;
+    const feePayerCost = sponsor && after[sponsorIndex]
+        ? Math.max((before[sponsorIndex]?.lamports ?? 0) - after[sponsorIndex].lamports, fee * 1e9) / 1e9
+        : sponsor ? fee : undefined;
+
+    return { balanceChanges, unitsConsumed: value.unitsConsumed, fee, feePayerCost };
+}
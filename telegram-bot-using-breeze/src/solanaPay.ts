@@ -0,0 +1,177 @@
+import http from 'http';
+import { Connection, PublicKey } from '@solana/web3.js';
+
+const MAX_BODY_BYTES = 16 * 1024;
+const HEALTH_PATH = '/healthz';
+const BASE_PATH = '/solana-pay';
+const SIGNATURES_PER_LOOKUP = 25;
+
+const ICON_SVG =
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64">' +
+    '<rect width="64" height="64" rx="14" fill="#0b6bcb"/>' +
+    '<path d="M10 38c8-8 14-8 22 0s14 8 22 0M10 26c8-8 14-8 22 0s14 8 22 0" stroke="#fff" stroke-width="5" fill="none" stroke-linecap="round"/>' +
+    '</svg>';
+
+export interface SolanaPayServerOptions {
+    publicUrl: string; // where wallets reach this server, e.g. https://bot.example.com
+    label: string; // shown by the wallet before it asks to connect
+}
+
+// What a wallet receives after connecting: the transaction to sign and a line describing it
+export interface TransactionRequestResponse {
+    transaction: string; // base64, signed by nobody but possibly co-signers
+    message?: string;
+}
+
+// Hands out the transaction behind a request id for the wallet that connected
+export interface TransactionRequestSource {
+    createTransactionRequest(requestId: string, account: PublicKey): Promise<TransactionRequestResponse>;
+}
+
+// Thrown by a TransactionRequestSource to turn down a request; the message is shown in the wallet
+export class TransactionRequestError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'TransactionRequestError';
+    }
+}
+
+// The transaction request a wallet fetches for the request id
+export function transactionRequestLink(publicUrl: string, requestId: string): string {
+    return `${publicUrl}${BASE_PATH}/tx/${requestId}`;
+}
+
+// Solana Pay URL for a transaction request; links without a query string go in unencoded
+export function solanaPayUrl(link: string): string {
+    return `solana:${link}`;
+}
+
+// An https page that hands the Solana Pay URL to the wallet app registered for solana: links.
+// Telegram buttons only open http(s) URLs, so this is what a button can point at.
+export function walletRedirectLink(publicUrl: string, requestId: string): string {
+    return `${publicUrl}${BASE_PATH}/open/${requestId}`;
+}
+
+function redirectPage(url: string): string {
+    return '<!doctype html><html><head><meta charset="utf-8">' +
+        '<meta name="viewport" content="width=device-width, initial-scale=1">' +
+        `<meta http-equiv="refresh" content="0;url=${url}"><title>Open in your wallet</title></head>` +
+        `<body><p><a href="${url}">Open in your wallet</a></p></body></html>`;
+}
+
+async function readAccount(req: http.IncomingMessage): Promise<PublicKey> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) {
+            throw new TransactionRequestError(413, 'Request too large');
+        }
+        chunks.push(chunk as Buffer);
+    }
+
+    try {
+        return new PublicKey(JSON.parse(Buffer.concat(chunks).toString('utf8')).account);
+    } catch (error) {
+        throw new TransactionRequestError(400, 'Missing or invalid account');
+    }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: object) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Access-Control-Allow-Origin': '*' });
+    res.end(JSON.stringify(body));
+}
+
+// Serves Solana Pay transaction requests (https://docs.solanapay.com/spec#specification-transaction-request):
+// a GET returns the label and icon, a POST with the wallet's account returns the transaction to sign.
+export function createSolanaPayServer(source: TransactionRequestSource, options: SolanaPayServerOptions): http.Server {
+    const iconUrl = `${options.publicUrl}${BASE_PATH}/icon.svg`;
+
+    const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const path = new URL(req.url || '/', 'http://localhost').pathname;
+        const [, base, kind, requestId, ...rest] = path.split('/');
+
+        try {
+            if (req.method === 'GET' && path === HEALTH_PATH) {
+                res.writeHead(200, { 'Content-Type': 'text/plain' });
+                res.end('ok');
+                return;
+            }
+            if (req.method === 'GET' && path === `${BASE_PATH}/icon.svg`) {
+                res.writeHead(200, { 'Content-Type': 'image/svg+xml', 'Access-Control-Allow-Origin': '*' });
+                res.end(ICON_SVG);
+                return;
+            }
+            if (`/${base}` !== BASE_PATH || !requestId || rest.length > 0 || !['tx', 'open'].includes(kind)) {
+                throw new TransactionRequestError(404, 'Not found');
+            }
+
+            if (kind === 'open' && req.method === 'GET') {
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                res.end(redirectPage(solanaPayUrl(transactionRequestLink(options.publicUrl, encodeURIComponent(requestId)))));
+                return;
+            }
+            if (kind === 'tx' && req.method === 'OPTIONS') {
+                res.writeHead(204, {
+                    'Access-Control-Allow-Origin': '*',
+                    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+                    'Access-Control-Allow-Headers': 'Content-Type'
+                });
+                res.end();
+                return;
+            }
+            if (kind === 'tx' && req.method === 'GET') {
+                sendJson(res, 200, { label: options.label, icon: iconUrl });
+                return;
+            }
+            if (kind === 'tx' && req.method === 'POST') {
+                sendJson(res, 200, await source.createTransactionRequest(requestId, await readAccount(req)));
+                return;
+            }
+            throw new TransactionRequestError(405, 'Method not allowed');
+        } catch (error) {
+            const status = error instanceof TransactionRequestError ? error.status : 500;
+            if (status === 500) {
+                console.error('Solana Pay error:', error);
+            }
+            sendJson(res, status, { message: error instanceof TransactionRequestError ? error.message : 'Internal server error' });
+        }
+    };
+
+    return http.createServer((req, res) => {
+        void handle(req, res);
+    });
+}
+
+// Looks through the wallet's transactions newer than `until` for one built on a blockhash the bot
+// served. Blockhashes change every slot and the wallet pays the fee, so the pair identifies the
+// transaction even if the wallet adjusted its priority fee. Signatures in `checked` are skipped
+// and the ones looked at are added, so repeated lookups only fetch new transactions.
+export async function findSignedTransaction(
+    connection: Connection,
+    wallet: PublicKey,
+    blockhashes: string[],
+    options: { until?: string; checked: Set<string> }
+): Promise<string | undefined> {
+    const signatures = await connection.getSignaturesForAddress(wallet, { until: options.until, limit: SIGNATURES_PER_LOOKUP }, 'confirmed');
+
+    for (const { signature } of signatures) {
+        if (options.checked.has(signature)) {
+            continue;
+        }
+
+        const details = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+        if (!details) {
+            continue; // not visible to this RPC node yet; looked at again next time
+        }
+        options.checked.add(signature);
+
+        const message = details.transaction.message;
+        if (blockhashes.includes(message.recentBlockhash) && message.staticAccountKeys[0]?.equals(wallet)) {
+            return signature;
+        }
+    }
+
+    return undefined;
+}
@@ -0,0 +1,173 @@
+import { Keypair } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fees and rent the operator's fee payer spent on one user's transaction. Users who delete their
+// data are forgotten: their fees lose the user id and signature but still count towards the totals.
+export interface SponsoredFee {
+    userId?: number;
+    signature?: string;
+    lamports: number;
+    at: number; // ms since epoch
+}
+
+export interface SponsorshipLedger {
+    record(fee: SponsoredFee): Promise<void>;
+    since(at: number): Promise<SponsoredFee[]>;
+    forget(userId: number): Promise<void>;
+}
+
+function anonymise(fees: SponsoredFee[], userId: number): SponsoredFee[] {
+    return fees.map((fee) => fee.userId === userId ? { lamports: fee.lamports, at: fee.at } : fee);
+}
+
+export interface SponsorshipBudgets {
+    perUserDailyLamports: number;
+    dailyLamports: number;
+    maxFeeLamports: number; // the most one transaction may cost the fee payer
+}
+
+// Keeps the ledger in process memory; budgets reset on restart
+export class InMemorySponsorshipLedger implements SponsorshipLedger {
+    private fees: SponsoredFee[] = [];
+
+    async record(fee: SponsoredFee): Promise<void> {
+        this.fees.push(fee);
+    }
+
+    async since(at: number): Promise<SponsoredFee[]> {
+        return this.fees.filter((fee) => fee.at >= at);
+    }
+
+    async forget(userId: number): Promise<void> {
+        this.fees = anonymise(this.fees, userId);
+    }
+}
+
+// Appends one JSON line per sponsored transaction, so the file doubles as the operator's audit trail
+export class FileSponsorshipLedger implements SponsorshipLedger {
+    private fees?: Promise<SponsoredFee[]>;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string) {}
+
+    async record(fee: SponsoredFee): Promise<void> {
+        const fees = await this.load();
+        fees.push(fee);
+
+        // A failed write must not block the ones queued behind it
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.appendFile(this.filePath, `${JSON.stringify(fee)}\n`, { mode: 0o600 });
+        });
+        return this.writeQueue;
+    }
+
+    async since(at: number): Promise<SponsoredFee[]> {
+        return (await this.load()).filter((fee) => fee.at >= at);
+    }
+
+    // Rewrites the whole file, so the user's id and signatures are gone from disk too
+    async forget(userId: number): Promise<void> {
+        const fees = await this.load();
+        fees.splice(0, fees.length, ...anonymise(fees, userId));
+
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+            const tmpPath = `${this.filePath}.tmp`;
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(tmpPath, fees.map((fee) => `${JSON.stringify(fee)}\n`).join(''), { mode: 0o600 });
+            await fs.rename(tmpPath, this.filePath);
+        });
+        return this.writeQueue;
+    }
+
+    // The file is read once; concurrent callers share the same read
+    private load(): Promise<SponsoredFee[]> {
+        if (!this.fees) {
+            this.fees = this.readFile();
+        }
+        return this.fees;
+    }
+
+    private async readFile(): Promise<SponsoredFee[]> {
+        try {
+            const contents = await fs.readFile(this.filePath, 'utf8');
+            return contents.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line) as SponsoredFee);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            return [];
+        }
+    }
+}
+
+export function createSponsorshipLedger(type: string, filePath: string): SponsorshipLedger {
+    switch (type) {
+        case 'memory':
+            return new InMemorySponsorshipLedger();
+        case 'file':
+            return new FileSponsorshipLedger(filePath);
+        default:
+            throw new Error(`Unknown sponsorship ledger type: ${type}`);
+    }
+}
+
+function startOfUtcDay(now: number): number {
+    return Math.floor(now / DAY_MS) * DAY_MS;
+}
+
+// Gasless mode: the operator's keypair pays fees for users within a daily budget per user and one
+// for everyone together. Budgets reset at midnight UTC.
+export class FeeSponsor {
+    private reservations: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        readonly payer: Keypair,
+        private ledger: SponsorshipLedger,
+        readonly budgets: SponsorshipBudgets
+    ) {}
+
+    // Whether a transaction costing up to maxFeeLamports still fits in both of today's budgets
+    async canSponsor(userId: number, now = Date.now()): Promise<boolean> {
+        const { spent, spentByUser } = await this.spentToday(userId, now);
+
+        return spent + this.budgets.maxFeeLamports <= this.budgets.dailyLamports &&
+            spentByUser + this.budgets.maxFeeLamports <= this.budgets.perUserDailyLamports;
+    }
+
+    // Records the fee before the fee payer signs, or returns false if it no longer fits. Reservations
+    // are checked one at a time, so transactions confirmed together can't overshoot the budgets.
+    async reserve(userId: number, signature: string, lamports: number, now = Date.now()): Promise<boolean> {
+        const reservation = this.reservations.catch(() => undefined).then(async () => {
+            const { spent, spentByUser } = await this.spentToday(userId, now);
+            if (lamports > this.budgets.maxFeeLamports ||
+                spent + lamports > this.budgets.dailyLamports ||
+                spentByUser + lamports > this.budgets.perUserDailyLamports) {
+                return false;
+            }
+            await this.record(userId, signature, lamports, now);
+            return true;
+        });
+        this.reservations = reservation;
+        return reservation;
+    }
+
+    async record(userId: number, signature: string, lamports: number, now = Date.now()): Promise<void> {
+        await this.ledger.record({ userId, signature, lamports, at: now });
+    }
+
+    async forget(userId: number): Promise<void> {
+        await this.ledger.forget(userId);
+    }
+
+    private async spentToday(userId: number, now: number): Promise<{ spent: number; spentByUser: number }> {
+        const fees = await this.ledger.since(startOfUtcDay(now));
+        return {
+            spent: fees.reduce((total, fee) => total + fee.lamports, 0),
+            spentByUser: fees.filter((fee) => fee.userId === userId).reduce((total, fee) => total + fee.lamports, 0)
+        };
+    }
+}
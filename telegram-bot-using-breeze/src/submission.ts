@@ -0,0 +1,195 @@
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetProgram,
+    Connection,
+    TransactionError,
+    TransactionMessage,
+    VersionedTransaction
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+
+const SET_COMPUTE_UNIT_PRICE = 3; // ComputeBudget instruction discriminator
+export const SUBMISSION_STATUSES = ['sent', 'processed', 'confirmed', 'finalized'] as const;
+export type SubmissionStatus = typeof SUBMISSION_STATUSES[number];
+
+export interface SubmitOptions {
+    commitment?: 'confirmed' | 'finalized';
+    rebroadcastIntervalMs: number;
+    timeoutMs?: number;
+    onStatus?: (status: SubmissionStatus, signature: string) => Promise<unknown> | void; // called once per new status
+}
+
+// The blockhash expired before any validator included the transaction; nothing happened on-chain
+export class TransactionDroppedError extends Error {
+    constructor(public signature: string) {
+        super(`Transaction ${signature} was dropped before it was confirmed`);
+        this.name = 'TransactionDroppedError';
+    }
+}
+
+// The transaction landed but one of its instructions failed, so only the fee was charged
+export class TransactionFailedError extends Error {
+    constructor(public signature: string, public reason: string, public logs: string[]) {
+        super(`Transaction ${signature} failed on-chain: ${reason}`);
+        this.name = 'TransactionFailedError';
+    }
+}
+
+// Still unresolved when the timeout ran out; it may land later, so nothing should be resent blindly
+export class TransactionTimeoutError extends Error {
+    constructor(public signature: string, public lastStatus: SubmissionStatus) {
+        super(`Transaction ${signature} was not ${lastStatus === 'sent' ? 'confirmed' : 'finalized'} in time`);
+        this.name = 'TransactionTimeoutError';
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function describeTransactionError(err: TransactionError | string): string {
+    if (typeof err === 'object' && err !== null && 'InstructionError' in err) {
+        const [index, detail] = (err as { InstructionError: [number, unknown] }).InstructionError;
+        if (typeof detail === 'object' && detail !== null && 'Custom' in detail) {
+            return `instruction ${index} failed with custom program error 0x${Number((detail as { Custom: number }).Custom).toString(16)}`;
+        }
+        return `instruction ${index} failed: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}`;
+    }
+    return typeof err === 'string' ? err : JSON.stringify(err);
+}
+
+async function loadLookupTables(connection: Connection, transaction: VersionedTransaction): Promise<AddressLookupTableAccount[] | undefined> {
+    const tables: AddressLookupTableAccount[] = [];
+
+    for (const lookup of transaction.message.addressTableLookups) {
+        const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+        if (!value) {
+            return undefined;
+        }
+        tables.push(value);
+    }
+
+    return tables;
+}
+
+// Prepends a compute-unit price to an unsigned transaction. Transactions that are already priced,
+// carry signatures from the server or use lookup tables that can't be loaded are returned unchanged.
+export async function withComputeUnitPrice(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    microLamports: number
+): Promise<VersionedTransaction> {
+    if (microLamports <= 0) {
+        return transaction;
+    }
+
+    // Changing the message would invalidate signatures the server already added
+    if (transaction.signatures.some((signature) => signature.some((byte) => byte !== 0))) {
+        return transaction;
+    }
+
+    const lookupTables = await loadLookupTables(connection, transaction);
+    if (!lookupTables) {
+        return transaction;
+    }
+
+    const message = TransactionMessage.decompile(transaction.message, { addressLookupTableAccounts: lookupTables });
+    const priced = message.instructions.some((instruction) =>
+        instruction.programId.equals(ComputeBudgetProgram.programId) && instruction.data[0] === SET_COMPUTE_UNIT_PRICE
+    );
+    if (priced) {
+        return transaction;
+    }
+
+    message.instructions.unshift(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+
+    return new VersionedTransaction(
+        transaction.version === 'legacy' ? message.compileToLegacyMessage() : message.compileToV0Message(lookupTables)
+    );
+}
+
+async function transactionFailedError(connection: Connection, signature: string, err: TransactionError): Promise<TransactionFailedError> {
+    let logs: string[] = [];
+
+    try {
+        const details = await connection.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+        logs = details?.meta?.logMessages ?? [];
+    } catch (error) {
+        console.error('Error fetching transaction logs:', error);
+    }
+
+    return new TransactionFailedError(signature, describeTransactionError(err), logs);
+}
+
+// Sends a signed transaction and rebroadcasts it until it reaches the requested commitment or its
+// blockhash expires, reporting each status change along the way. Throws TransactionDroppedError,
+// TransactionFailedError or TransactionTimeoutError when it doesn't get there.
+export async function submitTransaction(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    options: SubmitOptions
+): Promise<string> {
+    const startedAt = Date.now();
+    const rawTransaction = transaction.serialize();
+    const signature = bs58.encode(transaction.signatures[0]);
+
+    // No blockhash outlives the newest one, so the transaction's validity window ends by this height
+    const { lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+
+    // Preflight on the first send surfaces expired blockhashes and simulation errors straight away
+    await connection.sendRawTransaction(rawTransaction, { skipPreflight: false, maxRetries: 0 });
+    await options.onStatus?.('sent', signature);
+
+    return waitForCommitment(connection, signature, options, startedAt, { rawTransaction, lastValidBlockHeight });
+}
+
+// Follows a transaction that was sent elsewhere, such as from the user's own wallet, until it reaches
+// the requested commitment. Throws TransactionFailedError or TransactionTimeoutError when it doesn't.
+export async function trackTransaction(connection: Connection, signature: string, options: SubmitOptions): Promise<string> {
+    return waitForCommitment(connection, signature, options, Date.now());
+}
+
+async function waitForCommitment(
+    connection: Connection,
+    signature: string,
+    options: SubmitOptions,
+    startedAt: number,
+    broadcast?: { rawTransaction: Uint8Array; lastValidBlockHeight: number } // only known for transactions sent from here
+): Promise<string> {
+    const commitment = options.commitment ?? 'confirmed';
+    let reported: SubmissionStatus = 'sent';
+
+    for (;;) {
+        const expired = broadcast !== undefined && await connection.getBlockHeight('confirmed') > broadcast.lastValidBlockHeight;
+        const { value: [status] } = await connection.getSignatureStatuses([signature]);
+
+        if (status?.err) {
+            throw await transactionFailedError(connection, signature, status.err);
+        }
+        const current = status?.confirmationStatus;
+        if (current && SUBMISSION_STATUSES.indexOf(current) > SUBMISSION_STATUSES.indexOf(reported)) {
+            reported = current;
+            await options.onStatus?.(reported, signature);
+        }
+        if (SUBMISSION_STATUSES.indexOf(reported) >= SUBMISSION_STATUSES.indexOf(commitment)) {
+            return signature;
+        }
+        if (!status && expired) {
+            throw new TransactionDroppedError(signature);
+        }
+        if (options.timeoutMs !== undefined && Date.now() - startedAt >= options.timeoutMs) {
+            throw new TransactionTimeoutError(signature, reported);
+        }
+
+        await sleep(options.rebroadcastIntervalMs);
+
+        // Once a validator has seen it there is nothing to gain from sending it again
+        if (!status && broadcast) {
+            try {
+                await connection.sendRawTransaction(broadcast.rawTransaction, { skipPreflight: true, maxRetries: 0 });
+            } catch (error) {
+                console.error('Error rebroadcasting transaction:', error);
+            }
+        }
+    }
+}
@@ -0,0 +1,57 @@
+import { PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+
+// Token decimals configuration
+export const TOKEN_DECIMALS = {
+    USDC: 6,
+    USDT: 6,
+    PYUSD: 6,
+    USDS: 6,
+    SOL: 9
+};
+
+// Token mint addresses (mainnet)
+export const TOKEN_MINTS = {
+    USDC: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    USDT: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY7xgxACzBn3wqHg',
+    PYUSD: 'CXk2AMBfi3TwaEL2468s6zP8xq9NxTXjp9gjMgzeUynM',
+    USDS: '2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo'
+};
+
+export type TokenSymbol = keyof typeof TOKEN_MINTS;
+
+// Token program each mint belongs to; its accounts, ATAs included, are derived under that program
+export const TOKEN_PROGRAM_IDS: Record<TokenSymbol, PublicKey> = {
+    USDC: TOKEN_PROGRAM_ID,
+    USDT: TOKEN_PROGRAM_ID,
+    PYUSD: TOKEN_2022_PROGRAM_ID,
+    USDS: TOKEN_PROGRAM_ID
+};
+
+// FIXED: Better decimal handling for token amounts
+export function convertToTokenAmount(humanAmount: number, tokenSymbol: string): bigint {
+    const decimals = TOKEN_DECIMALS[tokenSymbol as keyof typeof TOKEN_DECIMALS] || 6;
+
+    // Use string manipulation for precise decimal handling
+    const amountStr = humanAmount.toFixed(decimals);
+    const [integerPart, decimalPart = ''] = amountStr.split('.');
+
+    // Pad decimal part to required length
+    const paddedDecimal = decimalPart.padEnd(decimals, '0').slice(0, decimals);
+
+    // Combine and convert to bigint
+    const fullAmountStr = integerPart + paddedDecimal;
+    return BigInt(fullAmountStr);
+}
+
+export function convertFromTokenAmount(tokenAmount: bigint, tokenSymbol: string): number {
+    const decimals = TOKEN_DECIMALS[tokenSymbol as keyof typeof TOKEN_DECIMALS] || 6;
+    const divisor = BigInt(10 ** decimals);
+
+    // Convert to number with proper decimal places
+    const integerPart = Number(tokenAmount / divisor);
+    const remainder = tokenAmount % divisor;
+    const decimalPart = Number(remainder) / Number(divisor);
+
+    return integerPart + decimalPart;
+}
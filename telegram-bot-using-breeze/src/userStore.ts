@@ -0,0 +1,278 @@
+import { Keypair } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+import bs58 from 'bs58';
+import { Conversation } from './conversation.js';
+import { SealedKey } from './keyVault.js';
+
+export interface UserData {
+    keypair?: Keypair; // only present while the wallet is unlocked, never persisted
+    sealedKey?: SealedKey;
+    unlockedUntil?: number;
+    publicKey?: string;
+    watchOnly?: boolean; // only the public key is known; transactions are signed in the user's own wallet
+    walletName?: string; // the active wallet's; unset until its key is sealed
+    otherWallets?: SavedWallet[]; // wallets besides the active one
+    newWalletName?: string; // name for the wallet being added, applied once its key exists
+    conversation?: Conversation; // text input the bot is waiting for
+    menuMessageId?: number; // the only menu whose buttons still work
+    replacement?: WalletReplacement;
+    signingRequests?: SigningRequest[];
+    secretMessages?: SecretMessage[]; // shown keys still waiting to be deleted from the private chat
+    revision?: string; // changes on every save, so replicas sharing the store notice each other's writes
+    pendingTransaction?: {
+        serializedTx: string;
+        type: 'deposit' | 'withdraw';
+        amount?: number;
+        asset?: string;
+        fundId?: string;
+        all?: boolean; // requested with all=true, kept for rebuilding
+        signingRequestId?: string; // Solana Pay request serving it to a watch-only wallet
+        feePayer?: string; // the operator's fee payer, when gasless mode covers the fees
+        sponsoredLamports?: number; // what the fee payer spends on it, from the simulation
+        sponsoredMessage?: string; // base64 message that simulation ran on; the fee payer signs nothing else
+        createdAt: number; // ms since epoch
+        expiresAt: number;
+    };
+}
+
+// A wallet that isn't active; switching to it swaps it with the active one
+export interface SavedWallet {
+    name: string;
+    sealedKey?: SealedKey; // absent for watch-only wallets
+    publicKey: string;
+    watchOnly?: boolean;
+}
+
+// A pending transaction offered to a watch-only wallet over Solana Pay, watched for on-chain until it
+// lands. Kept with the user so that whichever replica the wallet reaches can serve it.
+export interface SigningRequest {
+    id: string; // starts with the user id, followed by a dot
+    wallet: string; // the watch-only wallet that has to sign
+    pendingTransaction: NonNullable<UserData['pendingTransaction']>; // the one served, for the status message
+    blockhashes: string[]; // of every transaction served to the wallet
+    until?: string; // the wallet's newest signature before the request; older ones can't be it
+    expiresAt: number;
+}
+
+export interface SecretMessage {
+    messageId: number;
+    deleteAt: number; // ms since epoch
+}
+
+// New wallet that funds are being moved to; kept until the move completes so a retry reuses it
+export interface WalletReplacement {
+    sealedKey: SealedKey; // sealed with the same passphrase as the current wallet
+    publicKey: string;
+}
+
+// JSON-safe shape of UserData as written by persistent stores
+interface StoredUserData {
+    secretKey?: string; // base58 encoded, only written by versions before key sealing
+    sealedKey?: SealedKey;
+    publicKey?: string;
+    watchOnly?: boolean;
+    walletName?: string;
+    otherWallets?: SavedWallet[];
+    newWalletName?: string;
+    conversation?: Conversation;
+    menuMessageId?: number;
+    replacement?: WalletReplacement;
+    signingRequests?: SigningRequest[];
+    secretMessages?: SecretMessage[];
+    revision?: string;
+    pendingTransaction?: UserData['pendingTransaction'];
+}
+
+export interface UserStore {
+    get(userId: number): Promise<UserData | undefined>;
+    set(userId: number, userData: UserData): Promise<void>;
+    delete(userId: number): Promise<void>;
+    userIds(): Promise<number[]>;
+}
+
+function serializeUserData(userData: UserData): StoredUserData {
+    return {
+        sealedKey: userData.sealedKey,
+        publicKey: userData.publicKey,
+        watchOnly: userData.watchOnly,
+        walletName: userData.walletName,
+        otherWallets: userData.otherWallets,
+        newWalletName: userData.newWalletName,
+        conversation: userData.conversation,
+        menuMessageId: userData.menuMessageId,
+        replacement: userData.replacement,
+        signingRequests: userData.signingRequests,
+        secretMessages: userData.secretMessages,
+        revision: userData.revision,
+        pendingTransaction: userData.pendingTransaction
+    };
+}
+
+function deserializeUserData(stored: StoredUserData): UserData {
+    return {
+        keypair: stored.secretKey ? Keypair.fromSecretKey(bs58.decode(stored.secretKey)) : undefined,
+        sealedKey: stored.sealedKey,
+        publicKey: stored.publicKey,
+        watchOnly: stored.watchOnly,
+        walletName: stored.walletName,
+        otherWallets: stored.otherWallets,
+        newWalletName: stored.newWalletName,
+        conversation: stored.conversation,
+        menuMessageId: stored.menuMessageId,
+        replacement: stored.replacement,
+        signingRequests: stored.signingRequests,
+        secretMessages: stored.secretMessages,
+        revision: stored.revision,
+        pendingTransaction: stored.pendingTransaction
+    };
+}
+
+const LOCK_RETRY_MS = 10;
+const STALE_LOCK_MS = 10_000;
+
+// Keeps everything in process memory; state is lost on restart
+export class InMemoryUserStore implements UserStore {
+    private users: Map<number, UserData> = new Map();
+
+    async get(userId: number): Promise<UserData | undefined> {
+        return this.users.get(userId);
+    }
+
+    async set(userId: number, userData: UserData): Promise<void> {
+        this.users.set(userId, userData);
+    }
+
+    async delete(userId: number): Promise<void> {
+        this.users.delete(userId);
+    }
+
+    async userIds(): Promise<number[]> {
+        return [...this.users.keys()];
+    }
+}
+
+// Persists all users to a single JSON file, rewritten atomically on every change. Replicas may share
+// the file: it is read again whenever it changed, and each write applies one user's change to the
+// latest contents while holding a lock file.
+export class FileUserStore implements UserStore {
+    private cache?: { users: Map<number, StoredUserData>; version: string };
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string) {}
+
+    async get(userId: number): Promise<UserData | undefined> {
+        const stored = (await this.load()).get(userId);
+        return stored ? deserializeUserData(stored) : undefined;
+    }
+
+    async set(userId: number, userData: UserData): Promise<void> {
+        const stored = serializeUserData(userData);
+
+        await this.update((users) => {
+            // Keep a legacy plaintext key until the user seals it, otherwise a restart would lose the wallet
+            const previous = users.get(userId);
+            if (previous?.secretKey && !stored.sealedKey) {
+                stored.secretKey = previous.secretKey;
+            }
+            users.set(userId, stored);
+        });
+    }
+
+    async delete(userId: number): Promise<void> {
+        await this.update((users) => users.delete(userId));
+    }
+
+    async userIds(): Promise<number[]> {
+        return [...(await this.load()).keys()];
+    }
+
+    // Every rename replaces the inode, so a changed file never looks like the one cached
+    private async load(): Promise<Map<number, StoredUserData>> {
+        let version: string;
+        try {
+            const stats = await fs.stat(this.filePath);
+            version = `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            version = 'missing';
+        }
+
+        if (this.cache?.version !== version) {
+            this.cache = { users: await this.readFile(), version };
+        }
+        return this.cache.users;
+    }
+
+    private async readFile(): Promise<Map<number, StoredUserData>> {
+        try {
+            const contents = await fs.readFile(this.filePath, 'utf8');
+            const parsed = JSON.parse(contents) as Record<string, StoredUserData>;
+            return new Map(Object.entries(parsed).map(([userId, stored]) => [Number(userId), stored]));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            return new Map();
+        }
+    }
+
+    // Writes are chained so concurrent updates never interleave on disk
+    private update(change: (users: Map<number, StoredUserData>) => void): Promise<void> {
+        // A failed write must not block the ones queued behind it
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(() => this.withLock(async () => {
+            const users = new Map(await this.load());
+            change(users);
+
+            const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(users), null, 2), { mode: 0o600 });
+            await fs.rename(tmpPath, this.filePath);
+        }));
+
+        return this.writeQueue;
+    }
+
+    // Other processes writing the same file take turns through an exclusively created lock file.
+    // One left behind by a process that died while holding it is taken over once it goes stale.
+    private async withLock(action: () => Promise<void>): Promise<void> {
+        const lockPath = `${this.filePath}.lock`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        for (;;) {
+            try {
+                await (await fs.open(lockPath, 'wx')).close();
+                break;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            const lockedAt = await fs.stat(lockPath).then((stats) => stats.mtimeMs, () => undefined);
+            if (lockedAt !== undefined && Date.now() - lockedAt > STALE_LOCK_MS) {
+                await fs.rm(lockPath, { force: true });
+            } else if (lockedAt !== undefined) {
+                await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+            }
+        }
+
+        try {
+            await action();
+        } finally {
+            await fs.rm(lockPath, { force: true });
+        }
+    }
+}
+
+export function createUserStore(type: string, filePath: string): UserStore {
+    switch (type) {
+        case 'memory':
+            return new InMemoryUserStore();
+        case 'file':
+            return new FileUserStore(filePath);
+        default:
+            throw new Error(`Unknown USER_STORE type: ${type}`);
+    }
+}
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+import {
+    AddressLookupTableAccount,
+    ComputeBudgetProgram,
+    Connection,
+    MessageAccountKeys,
+    PublicKey,
+    TransactionInstruction,
+    VersionedTransaction
+} from '@solana/web3.js';
+import {
+    ACCOUNT_SIZE,
+    AccountLayout,
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    decodeInstruction,
+    getAssociatedTokenAddressSync,
+    isTransferCheckedInstruction,
+    isTransferInstruction,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID
+} from '@solana/spl-token';
+import { BalanceChange } from './simulation.js';
+import { convertToTokenAmount, TokenSymbol } from './tokens.js';
+
+export interface ExpectedTransaction {
+    type: 'deposit' | 'withdraw';
+    user: PublicKey;
+    feePayer?: PublicKey; // defaults to the user
+    mint: PublicKey;
+    tokenProgramId: PublicKey; // the mint's token program, SPL Token or Token-2022
+    amount: bigint; // confirmed amount in token units
+    breezeProgramIds: PublicKey[];
+}
+
+export class UnsafeTransactionError extends Error {
+    constructor(public problems: string[]) {
+        super(`Transaction failed safety checks: ${problems.join('; ')}`);
+        this.name = 'UnsafeTransactionError';
+    }
+}
+
+interface TokenTransfer {
+    source: PublicKey;
+    destination: PublicKey;
+    authority: PublicKey;
+    amount: bigint;
+    mint?: PublicKey; // only known for TransferChecked
+}
+
+const TOKEN_PROGRAM_IDS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID];
+
+function isTokenProgram(programId: PublicKey): boolean {
+    return TOKEN_PROGRAM_IDS.some((tokenProgram) => tokenProgram.equals(programId));
+}
+
+function shortKey(key: PublicKey): string {
+    const base58 = key.toBase58();
+    return `${base58.slice(0, 4)}...${base58.slice(-4)}`;
+}
+
+async function loadLookupTables(connection: Connection, transaction: VersionedTransaction): Promise<AddressLookupTableAccount[]> {
+    const tables: AddressLookupTableAccount[] = [];
+
+    for (const lookup of transaction.message.addressTableLookups) {
+        const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+        if (!value) {
+            throw new UnsafeTransactionError([`address lookup table ${shortKey(lookup.accountKey)} could not be loaded`]);
+        }
+        tables.push(value);
+    }
+
+    return tables;
+}
+
+function toInstructions(transaction: VersionedTransaction, accountKeys: MessageAccountKeys): TransactionInstruction[] {
+    const message = transaction.message;
+
+    return message.compiledInstructions.map((instruction) => new TransactionInstruction({
+        programId: accountKeys.get(instruction.programIdIndex)!,
+        keys: instruction.accountKeyIndexes.map((index) => ({
+            pubkey: accountKeys.get(index)!,
+            isSigner: message.isAccountSigner(index),
+            isWritable: message.isAccountWritable(index)
+        })),
+        data: Buffer.from(instruction.data)
+    }));
+}
+
+// Owners of token accounts, taken from ATA creations in the transaction or from chain state
+async function resolveTokenAccountOwners(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    accounts: PublicKey[]
+): Promise<Map<string, PublicKey>> {
+    const owners: Map<string, PublicKey> = new Map();
+
+    for (const instruction of instructions) {
+        if (instruction.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) && instruction.keys.length >= 3) {
+            owners.set(instruction.keys[1].pubkey.toBase58(), instruction.keys[2].pubkey);
+        }
+    }
+
+    const unknown = accounts.filter((account) => !owners.has(account.toBase58()));
+    const infos = unknown.length > 0 ? await connection.getMultipleAccountsInfo(unknown) : [];
+    infos.forEach((info, index) => {
+        // Token-2022 accounts share the layout, with extensions after it
+        if (info && isTokenProgram(info.owner) && info.data.length >= ACCOUNT_SIZE) {
+            owners.set(unknown[index].toBase58(), AccountLayout.decode(info.data.subarray(0, ACCOUNT_SIZE)).owner);
+        }
+    });
+
+    return owners;
+}
+
+// Checks a server-built transaction before the user signs it. Every problem found is collected
+// and thrown together as an UnsafeTransactionError.
+export async function verifyTransaction(
+    connection: Connection,
+    transaction: VersionedTransaction,
+    expected: ExpectedTransaction
+): Promise<void> {
+    const problems: string[] = [];
+    const message = transaction.message;
+    const feePayer = expected.feePayer ?? expected.user;
+    const staticKeys = message.staticAccountKeys;
+    const signerCount = message.header.numRequiredSignatures;
+
+    // Signers
+    if (!staticKeys[0]?.equals(feePayer)) {
+        problems.push(`fee payer is ${staticKeys[0] ? shortKey(staticKeys[0]) : 'missing'}, expected ${shortKey(feePayer)}`);
+    }
+    const signers = staticKeys.slice(0, signerCount);
+    if (!signers.some((signer) => signer.equals(expected.user))) {
+        problems.push('your wallet is not a signer');
+    }
+    signers.forEach((signer, index) => {
+        const presigned = transaction.signatures[index]?.some((byte) => byte !== 0);
+        if (!signer.equals(expected.user) && !signer.equals(feePayer) && !presigned) {
+            problems.push(`unexpected signer ${shortKey(signer)}`);
+        }
+    });
+
+    const accountKeys = message.getAccountKeys({ addressLookupTableAccounts: await loadLookupTables(connection, transaction) });
+    const instructions = toInstructions(transaction, accountKeys);
+
+    // Programs
+    const allowedPrograms = [
+        ComputeBudgetProgram.programId,
+        ...TOKEN_PROGRAM_IDS,
+        ASSOCIATED_TOKEN_PROGRAM_ID,
+        ...expected.breezeProgramIds
+    ];
+    for (const instruction of instructions) {
+        if (!allowedPrograms.some((program) => program.equals(instruction.programId))) {
+            problems.push(`invokes unexpected program ${shortKey(instruction.programId)}`);
+        }
+    }
+
+    // Token instructions
+    const transfers: TokenTransfer[] = [];
+    for (const instruction of instructions.filter((candidate) => isTokenProgram(candidate.programId))) {
+        let decoded: ReturnType<typeof decodeInstruction> | undefined;
+        try {
+            decoded = decodeInstruction(instruction, instruction.programId);
+        } catch (error) {
+            decoded = undefined;
+        }
+
+        if (decoded && isTransferInstruction(decoded)) {
+            const { source, destination, owner } = decoded.keys;
+            transfers.push({ source: source.pubkey, destination: destination.pubkey, authority: owner.pubkey, amount: decoded.data.amount });
+        } else if (decoded && isTransferCheckedInstruction(decoded)) {
+            const { source, mint, destination, owner } = decoded.keys;
+            transfers.push({
+                source: source.pubkey,
+                destination: destination.pubkey,
+                authority: owner.pubkey,
+                amount: decoded.data.amount,
+                mint: mint.pubkey
+            });
+        } else if (instruction.keys.some((key) => key.isSigner && key.pubkey.equals(expected.user))) {
+            // Approvals, authority changes, burns and closes could hand over the user's tokens
+            problems.push('contains a token instruction other than a transfer that your wallet signs');
+        }
+    }
+
+    const owners = await resolveTokenAccountOwners(connection, instructions, transfers.map((transfer) => transfer.destination));
+    const userTokenAccount = getAssociatedTokenAddressSync(expected.mint, expected.user, false, expected.tokenProgramId);
+    let outgoing = BigInt(0);
+
+    for (const transfer of transfers) {
+        const destinationOwner = owners.get(transfer.destination.toBase58());
+
+        if (transfer.authority.equals(expected.user)) {
+            if (expected.type === 'withdraw') {
+                problems.push('a withdrawal must not move tokens out of your wallet');
+                continue;
+            }
+            if (transfer.mint ? !transfer.mint.equals(expected.mint) : !transfer.source.equals(userTokenAccount)) {
+                problems.push('transfers a different token than the one confirmed');
+            }
+            // Breeze vaults are owned by program-derived addresses, never by a regular wallet
+            if (!destinationOwner || PublicKey.isOnCurve(destinationOwner.toBytes())) {
+                problems.push(`sends tokens to ${shortKey(transfer.destination)}, which is not a Breeze vault`);
+            }
+            outgoing += transfer.amount;
+        } else if (!destinationOwner || !destinationOwner.equals(expected.user)) {
+            problems.push(`sends tokens to ${shortKey(transfer.destination)} instead of your wallet`);
+        }
+    }
+
+    if (outgoing > expected.amount) {
+        problems.push(`transfers ${outgoing} token units, more than the ${expected.amount} confirmed`);
+    }
+
+    if (problems.length > 0) {
+        throw new UnsafeTransactionError(problems);
+    }
+}
+
+// The amount check in verifyTransaction only sees top-level transfers, but Breeze moves deposits
+// through its own program. The simulated balance changes catch tokens leaving the wallet that way.
+export function verifyBalanceChanges(
+    changes: BalanceChange[],
+    expected: Pick<ExpectedTransaction, 'type' | 'amount'> & { asset: TokenSymbol }
+): void {
+    const problems: string[] = [];
+
+    for (const { symbol, delta } of changes) {
+        if (symbol === 'SOL' || delta >= 0) {
+            continue;
+        }
+        const outgoing = convertToTokenAmount(-delta, symbol);
+        if (symbol !== expected.asset) {
+            problems.push(`moves ${-delta} ${symbol} out of your wallet, which was not confirmed`);
+        } else if (expected.type === 'withdraw') {
+            problems.push('a withdrawal must not move tokens out of your wallet');
+        } else if (outgoing > expected.amount) {
+            problems.push(`moves ${outgoing} token units out of your wallet, more than the ${expected.amount} confirmed`);
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new UnsafeTransactionError(problems);
+    }
+}
+
+// Whether the signer is one of the transaction's signers and its signature covers this exact message
+export function isSignedBy(transaction: VersionedTransaction, signer: PublicKey): boolean {
+    const message = transaction.message;
+    const index = message.staticAccountKeys.slice(0, message.header.numRequiredSignatures).findIndex((key) => key.equals(signer));
+    if (index < 0) {
+        return false;
+    }
+
+    const publicKey = crypto.createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(signer.toBytes()).toString('base64url') },
+        format: 'jwk'
+    });
+    return crypto.verify(null, message.serialize(), publicKey, transaction.signatures[index]);
+}
@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import http from 'http';
+import TelegramBot from 'node-telegram-bot-api';
+
+const SECRET_TOKEN_HEADER = 'x-telegram-bot-api-secret-token';
+const MAX_BODY_BYTES = 1024 * 1024;
+const HEALTH_PATH = '/healthz';
+
+export interface WebhookServerOptions {
+    path: string; // e.g. /telegram/webhook
+    secretToken: string; // registered with setWebHook; Telegram sends it back with every update
+}
+
+class WebhookError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'WebhookError';
+    }
+}
+
+function secretMatches(received: string | string[] | undefined, expected: string): boolean {
+    if (typeof received !== 'string') {
+        return false;
+    }
+
+    const receivedBytes = Buffer.from(received);
+    const expectedBytes = Buffer.from(expected);
+    return receivedBytes.length === expectedBytes.length && crypto.timingSafeEqual(receivedBytes, expectedBytes);
+}
+
+async function readUpdate(req: http.IncomingMessage): Promise<TelegramBot.Update> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) {
+            throw new WebhookError(413, 'Update too large');
+        }
+        chunks.push(chunk as Buffer);
+    }
+
+    try {
+        const update = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+        if (typeof update?.update_id !== 'number') {
+            throw new Error('missing update_id');
+        }
+        return update as TelegramBot.Update;
+    } catch (error) {
+        throw new WebhookError(400, 'Invalid update');
+    }
+}
+
+// Receives Telegram updates over plain HTTP and hands them to the bot. It is meant to run behind
+// a TLS-terminating proxy or load balancer, which can use /healthz for its health checks.
+export function createWebhookServer(bot: Pick<TelegramBot, 'processUpdate'>, options: WebhookServerOptions): http.Server {
+    const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+        try {
+            if (req.method === 'GET' && path === HEALTH_PATH) {
+                res.writeHead(200, { 'Content-Type': 'text/plain' });
+                res.end('ok');
+                return;
+            }
+            if (path !== options.path) {
+                throw new WebhookError(404, 'Not found');
+            }
+            if (req.method !== 'POST') {
+                throw new WebhookError(405, 'Method not allowed');
+            }
+            if (!secretMatches(req.headers[SECRET_TOKEN_HEADER], options.secretToken)) {
+                throw new WebhookError(401, 'Invalid secret token');
+            }
+
+            bot.processUpdate(await readUpdate(req));
+
+            res.writeHead(200, { 'Content-Type': 'text/plain' });
+            res.end('ok');
+        } catch (error) {
+            const status = error instanceof WebhookError ? error.status : 500;
+            if (status === 500) {
+                console.error('Webhook error:', error);
+            }
+            res.writeHead(status, { 'Content-Type': 'text/plain' });
+            res.end(error instanceof WebhookError ? error.message : 'Internal server error');
+        }
+    };
+
+    return http.createServer((req, res) => {
+        void handle(req, res);
+    });
+}
@@ -0,0 +1,736 @@
+import { Connection, Keypair, PublicKey, TransactionInstruction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import TelegramBot from 'node-telegram-bot-api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BreezeBot } from '../src/bot.js';
+import { callbackData } from '../src/callbacks.js';
+import { TOKEN_MINTS, TokenSymbol } from '../src/tokens.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import {
+    buildTestTransaction,
+    createTestBot,
+    FakeConnection,
+    FakeTelegramBot,
+    setupWallet,
+    StubBreezeClient,
+    TEST_FUNDS,
+    TEST_VAULT_PROGRAM_ID
+} from './helpers.js';
+
+const CHAT_ID = 1001;
+
+function breezePosition(funds: string, amountOfYield = '0', symbol: TokenSymbol = 'USDC', fundId = `${symbol.toLowerCase()}-fund`) {
+    return {
+        data: [{
+            token_address: TOKEN_MINTS[symbol],
+            token_symbol: symbol,
+            token_name: symbol,
+            decimals: 6,
+            total_balance: Number(funds),
+            yield_balance: { fund_id: fundId, funds, amount_of_yield: amountOfYield, fund_apy: 8.5 }
+        }],
+        meta: { page: 1, per_page: 10, total: 1, total_pages: 1, has_more: false }
+    };
+}
+
+describe('handleCallbackQuery before a wallet exists', () => {
+    let telegram: FakeTelegramBot;
+    let userStore: InMemoryUserStore;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        ({ telegram, userStore } = createTestBot());
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('offers to generate, import or watch a wallet on /start', async () => {
+        await telegram.sendText(CHAT_ID, '/start');
+
+        const welcome = telegram.lastMessage(CHAT_ID);
+        expect(welcome?.text).toContain('Welcome to BREEZE INTEGRATION BOT');
+        expect(telegram.buttons(welcome)).toEqual([callbackData('generateKeypair'), callbackData('importKeypair'), callbackData('watchAddress')]);
+    });
+
+    it('generate_keypair shows the new key and asks for a passphrase', async () => {
+        await telegram.tap(CHAT_ID, callbackData('generateKeypair'));
+
+        const messages = telegram.messagesTo(CHAT_ID);
+        expect(messages[0]).toContain('New keypair generated');
+        expect(messages[1]).toContain('Choose a passphrase');
+    });
+
+    it('deletes the generated key message after a while', async () => {
+        await telegram.tap(CHAT_ID, callbackData('generateKeypair'));
+        const secret = telegram.sent.find((message) => message.text.includes('New keypair generated'))!;
+        expect(telegram.buttons(secret)).toEqual([callbackData('dismissSecret')]);
+
+        await vi.advanceTimersByTimeAsync(119_000);
+        expect(telegram.deleted).toEqual([]);
+
+        await vi.advanceTimersByTimeAsync(1_000);
+        expect(telegram.deleted).toEqual([{ chatId: CHAT_ID, messageId: secret.messageId }]);
+    });
+
+    it('deletes the generated key message once saved, without abandoning the passphrase prompt', async () => {
+        await telegram.tap(CHAT_ID, callbackData('generateKeypair'));
+        const secret = telegram.sent.find((message) => message.text.includes('New keypair generated'))!;
+
+        await telegram.tap(CHAT_ID, callbackData('dismissSecret'), secret.messageId);
+        await vi.advanceTimersByTimeAsync(120_000);
+
+        expect(telegram.deleted).toEqual([{ chatId: CHAT_ID, messageId: secret.messageId }]);
+        expect(telegram.callbackAnswers).toEqual([]);
+        expect((await userStore.get(CHAT_ID))?.conversation?.state).toEqual({ step: 'new_passphrase' });
+    });
+
+    describe('after a restart', () => {
+        // A new process on the same store; the old one's timers died with it
+        async function restart() {
+            vi.clearAllTimers();
+            const breezeBot = new BreezeBot(
+                telegram as unknown as TelegramBot,
+                new FakeConnection() as unknown as Connection,
+                new StubBreezeClient(),
+                userStore,
+                TEST_FUNDS
+            );
+            await breezeBot.resumeSecretMessageDeletions();
+        }
+
+        it('still deletes the generated key message on time', async () => {
+            await telegram.tap(CHAT_ID, callbackData('generateKeypair'));
+            const secret = telegram.sent.find((message) => message.text.includes('New keypair generated'))!;
+
+            await restart();
+            await vi.advanceTimersByTimeAsync(119_000);
+            expect(telegram.deleted).toEqual([]);
+
+            await vi.advanceTimersByTimeAsync(1_000);
+            expect(telegram.deleted).toEqual([{ chatId: CHAT_ID, messageId: secret.messageId }]);
+            expect((await userStore.get(CHAT_ID))?.secretMessages).toEqual([]);
+        });
+
+        it('deletes overdue key messages straight away', async () => {
+            await telegram.tap(CHAT_ID, callbackData('generateKeypair'));
+            const secret = telegram.sent.find((message) => message.text.includes('New keypair generated'))!;
+
+            vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 600_000);
+            await restart();
+            await vi.advanceTimersByTimeAsync(0);
+
+            expect(telegram.deleted).toEqual([{ chatId: CHAT_ID, messageId: secret.messageId }]);
+        });
+    });
+
+    it('import_keypair asks for a private key', async () => {
+        await telegram.tap(CHAT_ID, callbackData('importKeypair'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Please send your private key');
+    });
+});
+
+describe('handleCallbackQuery with a wallet', () => {
+    let telegram: FakeTelegramBot;
+    let connection: FakeConnection;
+    let breeze: StubBreezeClient;
+    let publicKey: PublicKey;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        breeze = new StubBreezeClient();
+        const harness = createTestBot(breeze);
+        ({ telegram, connection } = harness);
+        publicKey = await setupWallet(telegram, harness.userStore, CHAT_ID);
+        telegram.sent = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('back_to_main shows balances and the unlocked wallet', async () => {
+        connection.setSolBalance(publicKey, 1.25);
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(42_500_000));
+
+        await telegram.tap(CHAT_ID, callbackData('main'));
+
+        const main = telegram.lastMessage(CHAT_ID);
+        expect(main?.text).toContain('BREEZE INTEGRATION BOT');
+        expect(main?.text).toContain('SOL: 1.2500');
+        expect(main?.text).toContain('USDC: 42.50');
+        expect(main?.text).toContain('🔓 Unlocked');
+        expect(telegram.buttons(main)).toContain(callbackData('lockWallet'));
+    });
+
+    it('lock_wallet locks the wallet and offers to unlock it', async () => {
+        await telegram.tap(CHAT_ID, callbackData('lockWallet'));
+
+        const main = telegram.lastMessage(CHAT_ID);
+        expect(main?.text).toContain('🔒 Locked');
+        expect(telegram.buttons(main)).toContain(callbackData('unlockWallet'));
+    });
+
+    it('unlock_wallet asks for the passphrase', async () => {
+        await telegram.tap(CHAT_ID, callbackData('unlockWallet'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('enter your passphrase to unlock');
+    });
+
+    it('earn_yield shows the earn menu', async () => {
+        await telegram.tap(CHAT_ID, callbackData('earnYield'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('Earn Yield with Breeze');
+        expect(telegram.buttons(menu)).toEqual([callbackData('depositMenu'), callbackData('withdrawMenu'), callbackData('main')]);
+    });
+
+    it('deposit shows the fund catalogue', async () => {
+        await telegram.tap(CHAT_ID, callbackData('depositMenu'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('Deposit to Breeze');
+        expect(menu?.text).toContain('**Test USDC Fund** (USDC)\nLends USDC for testing');
+        expect(menu?.text).toContain('**Test USDT Fund** (USDT)');
+        expect(telegram.buttons(menu)).toEqual([callbackData('deposit', 'usdc-fund'), callbackData('deposit', 'usdt-fund'), callbackData('deposit', 'pyusd-fund'), callbackData('earnYield')]);
+    });
+
+    it('withdraw lists the funds held in Breeze', async () => {
+        breeze.balances = breezePosition('8000000', '0', 'USDT');
+
+        await telegram.tap(CHAT_ID, callbackData('withdrawMenu'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('Test USDT Fund: 8.00 USDT');
+        expect(telegram.buttons(menu)).toEqual([callbackData('withdraw', 'usdt-fund'), callbackData('earnYield')]);
+    });
+
+    it('withdraw shows positions in funds outside the catalogue', async () => {
+        breeze.balances = breezePosition('5000000', '0', 'USDC', 'legacy-fund');
+
+        await telegram.tap(CHAT_ID, callbackData('withdrawMenu'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('legacy-fund: 5.00 USDC');
+        expect(telegram.buttons(menu)).toEqual([callbackData('withdraw', 'legacy-fund'), callbackData('earnYield')]);
+    });
+
+    it("withdraw points to the command for fund ids that don't fit on a button", async () => {
+        breeze.balances = breezePosition('5000000', '0', 'USDC', 'legacy:fund');
+
+        await telegram.tap(CHAT_ID, callbackData('withdrawMenu'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('legacy:fund: 5.00 USDC\n  Withdraw with `/withdraw all legacy:fund`');
+        expect(telegram.buttons(menu)).toEqual([callbackData('earnYield')]);
+    });
+
+    it('withdraw explains when nothing is deposited', async () => {
+        await telegram.tap(CHAT_ID, callbackData('withdrawMenu'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('No funds deposited in Breeze yet');
+        expect(telegram.buttons(menu)).toEqual([callbackData('earnYield')]);
+    });
+
+    it('withdraw_usdt shows the USDT amount picker', async () => {
+        breeze.balances = breezePosition('8000000', '0', 'USDT');
+
+        await telegram.tap(CHAT_ID, callbackData('withdraw', 'usdt-fund'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('Available to withdraw: 8.000000 USDT');
+        expect(telegram.buttons(menu)).toEqual([callbackData('withdraw', 'usdt-fund', '50'), callbackData('withdraw', 'usdt-fund', '100'), callbackData('withdraw', 'usdt-fund', 'custom'), callbackData('withdrawMenu')]);
+    });
+
+    it('deposit_usdc shows the USDC amount picker', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('Available USDC: 10.000000');
+        expect(telegram.buttons(menu)).toEqual([callbackData('deposit', 'usdc-fund', '50'), callbackData('deposit', 'usdc-fund', '100'), callbackData('deposit', 'usdc-fund', 'custom'), callbackData('depositMenu')]);
+    });
+
+    it('deposit_pyusd shows the PYUSD amount picker', async () => {
+        connection.setTokenBalance(publicKey, 'PYUSD', BigInt(3_500_000), TOKEN_2022_PROGRAM_ID);
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'pyusd-fund'));
+
+        const menu = telegram.lastMessage(CHAT_ID);
+        expect(menu?.text).toContain('Available PYUSD: 3.500000');
+        expect(telegram.buttons(menu)).toEqual([callbackData('deposit', 'pyusd-fund', '50'), callbackData('deposit', 'pyusd-fund', '100'), callbackData('deposit', 'pyusd-fund', 'custom'), callbackData('depositMenu')]);
+    });
+
+    it('does not count PYUSD held in an account of the classic token program', async () => {
+        connection.setTokenBalance(publicKey, 'PYUSD', BigInt(3_500_000), TOKEN_PROGRAM_ID);
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'pyusd-fund'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).not.toContain('Available PYUSD: 3.500000');
+    });
+
+    it('ignores deposits into funds outside the catalogue', async () => {
+        connection.setTokenBalance(publicKey, 'USDS', BigInt(10_000_000));
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usds-fund'));
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usds-fund', '100'));
+
+        expect(telegram.sent).toHaveLength(0);
+        expect(breeze.depositRequests).toHaveLength(0);
+    });
+
+    it('deposit_usdc-fund_50 requests half of the exact USDC balance', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_001));
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+
+        expect(breeze.depositRequests).toEqual([{
+            fundId: 'usdc-fund',
+            amount: 5_000_000,
+            all: false,
+            userKey: publicKey.toBase58()
+        }]);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Confirm Deposit');
+        expect(telegram.buttons(telegram.lastMessage(CHAT_ID))).toEqual([callbackData('confirmTransaction'), callbackData('exportTransaction'), callbackData('earnYield')]);
+    });
+
+    it('deposit_usdc-fund_100 requests the full raw balance with all=true', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_001));
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        expect(breeze.depositRequests[0]).toMatchObject({ amount: 10_000_001, all: true });
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('10.000001 USDC');
+    });
+
+    it('deposit_usdt-fund_100 deposits USDT into the USDT fund', async () => {
+        connection.setTokenBalance(publicKey, 'USDT', BigInt(7_000_000));
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdt-fund', '100'));
+
+        expect(breeze.depositRequests).toEqual([{
+            fundId: 'usdt-fund',
+            amount: 7_000_000,
+            all: true,
+            userKey: publicKey.toBase58()
+        }]);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('7.000000 USDT');
+    });
+
+    it('shows the simulated outcome on the confirm screen', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        connection.setSimulatedTokenBalance(publicKey, 'USDC', BigInt(0));
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        expect(connection.simulatedTransactions).toHaveLength(1);
+        const message = telegram.lastMessage(CHAT_ID)?.text;
+        expect(message).toContain('• USDC: -10.00');
+        expect(message).toContain('Compute units: 21,337');
+        expect(message).toContain('Network fee: 0.000005 SOL');
+    });
+
+    it('shows simulated PYUSD changes from its Token-2022 account', async () => {
+        connection.setTokenBalance(publicKey, 'PYUSD', BigInt(3_500_000), TOKEN_2022_PROGRAM_ID);
+        connection.setSimulatedTokenBalance(publicKey, 'PYUSD', BigInt(0));
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'pyusd-fund', '100'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('• PYUSD: -3.50');
+    });
+
+    it('rejects deposits that take more than confirmed inside a Breeze program call', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        connection.setSimulatedTokenBalance(publicKey, 'USDC', BigInt(0));
+        // No top-level token transfer: the Breeze program moves the tokens itself
+        breeze.transactionResponse = Buffer.from(new VersionedTransaction(new TransactionMessage({
+            payerKey: publicKey,
+            recentBlockhash: Keypair.generate().publicKey.toBase58(),
+            instructions: [new TransactionInstruction({
+                programId: TEST_VAULT_PROGRAM_ID,
+                keys: [
+                    { pubkey: publicKey, isSigner: true, isWritable: true },
+                    { pubkey: getAssociatedTokenAddressSync(new PublicKey(TOKEN_MINTS.USDC), publicKey), isSigner: false, isWritable: true }
+                ],
+                data: Buffer.from([1])
+            })]
+        }).compileToV0Message()).serialize()).toString('base64');
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('moves 10000000 token units out of your wallet, more than the 5000000 confirmed');
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('No pending transaction found');
+        expect(connection.sentTransactions).toHaveLength(0);
+    });
+
+    it('blocks confirmation when the simulation fails', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        connection.simulationError = { InstructionError: [1, { Custom: 1 }] };
+        connection.simulationLogs = ['Program log: Instruction: TransferChecked', 'Program log: Error: insufficient funds'];
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        const message = telegram.lastMessage(CHAT_ID);
+        expect(message?.text).toContain('This deposit would fail');
+        expect(message?.text).toContain('{"InstructionError":[1,{"Custom":1}]}');
+        expect(message?.text).toContain('• Program log: Error: insufficient funds');
+        expect(telegram.buttons(message)).not.toContain(callbackData('confirmTransaction'));
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('No pending transaction found');
+        expect(connection.sentTransactions).toHaveLength(0);
+    });
+
+    it('blocks confirmation when the transaction cannot be simulated', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        vi.spyOn(connection, 'simulateTransaction').mockRejectedValue(new Error('RPC unavailable'));
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Unable to simulate the transaction');
+        expect(telegram.buttons(telegram.lastMessage(CHAT_ID))).toEqual([]);
+    });
+
+    it('drops transactions that cannot be decoded', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        breeze.transactionResponse = 'bm90IGEgdHJhbnNhY3Rpb24=';
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toBe('❌ Invalid transaction data.');
+        expect(connection.simulatedTransactions).toHaveLength(0);
+    });
+
+    it('refuses transactions that fail the safety checks', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        breeze.transactionResponse = buildTestTransaction('deposit', {
+            fundId: 'usdc-fund',
+            amount: 20_000_000,
+            all: true,
+            userKey: publicKey.toBase58()
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        const message = telegram.lastMessage(CHAT_ID);
+        expect(message?.text).toContain('failed our safety checks');
+        expect(message?.text).toContain('more than the 10000000 confirmed');
+        expect(connection.simulatedTransactions).toHaveLength(0);
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        expect(connection.sentTransactions).toHaveLength(0);
+    });
+
+    it('rebuilds a stale transaction and asks to confirm it again before signing', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Valid for 60 seconds');
+
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000);
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(breeze.depositRequests).toHaveLength(2);
+        expect(breeze.depositRequests[1]).toEqual(breeze.depositRequests[0]);
+        expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('a fresh one was built for the same amount'));
+        expect(telegram.lastMenu(CHAT_ID)?.text).toContain('Confirm Deposit');
+        expect(connection.simulatedTransactions).toHaveLength(2);
+        expect(connection.sentTransactions).toHaveLength(0);
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        const [sent] = connection.sentTransactions;
+        expect(sent.message.recentBlockhash).toBe(connection.simulatedTransactions[1].message.recentBlockhash);
+    });
+
+    it('rebuilds a stale transaction before exporting it', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000);
+        await telegram.tap(CHAT_ID, callbackData('exportTransaction'));
+
+        expect(telegram.lastMenu(CHAT_ID)?.text).toContain('Confirm Deposit');
+        expect(connection.simulatedTransactions).toHaveLength(2);
+        expect(telegram.photos).toHaveLength(0);
+    });
+
+    it('offers a fresh transaction when the blockhash expired in flight', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        vi.spyOn(connection, 'sendRawTransaction').mockRejectedValueOnce(new Error('Transaction simulation failed: Blockhash not found'));
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        const message = telegram.lastMessage(CHAT_ID);
+        expect(message?.text).toContain('expired before it reached the network');
+        expect(telegram.buttons(message)).toEqual([callbackData('confirmTransaction'), callbackData('earnYield')]);
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        expect(breeze.depositRequests).toHaveLength(2);
+        expect(telegram.lastMenu(CHAT_ID)?.text).toContain('Confirm Deposit');
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        expect(connection.sentTransactions).toHaveLength(1);
+    });
+
+    it('drops the pending transaction when navigating away', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        await telegram.tap(CHAT_ID, callbackData('earnYield'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('No pending transaction found');
+        expect(connection.sentTransactions).toHaveLength(0);
+    });
+
+    it('deposit_usdc-fund_50 refuses an empty balance', async () => {
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+
+        expect(breeze.depositRequests).toHaveLength(0);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Insufficient USDC balance');
+    });
+
+    it('surfaces Breeze error messages', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        breeze.transactionResponse = { message: 'Fund is paused' };
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toBe('❌ Error: Fund is paused');
+    });
+
+    it('deposit_usdc-fund_custom asks for an amount', async () => {
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', 'custom'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('custom USDC amount to deposit');
+    });
+
+    it('withdraw_usdc-fund_50 requests half of the Breeze position', async () => {
+        breeze.balances = breezePosition('8000000');
+
+        await telegram.tap(CHAT_ID, callbackData('withdraw', 'usdc-fund', '50'));
+
+        expect(breeze.withdrawRequests[0]).toMatchObject({ amount: 4_000_000, all: false });
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Confirm Withdraw');
+    });
+
+    it('withdraw_usdt-fund_100 requests the whole USDT position with all=true', async () => {
+        breeze.balances = breezePosition('8000000', '0', 'USDT');
+
+        await telegram.tap(CHAT_ID, callbackData('withdraw', 'usdt-fund', '100'));
+
+        expect(breeze.withdrawRequests[0]).toMatchObject({ fundId: 'usdt-fund', amount: 8_000_000, all: true });
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('8.000000 USDT');
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('🏦 Fund: Test USDT Fund');
+    });
+
+    it('withdraw_legacy-fund_100 withdraws from a fund outside the catalogue', async () => {
+        breeze.balances = breezePosition('5000000', '0', 'USDC', 'legacy-fund');
+
+        await telegram.tap(CHAT_ID, callbackData('withdraw', 'legacy-fund', '100'));
+
+        expect(breeze.withdrawRequests[0]).toMatchObject({ fundId: 'legacy-fund', amount: 5_000_000, all: true });
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('🏦 Fund: legacy-fund');
+    });
+
+    it('finds positions on later pages of Breeze balances', async () => {
+        const firstPage = { ...breezePosition('8000000', '0', 'USDT'), meta: { page: 1, per_page: 1, total: 2, total_pages: 2, has_more: true } };
+        vi.spyOn(breeze, 'getUserBalances').mockImplementation(async (publicKey, page) =>
+            page === 2 ? breezePosition('5000000') : firstPage
+        );
+
+        await telegram.tap(CHAT_ID, callbackData('withdraw', 'usdc-fund', '100'));
+
+        expect(breeze.withdrawRequests[0]).toMatchObject({ fundId: 'usdc-fund', amount: 5_000_000, all: true });
+    });
+
+    it('withdraw_usdc-fund_100 refuses when only another fund is held', async () => {
+        breeze.balances = breezePosition('8000000', '0', 'USDT');
+
+        await telegram.tap(CHAT_ID, callbackData('withdraw', 'usdc-fund', '100'));
+
+        expect(breeze.withdrawRequests).toHaveLength(0);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('No funds available to withdraw');
+    });
+
+    it('withdraw_usdt-fund_custom asks for an amount', async () => {
+        await telegram.tap(CHAT_ID, callbackData('withdraw', 'usdt-fund', 'custom'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('custom USDT amount to withdraw');
+    });
+
+    it('confirm_transaction without a pending transaction', async () => {
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('No pending transaction found');
+        expect(connection.sentTransactions).toHaveLength(0);
+    });
+
+    it('view_balances shows Breeze positions', async () => {
+        breeze.balances = breezePosition('8000000', '250000');
+
+        await telegram.tap(CHAT_ID, callbackData('balances'));
+
+        const message = telegram.lastMessage(CHAT_ID)?.text;
+        expect(message).toContain('Total Portfolio Value:** $8.000000');
+        expect(message).toContain('Total Yield Earned:** $0.250000');
+    });
+
+    it('view_balances reports Breeze outages', async () => {
+        breeze.balances = null;
+
+        await telegram.tap(CHAT_ID, callbackData('balances'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Unable to fetch Breeze balances');
+    });
+
+    it('view_yield_history shows positions', async () => {
+        breeze.yields = {
+            data: [{
+                fund_id: 'test-fund',
+                fund_name: 'Test Fund',
+                base_asset: 'USDC',
+                position_value: '8250000',
+                yield_earned: '250000',
+                apy: '8.5',
+                entry_date: '2025-01-01T00:00:00Z',
+                last_updated: '2025-02-01T00:00:00Z'
+            }],
+            meta: { page: 1, per_page: 10, total: 11, total_pages: 2, has_more: true }
+        };
+
+        await telegram.tap(CHAT_ID, callbackData('yieldHistory', 1));
+
+        const message = telegram.lastMessage(CHAT_ID)?.text;
+        expect(message).toContain('**Test Fund** (USDC)');
+        expect(message).toContain('Total Yield Earned:** $0.25');
+        expect(message).toContain('Page 1 of 2');
+    });
+
+    it('pages through yield history in place', async () => {
+        breeze.yields = { data: [], meta: { page: 1, per_page: 10, total: 11, total_pages: 2, has_more: true } };
+        await telegram.tap(CHAT_ID, callbackData('yieldHistory', 1));
+        const history = telegram.lastMessage(CHAT_ID)!;
+        expect(telegram.buttons(history)).toEqual([callbackData('yieldHistory', 2), callbackData('main')]);
+
+        breeze.yields = { data: [], meta: { page: 2, per_page: 10, total: 11, total_pages: 2, has_more: false } };
+        await telegram.tap(CHAT_ID, callbackData('yieldHistory', 2));
+
+        expect(telegram.lastMessage(CHAT_ID)).toBe(history);
+        expect(history.text).toContain('Page 2 of 2');
+        expect(telegram.buttons(history)).toEqual([callbackData('yieldHistory', 1), callbackData('main')]);
+        expect(breeze.yieldRequests[breeze.yieldRequests.length - 1]).toMatchObject({ page: 2, fundId: undefined });
+    });
+
+    it('filters yield history by fund', async () => {
+        breeze.balances = {
+            data: [...breezePosition('1000000').data, ...breezePosition('2000000', '0', 'USDT').data],
+            meta: { page: 1, per_page: 10, total: 2, total_pages: 1, has_more: false }
+        };
+        await telegram.tap(CHAT_ID, callbackData('yieldHistory', 1));
+        const history = telegram.lastMessage(CHAT_ID)!;
+        expect(telegram.buttons(history)).toEqual([callbackData('yieldHistory', 1), callbackData('yieldHistory', 1, 'usdc-fund'), callbackData('yieldHistory', 1, 'usdt-fund'), callbackData('main')]);
+
+        breeze.yields = { data: [], meta: { page: 1, per_page: 10, total: 11, total_pages: 2, has_more: true } };
+        await telegram.tap(CHAT_ID, callbackData('yieldHistory', 1, 'usdt-fund'));
+
+        expect(telegram.lastMessage(CHAT_ID)).toBe(history);
+        expect(history.text).toContain('Fund:** Test USDT Fund');
+        expect(telegram.buttons(history)).toEqual([callbackData('yieldHistory', 2, 'usdt-fund'), callbackData('yieldHistory', 1), callbackData('yieldHistory', 1, 'usdc-fund'), callbackData('yieldHistory', 1, 'usdt-fund'), callbackData('main')]);
+        expect(breeze.yieldRequests[breeze.yieldRequests.length - 1]).toMatchObject({ page: 1, fundId: 'usdt-fund' });
+    });
+
+    it('view_yield_history reports Breeze outages', async () => {
+        breeze.yields = null;
+
+        await telegram.tap(CHAT_ID, callbackData('yieldHistory', 1));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Unable to fetch yield history');
+    });
+
+    it.each([
+        ['buy', 'Buy functionality'],
+        ['sell', 'Sell functionality'],
+        ['positions', 'No trading positions'],
+        ['limit_orders', 'No limit orders'],
+        ['copy_trade', 'Why copy trades'],
+        ['settings', 'Settings are simple'],
+        ['slippage', 'No slippage worries']
+    ])('%s replies in place with a way back to the main menu', async (feature, expected) => {
+        await telegram.tap(CHAT_ID, callbackData('mockFeature', feature));
+
+        const reply = telegram.lastMessage(CHAT_ID);
+        expect(reply?.text).toContain(expected);
+        expect(reply?.edits).toEqual([expect.stringContaining('BREEZE INTEGRATION BOT')]);
+        expect(telegram.buttons(reply)).toEqual([callbackData('main')]);
+
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(telegram.lastMessage(CHAT_ID)).toBe(reply);
+    });
+
+    it('navigates by editing the menu in place', async () => {
+        await telegram.tap(CHAT_ID, callbackData('main'));
+        const menu = telegram.lastMessage(CHAT_ID)!;
+
+        await telegram.tap(CHAT_ID, callbackData('earnYield'));
+        await telegram.tap(CHAT_ID, callbackData('depositMenu'));
+
+        expect(telegram.sent).toEqual([menu]);
+        expect(menu.text).toContain('Select the fund you want to deposit into');
+    });
+
+    it('disables the previous menu when a new one is sent', async () => {
+        await telegram.tap(CHAT_ID, callbackData('main'));
+        const menu = telegram.lastMessage(CHAT_ID)!;
+
+        await telegram.sendText(CHAT_ID, '/wallet');
+
+        expect(telegram.lastMessage(CHAT_ID)).not.toBe(menu);
+        expect(telegram.buttons(menu)).toEqual([]);
+    });
+
+    it('rejects Confirm on an outdated confirm screen', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        const confirmScreen = telegram.lastMessage(CHAT_ID)!;
+        await telegram.sendText(CHAT_ID, '/start');
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'), confirmScreen.messageId);
+
+        expect(telegram.callbackAnswers).toEqual(['⌛ This menu is out of date. Please use the latest one.']);
+        expect(connection.sentTransactions).toHaveLength(0);
+    });
+
+    it('rejects buttons from an older version of the bot', async () => {
+        await telegram.tap(CHAT_ID, callbackData('main'));
+        const menu = telegram.lastMessage(CHAT_ID)!;
+
+        await telegram.tap(CHAT_ID, 'earn_yield');
+
+        expect(telegram.callbackAnswers).toEqual([expect.stringContaining('older version of the bot')]);
+        expect(telegram.buttons(menu)).toEqual([]);
+        expect(telegram.sent).toEqual([menu]);
+    });
+
+    it('answers callback data without a route', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        await telegram.tap(CHAT_ID, '1:zz');
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund').replace('usdc-fund', 'usdc-fund:25'));
+
+        expect(telegram.callbackAnswers).toEqual(['❓ This button is not supported.', '❓ This button is not supported.']);
+        expect(telegram.sent).toHaveLength(0);
+    });
+});
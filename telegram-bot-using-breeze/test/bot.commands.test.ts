@@ -0,0 +1,211 @@
+import { PublicKey } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { callbackData } from '../src/callbacks.js';
+import { TOKEN_MINTS, TokenSymbol } from '../src/tokens.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import { createTestBot, FakeConnection, FakeTelegramBot, setupWallet, StubBreezeClient } from './helpers.js';
+
+const CHAT_ID = 4004;
+
+function position(symbol: TokenSymbol, fundId: string, funds: string) {
+    return {
+        token_address: TOKEN_MINTS[symbol],
+        token_symbol: symbol,
+        token_name: symbol,
+        decimals: 6,
+        total_balance: Number(funds),
+        yield_balance: { fund_id: fundId, funds, amount_of_yield: '0', fund_apy: 8.5 }
+    };
+}
+
+function yieldEntry(fundName: string, apy: string) {
+    return {
+        fund_id: fundName.toLowerCase(),
+        fund_name: fundName,
+        base_asset: 'USDC',
+        position_value: '1000000',
+        yield_earned: '10000',
+        apy,
+        entry_date: '2025-01-01T00:00:00Z',
+        last_updated: '2025-02-01T00:00:00Z'
+    };
+}
+
+const META = { page: 1, per_page: 10, total: 1, total_pages: 1, has_more: false };
+
+describe('slash commands', () => {
+    let telegram: FakeTelegramBot;
+    let connection: FakeConnection;
+    let breeze: StubBreezeClient;
+    let userStore: InMemoryUserStore;
+    let publicKey: PublicKey;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        breeze = new StubBreezeClient();
+        ({ telegram, connection, userStore } = createTestBot(breeze));
+        publicKey = await setupWallet(telegram, userStore, CHAT_ID);
+        telegram.sent = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('registers the command menu', async () => {
+        const { breezeBot, telegram: fresh } = createTestBot();
+
+        await breezeBot.registerCommands();
+
+        expect(fresh.commands.map(({ command }) => command)).toEqual(['start', 'balance', 'deposit', 'withdraw', 'history', 'apy', 'wallet', 'logout', 'deletemydata', 'cancel', 'help']);
+    });
+
+    it('/help lists every command', async () => {
+        await telegram.sendText(CHAT_ID, '/help');
+
+        const help = telegram.lastMessage(CHAT_ID)?.text;
+        expect(help).toContain('/deposit - Deposit: /deposit <amount|all> [asset]');
+        expect(help).toContain('/wallet - Show your wallet address');
+    });
+
+    it('asks for a wallet before anything else', async () => {
+        await telegram.sendText(9999, '/balance');
+
+        expect(telegram.lastMessage(9999)?.text).toContain('Use /start to set one up');
+    });
+
+    it('/balance shows the detailed balances', async () => {
+        await telegram.sendText(CHAT_ID, '/balance');
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Detailed Breeze Balances');
+    });
+
+    it('/deposit <amount> deposits into the first USDC fund', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(50_000_000));
+
+        await telegram.sendText(CHAT_ID, '/deposit 25');
+
+        expect(breeze.depositRequests).toEqual([{ fundId: 'usdc-fund', amount: 25_000_000, all: false, userKey: publicKey.toBase58() }]);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Confirm Deposit');
+    });
+
+    it('/deposit all <asset> deposits the whole balance of that asset', async () => {
+        connection.setTokenBalance(publicKey, 'USDT', BigInt(7_000_000));
+
+        await telegram.sendText(CHAT_ID, '/deposit all usdt');
+
+        expect(breeze.depositRequests[0]).toMatchObject({ fundId: 'usdt-fund', amount: 7_000_000, all: true });
+    });
+
+    it('/deposit explains bad input', async () => {
+        await telegram.sendText(CHAT_ID, '/deposit');
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Usage: /deposit <amount|all> [asset]');
+
+        await telegram.sendText(CHAT_ID, '/deposit 5 DOGE');
+        expect(telegram.lastMessage(CHAT_ID)?.text).toBe('❌ No Breeze fund for DOGE. Available: USDC, USDT, PYUSD');
+
+        await telegram.sendText(CHAT_ID, '/deposit 1.1234567');
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('USDC supports maximum 6 decimal places');
+
+        expect(breeze.depositRequests).toHaveLength(0);
+    });
+
+    it.each(['Infinity', 'NaN', '1e21', '1e3', '-5'])('/deposit and /withdraw refuse %j as an amount', async (amount) => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(10_000_000));
+        breeze.balances = { data: [position('USDC', 'usdc-fund', '8000000')], meta: META };
+
+        await telegram.sendText(CHAT_ID, `/deposit ${amount}`);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toBe('❌ Please enter a valid amount.');
+
+        await telegram.sendText(CHAT_ID, `/withdraw ${amount} USDC`);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toBe('❌ Please enter a valid amount.');
+
+        expect(breeze.depositRequests).toHaveLength(0);
+        expect(breeze.withdrawRequests).toHaveLength(0);
+    });
+
+    it('/deposit and /withdraw refuse amounts too large for one transaction', async () => {
+        breeze.balances = { data: [position('USDC', 'usdc-fund', '8000000')], meta: META };
+
+        await telegram.sendText(CHAT_ID, '/deposit 10000000000');
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('more USDC than the bot can handle');
+
+        await telegram.sendText(CHAT_ID, `/withdraw ${'9'.repeat(25)}`);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('more USDC than the bot can handle');
+
+        expect(breeze.depositRequests).toHaveLength(0);
+        expect(breeze.withdrawRequests).toHaveLength(0);
+    });
+
+    it('/withdraw 50% withdraws half of the only position', async () => {
+        breeze.balances = { data: [position('USDC', 'usdc-fund', '8000000')], meta: META };
+
+        await telegram.sendText(CHAT_ID, '/withdraw 50%');
+
+        expect(breeze.withdrawRequests[0]).toMatchObject({ fundId: 'usdc-fund', amount: 4_000_000, all: false });
+    });
+
+    it('/withdraw asks which position when several are held', async () => {
+        breeze.balances = { data: [position('USDC', 'usdc-fund', '8000000'), position('USDT', 'usdt-fund', '3000000')], meta: META };
+
+        await telegram.sendText(CHAT_ID, '/withdraw all');
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('/withdraw all usdt-fund (Test USDT Fund)');
+        expect(breeze.withdrawRequests).toHaveLength(0);
+
+        await telegram.sendText(CHAT_ID, '/withdraw all usdt-fund');
+        expect(breeze.withdrawRequests[0]).toMatchObject({ fundId: 'usdt-fund', amount: 3_000_000, all: true });
+    });
+
+    it('/withdraw reports missing positions', async () => {
+        await telegram.sendText(CHAT_ID, '/withdraw 5');
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toBe('❌ No funds deposited in Breeze yet.');
+    });
+
+    it('reports errors escaping a handler instead of crashing', async () => {
+        const errors = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.spyOn(userStore, 'get').mockRejectedValueOnce(new Error('store unavailable'));
+
+        await expect(telegram.sendText(CHAT_ID + 1, '/balance')).resolves.toBeDefined();
+
+        expect(telegram.lastMessage(CHAT_ID + 1)?.text).toBe('❌ Something went wrong. Please try again.');
+        expect(errors).toHaveBeenCalledWith('Error handling update:', expect.any(Error));
+    });
+
+    it('/history [page] requests that page', async () => {
+        await telegram.sendText(CHAT_ID, '/history 3');
+        expect(breeze.yieldRequests[breeze.yieldRequests.length - 1]).toMatchObject({ page: 3 });
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Yield History');
+
+        await telegram.sendText(CHAT_ID, '/history last');
+        expect(telegram.lastMessage(CHAT_ID)?.text).toBe('Usage: /history [page]');
+    });
+
+    it('/apy lists the APY of each position', async () => {
+        breeze.yields = { data: [yieldEntry('Alpha', '8'), yieldEntry('Beta', '10')], meta: META };
+
+        await telegram.sendText(CHAT_ID, '/apy');
+
+        const message = telegram.lastMessage(CHAT_ID)?.text;
+        expect(message).toContain('• Alpha (USDC): 8.00%');
+        expect(message).toContain('**Average:** 9.00%');
+    });
+
+    it('/wallet shows the full address', async () => {
+        await telegram.sendText(CHAT_ID, '/wallet@BreezeBot');
+
+        const message = telegram.lastMessage(CHAT_ID);
+        expect(message?.text).toContain(`\`${publicKey.toBase58()}\``);
+        expect(telegram.buttons(message)).toEqual([callbackData('lockWallet'), callbackData('exportKey'), callbackData('replaceWallet'), callbackData('main')]);
+    });
+
+    it('drops a pending transaction', async () => {
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(50_000_000));
+        await telegram.sendText(CHAT_ID, '/deposit 25');
+
+        await telegram.sendText(CHAT_ID, '/balance');
+
+        expect((await userStore.get(CHAT_ID))?.pendingTransaction).toBeUndefined();
+    });
+});
@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Connection, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FetchBreezeClient } from '../src/breeze/index.js';
+import { callbackData } from '../src/callbacks.js';
+import { createMockBreezeServer } from '../src/mock/breezeServer.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import { createTestBot, FakeConnection, FakeTelegramBot, setupWallet, TEST_PASSPHRASE } from './helpers.js';
+
+const CHAT_ID = 3003;
+
+describe('deposit → confirm → send', () => {
+    let server: http.Server;
+    let telegram: FakeTelegramBot;
+    let connection: FakeConnection;
+    let userStore: InMemoryUserStore;
+    let publicKey: PublicKey;
+
+    beforeEach(async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        // The mock watches the same chain for its transactions to land
+        connection = new FakeConnection();
+        server = createMockBreezeServer({
+            funds: [{ id: 'usdc-fund', name: 'Test USDC Fund', baseAsset: 'USDC', apy: 8.5 }],
+            apiKey: 'test-api-key',
+            connection: connection as unknown as Connection
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+
+        ({ telegram, userStore } = createTestBot(new FetchBreezeClient('test-api-key', `http://127.0.0.1:${port}`), undefined, undefined, connection));
+        publicKey = await setupWallet(telegram, userStore, CHAT_ID);
+        connection.setSolBalance(publicKey, 0.1);
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(20_000_000));
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('signs and sends the Breeze deposit transaction', async () => {
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('💰 Amount: 10.000000 USDC');
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(connection.sentTransactions).toHaveLength(1);
+        const transaction = connection.sentTransactions[0];
+        expect(transaction.message.staticAccountKeys[0].equals(publicKey)).toBe(true);
+        const userKey = crypto.createPublicKey({
+            key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(publicKey.toBytes()).toString('base64url') },
+            format: 'jwk'
+        });
+        expect(crypto.verify(null, transaction.message.serialize(), userKey, transaction.signatures[0])).toBe(true);
+
+        expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('Successfully deposited to Breeze'));
+        expect((await userStore.get(CHAT_ID))?.pendingTransaction).toBeUndefined();
+    });
+
+    it('asks a locked wallet for its passphrase before signing', async () => {
+        await telegram.tap(CHAT_ID, callbackData('lockWallet'));
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '100'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(connection.sentTransactions).toHaveLength(0);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Your wallet is locked');
+
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Confirm Deposit');
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        expect(connection.sentTransactions).toHaveLength(1);
+    });
+
+    it('reports transactions that fail on-chain with the program error and keeps them pending', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        connection.confirmationError = { InstructionError: [2, { Custom: 1 }] };
+        connection.transactionLogs = ['Program log: Instruction: TransferChecked', 'Program log: Error: insufficient funds'];
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        const message = telegram.lastMessage(CHAT_ID)?.text;
+        expect(message).toContain('❌ **Failed on-chain:** `instruction 2 failed with custom program error 0x1`');
+        expect(message).toContain('• `Program log: Error: insufficient funds`');
+        expect((await userStore.get(CHAT_ID))?.pendingTransaction).toBeDefined();
+    });
+
+    it('edits the confirm screen into one status message from sent to finalized', async () => {
+        connection.confirmationStatuses = ['processed', 'confirmed', 'finalized'];
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        const confirmScreen = telegram.lastMessage(CHAT_ID)!;
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        const status = telegram.sent.filter((message) => message.text.startsWith('🌊 **Deposit 10.00 USDC**'));
+        expect(status).toEqual([confirmScreen]);
+        const edits = status[0].edits!;
+        expect(edits[edits.length - 5]).toContain('Confirm Deposit');
+        expect(edits.slice(-4).map((text) => text.match(/⏳ (\w+)/)?.[1])).toEqual(['Processed', 'Confirmed', 'Finalized', undefined]);
+        expect(status[0].text).toContain('✅ Finalized');
+        expect(status[0].text).toContain('Successfully deposited to Breeze');
+
+        const signature = bs58.encode(connection.sentTransactions[0].signatures[0]);
+        expect(status[0].text).toContain(`🔗 Transaction: \`${signature}\``);
+        expect(telegram.buttons(status[0])).toEqual([`https://explorer.solana.com/tx/${signature}`, callbackData('main')]);
+    });
+
+    it('stops waiting when finalization times out', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        connection.confirmationStatuses = ['confirmed'];
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+
+        let now = Date.now();
+        vi.spyOn(Date, 'now').mockImplementation(() => now += 10_000);
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        const message = telegram.lastMessage(CHAT_ID);
+        expect(message?.text).toContain('✅ Confirmed\n▫️ Finalized');
+        expect(message?.text).toContain('finalization is taking longer than usual');
+        expect((await userStore.get(CHAT_ID))?.pendingTransaction).toBeUndefined();
+    });
+
+    it('rebroadcasts until the transaction lands', async () => {
+        connection.landAfterBroadcasts = 3;
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(connection.broadcasts).toBe(3);
+        expect(connection.sentTransactions).toHaveLength(1);
+        expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('Successfully deposited to Breeze'));
+    });
+
+    it('tells dropped transactions apart and offers a fresh one', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        connection.dropTransactions = true;
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        const message = telegram.lastMessage(CHAT_ID);
+        expect(message?.text).toContain('dropped the transaction before it was confirmed');
+        expect(telegram.buttons(message)).toEqual([callbackData('confirmTransaction'), callbackData('earnYield')]);
+        expect(connection.broadcasts).toBeGreaterThan(1);
+
+        connection.dropTransactions = false;
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        expect(telegram.lastMenu(CHAT_ID)?.text).toContain('Confirm Deposit');
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(connection.sentTransactions).toHaveLength(2);
+        expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('Successfully deposited to Breeze'));
+    });
+
+    it('withdraws what was deposited', async () => {
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        await telegram.tap(CHAT_ID, callbackData('withdrawMenu'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Test USDC Fund: 10.00 USDC');
+
+        await telegram.tap(CHAT_ID, callbackData('withdraw', 'usdc-fund', '100'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(connection.sentTransactions).toHaveLength(2);
+        expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('Successfully withdrawn from Breeze'));
+    });
+
+    it('only counts deposits that landed on-chain towards the position', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        connection.dropTransactions = true;
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        connection.dropTransactions = false;
+        connection.confirmationError = { InstructionError: [2, { Custom: 1 }] };
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('Failed on-chain'));
+
+        expect(connection.sentTransactions).toHaveLength(2);
+        await telegram.sendText(CHAT_ID, '/start');
+        await telegram.tap(CHAT_ID, callbackData('withdrawMenu'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('No funds deposited in Breeze yet.');
+    });
+});
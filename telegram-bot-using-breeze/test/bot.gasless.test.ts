@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FetchBreezeClient } from '../src/breeze/index.js';
+import { callbackData } from '../src/callbacks.js';
+import { createMockBreezeServer } from '../src/mock/breezeServer.js';
+import { FeeSponsor, InMemorySponsorshipLedger, SponsorshipBudgets } from '../src/sponsorship.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import { createTestBot, FakeConnection, FakeTelegramBot, setupWallet } from './helpers.js';
+
+const CHAT_ID = 9009;
+
+function isSignedBy(message: Uint8Array, signature: Uint8Array, signer: PublicKey): boolean {
+    const key = crypto.createPublicKey({ key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(signer.toBytes()).toString('base64url') }, format: 'jwk' });
+    return crypto.verify(null, message, key, signature);
+}
+
+describe('gasless mode', () => {
+    let server: http.Server;
+    let breeze: FetchBreezeClient;
+    let telegram: FakeTelegramBot;
+    let connection: FakeConnection;
+    let userStore: InMemoryUserStore;
+    let ledger: InMemorySponsorshipLedger;
+    let payer: Keypair;
+    let publicKey: PublicKey;
+
+    beforeEach(async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+        server = createMockBreezeServer({
+            funds: [{ id: 'usdc-fund', name: 'Test USDC Fund', baseAsset: 'USDC', apy: 8.5 }],
+            apiKey: 'test-api-key'
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        breeze = new FetchBreezeClient('test-api-key', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+        ledger = new InMemorySponsorshipLedger();
+        payer = Keypair.generate();
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    // A new wallet holding USDC and no SOL at all
+    async function start(budgets: Partial<SponsorshipBudgets> = {}) {
+        const sponsor = new FeeSponsor(payer, ledger, { perUserDailyLamports: 100_000, dailyLamports: 1_000_000, maxFeeLamports: 20_000, ...budgets });
+        ({ telegram, connection, userStore } = createTestBot(breeze, undefined, sponsor));
+        connection.setSolBalance(payer.publicKey, 1);
+        publicKey = await setupWallet(telegram, userStore, CHAT_ID);
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(20_000_000));
+    }
+
+    it('has the fee payer co-sign and records what it paid', async () => {
+        await start();
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('🎁 Network fee: 0.000010 SOL, paid by the bot');
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        const [transaction] = connection.sentTransactions;
+        const message = transaction.message.serialize();
+        expect(transaction.message.staticAccountKeys[0].equals(payer.publicKey)).toBe(true);
+        expect(isSignedBy(message, transaction.signatures[0], payer.publicKey)).toBe(true);
+        expect(isSignedBy(message, transaction.signatures[1], publicKey)).toBe(true);
+        expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('Successfully deposited to Breeze'));
+
+        expect(await ledger.since(0)).toEqual([expect.objectContaining({ userId: CHAT_ID, lamports: 10_000 })]);
+    });
+
+    it('simulates a transaction rebuilt after expiring before the fee payer signs it', async () => {
+        await start();
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        (await userStore.get(CHAT_ID))!.pendingTransaction!.expiresAt = 0;
+        const simulations = connection.simulatedTransactions.length;
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(connection.sentTransactions).toHaveLength(0);
+        expect(connection.simulatedTransactions.length).toBeGreaterThan(simulations);
+        expect(telegram.lastMenu(CHAT_ID)?.text).toContain('🎁 Network fee: 0.000010 SOL, paid by the bot');
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(isSignedBy(connection.sentTransactions[0].message.serialize(), connection.sentTransactions[0].signatures[0], payer.publicKey)).toBe(true);
+        expect(await ledger.since(0)).toEqual([expect.objectContaining({ userId: CHAT_ID, lamports: 10_000 })]);
+    });
+
+    it('refuses to co-sign a transaction whose sponsored cost was never simulated', async () => {
+        await start();
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        (await userStore.get(CHAT_ID))!.pendingTransaction!.sponsoredLamports = undefined;
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(connection.sentTransactions).toHaveLength(0);
+        expect(telegram.lastMenu(CHAT_ID)?.text).toContain('only pays fees for transactions it has checked');
+        expect(await ledger.since(0)).toEqual([]);
+    });
+
+    it('keeps transactions confirmed at the same time within the daily budget', async () => {
+        await start({ dailyLamports: 15_000, maxFeeLamports: 10_000 });
+        const otherChatId = CHAT_ID + 1;
+        const otherKey = await setupWallet(telegram, userStore, otherChatId);
+        connection.setTokenBalance(otherKey, 'USDC', BigInt(20_000_000));
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        await telegram.tap(otherChatId, callbackData('deposit', 'usdc-fund', '50'));
+
+        await Promise.all([
+            telegram.tap(CHAT_ID, callbackData('confirmTransaction')),
+            telegram.tap(otherChatId, callbackData('confirmTransaction'))
+        ]);
+
+        expect(connection.sentTransactions).toHaveLength(1);
+        expect(await ledger.since(0)).toHaveLength(1);
+        expect(telegram.lastMenu(otherChatId)?.text).toContain("fee budget ran out before this transaction was sent");
+    });
+
+    it("forgets the user's sponsored fees when they delete their data", async () => {
+        await start();
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        await telegram.sendText(CHAT_ID, '/deletemydata');
+        await telegram.tap(CHAT_ID, callbackData('deleteData'), telegram.lastMessage(CHAT_ID)!.messageId);
+
+        expect(await ledger.since(0)).toEqual([{ lamports: 10_000, at: expect.any(Number) }]);
+    });
+
+    it('leaves the fees to the user once the budget is spent', async () => {
+        await start({ perUserDailyLamports: 20_000 });
+        await ledger.record({ userId: CHAT_ID, signature: 'earlier', lamports: 10_000, at: Date.now() });
+        connection.setSolBalance(publicKey, 0.1);
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('⛽ Network fee: 0.000005 SOL');
+
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        expect(connection.sentTransactions[0].message.staticAccountKeys[0].equals(publicKey)).toBe(true);
+        expect(await ledger.since(0)).toHaveLength(1);
+    });
+
+    it('refuses transactions that would cost the fee payer more than it covers', async () => {
+        await start({ maxFeeLamports: 5000 });
+
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'usdc-fund', '50'));
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('more than the 0.000005 SOL the bot covers per transaction');
+        expect((await userStore.get(CHAT_ID))?.pendingTransaction).toBeUndefined();
+    });
+});
@@ -0,0 +1,132 @@
+import { PublicKey } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { callbackData } from '../src/callbacks.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import { BOT_USERNAME, createTestBot, FakeTelegramBot, setupWallet, StubBreezeClient, TEST_PASSPHRASE } from './helpers.js';
+
+const GROUP_ID = -5005;
+const ALICE = 501;
+const BOB = 502;
+
+describe('group chats', () => {
+    let telegram: FakeTelegramBot;
+    let breeze: StubBreezeClient;
+    let userStore: InMemoryUserStore;
+    let alicePublicKey: PublicKey;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        breeze = new StubBreezeClient();
+        ({ telegram, userStore } = createTestBot(breeze));
+        alicePublicKey = await setupWallet(telegram, userStore, ALICE);
+        telegram.sent = [];
+        breeze.yieldRequests = [];
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('registers only the read-only commands for groups', async () => {
+        const { breezeBot, telegram: fresh } = createTestBot();
+
+        await breezeBot.registerCommands();
+
+        expect(fresh.groupCommands.map(({ command }) => command)).toEqual(['balance', 'history', 'apy', 'help']);
+        expect(fresh.commands.map(({ command }) => command)).toContain('deposit');
+    });
+
+    it("answers stats from the asking member's own session as a reply", async () => {
+        const getUserBalances = vi.spyOn(breeze, 'getUserBalances');
+
+        const command = await telegram.sendText(GROUP_ID, '/balance', ALICE);
+
+        expect(getUserBalances).toHaveBeenCalledWith(alicePublicKey.toBase58(), 1, 100);
+        const reply = telegram.lastMessage(GROUP_ID);
+        expect(reply?.text).toContain('Detailed Breeze Balances');
+        expect(reply?.options?.reply_to_message_id).toBe(command.message_id);
+        expect(telegram.buttons(reply)).toEqual([]);
+    });
+
+    it.each(['/start', '/deposit 10', '/withdraw all', '/wallet'])('sends %s to the private chat', async (text) => {
+        const getUserBalances = vi.spyOn(breeze, 'getUserBalances');
+
+        await telegram.sendText(GROUP_ID, text, ALICE);
+
+        const reply = telegram.lastMessage(GROUP_ID);
+        expect(reply?.text).toContain('only works in a private chat');
+        expect(telegram.buttons(reply)).toEqual([`https://t.me/${BOT_USERNAME}`]);
+        expect(telegram.messagesTo(ALICE)).toEqual([]);
+        expect(breeze.depositRequests).toEqual([]);
+        expect(getUserBalances).not.toHaveBeenCalled();
+    });
+
+    it('does not share a session with members who have no wallet', async () => {
+        await telegram.sendText(GROUP_ID, '/apy', BOB);
+
+        expect(telegram.lastMessage(GROUP_ID)?.text).toContain('You need a wallet first');
+        expect(await userStore.get(GROUP_ID)).toBeUndefined();
+    });
+
+    it('lists only the group commands in /help', async () => {
+        await telegram.sendText(GROUP_ID, '/help', BOB);
+
+        const help = telegram.lastMessage(GROUP_ID)!.text;
+        expect(help).toContain('/history');
+        expect(help).not.toContain('/deposit');
+    });
+
+    it('never reads group messages as prompt input', async () => {
+        await telegram.sendText(ALICE, '/start');
+        await telegram.tap(ALICE, callbackData('lockWallet'));
+        await telegram.tap(ALICE, callbackData('unlockWallet'));
+        telegram.sent = [];
+        telegram.deleted = [];
+
+        await telegram.sendText(GROUP_ID, TEST_PASSPHRASE, ALICE);
+
+        expect(telegram.sent).toEqual([]);
+        expect(telegram.deleted).toEqual([]);
+        expect((await userStore.get(ALICE))?.conversation?.state).toEqual({ step: 'unlock_passphrase' });
+    });
+
+    describe('yield history buttons', () => {
+        beforeEach(async () => {
+            breeze.yields = { data: [], meta: { page: 1, per_page: 10, total: 11, total_pages: 2, has_more: true } };
+            await telegram.sendText(GROUP_ID, '/history', ALICE);
+        });
+
+        it('page the view in place for the member who asked', async () => {
+            const view = telegram.lastMessage(GROUP_ID)!;
+            expect(telegram.buttons(view)).toEqual([callbackData('yieldHistory', 2)]);
+
+            await telegram.tap(GROUP_ID, callbackData('yieldHistory', 2), view.messageId, ALICE);
+            await telegram.tap(GROUP_ID, callbackData('yieldHistory', 1), view.messageId, ALICE);
+
+            expect(breeze.yieldRequests.map(({ page }) => page)).toEqual([1, 2, 1]);
+            expect(view.edits).toHaveLength(2);
+            expect(view.text).toContain('Page 1 of 2');
+        });
+
+        it('reject taps from other members and leave the view alone', async () => {
+            const view = telegram.lastMessage(GROUP_ID)!;
+
+            await telegram.tap(GROUP_ID, callbackData('yieldHistory', 2), view.messageId, BOB);
+
+            expect(telegram.callbackAnswers).toEqual([expect.stringContaining('belong to someone else')]);
+            expect(breeze.yieldRequests).toHaveLength(1);
+            expect(view.edits).toBeUndefined();
+            expect(telegram.buttons(view)).toEqual([callbackData('yieldHistory', 2)]);
+        });
+
+        it('refuse private-only buttons even for the owner', async () => {
+            const view = telegram.lastMessage(GROUP_ID)!;
+
+            await telegram.tap(GROUP_ID, callbackData('confirmTransaction'), view.messageId, ALICE);
+
+            expect(telegram.callbackAnswers).toEqual(['🔒 That only works in a private chat with me.']);
+            expect(telegram.buttons(view)).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,251 @@
+import { Keypair, PublicKey } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID } from '@solana/spl-token';
+import bs58 from 'bs58';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { callbackData } from '../src/callbacks.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import { createTestBot, FakeConnection, FakeTelegramBot, setupWallet, StubBreezeClient, TEST_PASSPHRASE } from './helpers.js';
+
+const CHAT_ID = 2002;
+
+describe('handleMessage', () => {
+    let telegram: FakeTelegramBot;
+    let connection: FakeConnection;
+    let breeze: StubBreezeClient;
+    let userStore: InMemoryUserStore;
+
+    beforeEach(() => {
+        breeze = new StubBreezeClient();
+        ({ telegram, connection, userStore } = createTestBot(breeze));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('ignores text when no input is expected', async () => {
+        await telegram.sendText(CHAT_ID, 'hello');
+
+        expect(telegram.sent).toHaveLength(0);
+    });
+
+    it('/cancel without a prompt says so', async () => {
+        await telegram.sendText(CHAT_ID, '/cancel');
+
+        expect(telegram.messagesTo(CHAT_ID)).toEqual(['Nothing to cancel.']);
+    });
+
+    describe('awaiting_private_key', () => {
+        beforeEach(async () => {
+            await telegram.tap(CHAT_ID, callbackData('importKeypair'));
+        });
+
+        it('rejects invalid keys and keeps waiting', async () => {
+            const msg = await telegram.sendText(CHAT_ID, 'not-a-key');
+
+            expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Invalid private key format');
+            expect(telegram.deleted).toContainEqual({ chatId: CHAT_ID, messageId: msg.message_id });
+            expect((await userStore.get(CHAT_ID))?.conversation?.state).toEqual({ step: 'private_key' });
+        });
+
+        it('imports a valid key and asks for a passphrase', async () => {
+            const keypair = Keypair.generate();
+
+            const msg = await telegram.sendText(CHAT_ID, bs58.encode(keypair.secretKey));
+
+            const userData = await userStore.get(CHAT_ID);
+            expect(userData?.publicKey).toBe(keypair.publicKey.toBase58());
+            expect(telegram.deleted).toContainEqual({ chatId: CHAT_ID, messageId: msg.message_id });
+            expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('private key was deleted from the chat'));
+            expect(userData?.conversation?.state).toEqual({ step: 'new_passphrase' });
+            expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Choose a passphrase');
+        });
+    });
+
+    describe('awaiting_new_passphrase', () => {
+        beforeEach(async () => {
+            await telegram.tap(CHAT_ID, callbackData('generateKeypair'));
+        });
+
+        it('rejects short passphrases and deletes them from the chat', async () => {
+            const msg = await telegram.sendText(CHAT_ID, 'short');
+
+            expect(telegram.lastMessage(CHAT_ID)?.text).toContain('at least 8 characters');
+            expect(telegram.deleted).toContainEqual({ chatId: CHAT_ID, messageId: msg.message_id });
+            expect((await userStore.get(CHAT_ID))?.sealedKey).toBeUndefined();
+        });
+
+        it('/cancel drops the unsealed key', async () => {
+            await telegram.sendText(CHAT_ID, '/cancel');
+
+            const userData = await userStore.get(CHAT_ID);
+            expect(userData?.keypair).toBeUndefined();
+            expect(userData?.publicKey).toBeUndefined();
+            expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Welcome to BREEZE INTEGRATION BOT');
+        });
+
+        it('still deletes a passphrase sent after the prompt timed out', async () => {
+            vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 301_000);
+
+            const msg = await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+
+            expect(telegram.deleted).toContainEqual({ chatId: CHAT_ID, messageId: msg.message_id });
+            expect((await userStore.get(CHAT_ID))?.sealedKey).toBeUndefined();
+        });
+
+        it('seals the key and unlocks the wallet', async () => {
+            await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+
+            const userData = await userStore.get(CHAT_ID);
+            expect(userData?.sealedKey).toBeDefined();
+            expect(userData?.conversation).toBeUndefined();
+            expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('Wallet encrypted'));
+        });
+    });
+
+    describe('awaiting_unlock_passphrase', () => {
+        beforeEach(async () => {
+            await setupWallet(telegram, userStore, CHAT_ID);
+            await telegram.tap(CHAT_ID, callbackData('lockWallet'));
+            await telegram.tap(CHAT_ID, callbackData('unlockWallet'));
+        });
+
+        it('rejects a wrong passphrase', async () => {
+            await telegram.sendText(CHAT_ID, 'wrong passphrase');
+
+            expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Wrong passphrase');
+            expect((await userStore.get(CHAT_ID))?.keypair).toBeUndefined();
+        });
+
+        it('unlocks with the right passphrase', async () => {
+            await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+
+            expect((await userStore.get(CHAT_ID))?.keypair).toBeDefined();
+            expect(telegram.lastMessage(CHAT_ID)?.text).toContain('🔓 Unlocked');
+        });
+    });
+
+    describe('awaiting_export_passphrase', () => {
+        let publicKey: PublicKey;
+
+        beforeEach(async () => {
+            vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+            publicKey = await setupWallet(telegram, userStore, CHAT_ID);
+            await telegram.tap(CHAT_ID, callbackData('exportKey'));
+            telegram.sent = [];
+            telegram.deleted = [];
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('asks for the passphrase even while the wallet is unlocked', async () => {
+            expect((await userStore.get(CHAT_ID))?.conversation?.state).toEqual({ step: 'export_passphrase' });
+        });
+
+        it('rejects a wrong passphrase without showing the key', async () => {
+            const msg = await telegram.sendText(CHAT_ID, 'wrong passphrase');
+
+            expect(telegram.messagesTo(CHAT_ID)).toEqual([expect.stringContaining('Wrong passphrase')]);
+            expect(telegram.deleted).toEqual([{ chatId: CHAT_ID, messageId: msg.message_id }]);
+        });
+
+        it('shows the key in a message that deletes itself', async () => {
+            await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+
+            const secret = telegram.sent.find((message) => message.text.includes('Your Private Key'))!;
+            const exported = Keypair.fromSecretKey(bs58.decode(/`(\w+)`/.exec(secret.text)![1]));
+            expect(exported.publicKey.equals(publicKey)).toBe(true);
+            expect(telegram.buttons(secret)).toEqual([callbackData('dismissSecret')]);
+            expect((await userStore.get(CHAT_ID))?.conversation).toBeUndefined();
+
+            await vi.advanceTimersByTimeAsync(120_000);
+
+            expect(telegram.deleted).toContainEqual({ chatId: CHAT_ID, messageId: secret.messageId });
+        });
+    });
+
+    describe.each([
+        ['deposit', 'depositRequests'],
+        ['withdraw', 'withdrawRequests']
+    ] as const)('awaiting_%s_amount', (type, requests) => {
+        let publicKey: PublicKey;
+
+        beforeEach(async () => {
+            publicKey = await setupWallet(telegram, userStore, CHAT_ID);
+            connection.setTokenBalance(publicKey, 'USDC', BigInt(100_000_000));
+            await telegram.tap(CHAT_ID, callbackData(type, 'usdc-fund', 'custom'));
+        });
+
+        it.each(['abc', '0', '-5'])('rejects %j and keeps waiting', async (text) => {
+            await telegram.sendText(CHAT_ID, text);
+
+            expect(telegram.lastMessage(CHAT_ID)?.text).toBe('❌ Please enter a valid amount.');
+            expect(breeze[requests]).toHaveLength(0);
+            expect((await userStore.get(CHAT_ID))?.conversation?.state).toEqual({ step: 'amount', type, fundId: 'usdc-fund', asset: 'USDC' });
+        });
+
+        it('rejects more than 6 decimal places', async () => {
+            await telegram.sendText(CHAT_ID, '1.1234567');
+
+            expect(telegram.lastMessage(CHAT_ID)?.text).toContain('maximum 6 decimal places');
+            expect(breeze[requests]).toHaveLength(0);
+        });
+
+        it('ignores commands while waiting', async () => {
+            await telegram.sendText(CHAT_ID, '/help');
+
+            expect(breeze[requests]).toHaveLength(0);
+            expect((await userStore.get(CHAT_ID))?.conversation?.state).toEqual({ step: 'amount', type, fundId: 'usdc-fund', asset: 'USDC' });
+        });
+
+        it('resets to the main menu when the prompt timed out', async () => {
+            const now = Date.now();
+            vi.spyOn(Date, 'now').mockReturnValue(now + 301_000);
+
+            await telegram.sendText(CHAT_ID, '2.5');
+
+            expect(breeze[requests]).toHaveLength(0);
+            expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining('That prompt timed out'));
+            expect(telegram.lastMessage(CHAT_ID)?.text).toContain('BREEZE INTEGRATION BOT');
+            expect((await userStore.get(CHAT_ID))?.conversation).toBeUndefined();
+        });
+
+        it('/cancel abandons the prompt', async () => {
+            await telegram.sendText(CHAT_ID, '/cancel');
+            await telegram.sendText(CHAT_ID, '2.5');
+
+            expect(breeze[requests]).toHaveLength(0);
+            expect(telegram.messagesTo(CHAT_ID)).toContainEqual('✖️ Cancelled.');
+            expect((await userStore.get(CHAT_ID))?.conversation).toBeUndefined();
+        });
+
+        it('navigating away abandons the prompt', async () => {
+            await telegram.tap(CHAT_ID, callbackData('earnYield'));
+            await telegram.sendText(CHAT_ID, '2.5');
+
+            expect(breeze[requests]).toHaveLength(0);
+        });
+
+        it('builds a transaction for a valid amount', async () => {
+            await telegram.sendText(CHAT_ID, '2.5');
+
+            expect(breeze[requests]).toEqual([expect.objectContaining({ amount: 2_500_000, all: false })]);
+            expect((await userStore.get(CHAT_ID))?.conversation).toBeUndefined();
+            expect((await userStore.get(CHAT_ID))?.pendingTransaction).toMatchObject({ type, amount: 2.5, asset: 'USDC' });
+        });
+    });
+
+    it('applies a custom amount to the selected fund', async () => {
+        const publicKey = await setupWallet(telegram, userStore, CHAT_ID);
+        connection.setTokenBalance(publicKey, 'PYUSD', BigInt(10_000_000), TOKEN_2022_PROGRAM_ID);
+        await telegram.tap(CHAT_ID, callbackData('deposit', 'pyusd-fund', 'custom'));
+
+        await telegram.sendText(CHAT_ID, '4');
+
+        expect(breeze.depositRequests).toEqual([expect.objectContaining({ fundId: 'pyusd-fund', amount: 4_000_000 })]);
+        expect((await userStore.get(CHAT_ID))?.conversation).toBeUndefined();
+        expect((await userStore.get(CHAT_ID))?.pendingTransaction).toMatchObject({ type: 'deposit', amount: 4, asset: 'PYUSD' });
+    });
+});
@@ -0,0 +1,91 @@
+import { Keypair, VersionedTransaction } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { callbackData } from '../src/callbacks.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import { createTestBot, FakeConnection, FakeTelegramBot } from './helpers.js';
+
+const CHAT_ID = 8008;
+
+describe('offline signing', () => {
+    let telegram: FakeTelegramBot;
+    let connection: FakeConnection;
+    let userStore: InMemoryUserStore;
+    let wallet: Keypair;
+
+    beforeEach(async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        ({ telegram, connection, userStore } = createTestBot());
+        wallet = Keypair.generate();
+        connection.setSolBalance(wallet.publicKey, 0.1);
+        connection.setTokenBalance(wallet.publicKey, 'USDC', BigInt(20_000_000));
+
+        // A hardware wallet the bot only watches
+        await telegram.sendText(CHAT_ID, '/start');
+        await telegram.tap(CHAT_ID, callbackData('watchAddress'));
+        await telegram.sendText(CHAT_ID, wallet.publicKey.toBase58());
+
+        await telegram.sendText(CHAT_ID, '/deposit 10');
+        await telegram.tap(CHAT_ID, callbackData('exportTransaction'));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    // A fresh copy of the unsigned transaction that was exported
+    async function exported(): Promise<VersionedTransaction> {
+        const { serializedTx } = (await userStore.get(CHAT_ID))!.pendingTransaction!;
+        return VersionedTransaction.deserialize(Buffer.from(serializedTx, 'base64'));
+    }
+
+    it('exports the pending transaction as base64 and a QR code', async () => {
+        const userData = (await userStore.get(CHAT_ID))!;
+        const screen = telegram.lastMessage(CHAT_ID)!;
+
+        expect(screen.text).toContain('Offline Signing');
+        expect(screen.text).toContain(userData.pendingTransaction!.serializedTx);
+        expect(telegram.buttons(screen)).toEqual([callbackData('earnYield')]);
+        expect(telegram.photos).toEqual([expect.objectContaining({ chatId: CHAT_ID, caption: '📷 Unsigned transaction' })]);
+        expect(telegram.photos[0].photo.subarray(1, 4).toString('ascii')).toBe('PNG');
+        expect(userData.conversation?.state).toEqual({ step: 'signed_transaction' });
+        expect((await exported()).signatures[0].every((byte) => byte === 0)).toBe(true);
+    });
+
+    it('broadcasts the signed transaction pasted back', async () => {
+        const transaction = await exported();
+        transaction.sign([wallet]);
+
+        await telegram.sendText(CHAT_ID, Buffer.from(transaction.serialize()).toString('base64'));
+
+        expect(connection.sentTransactions).toHaveLength(1);
+        expect(connection.sentTransactions[0].signatures[0]).toEqual(transaction.signatures[0]);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Successfully deposited to Breeze');
+        expect((await userStore.get(CHAT_ID))?.pendingTransaction).toBeUndefined();
+    });
+
+    it('accepts the signed transaction uploaded as a raw file', async () => {
+        const transaction = await exported();
+        transaction.sign([wallet]);
+
+        await telegram.uploadFile(CHAT_ID, Buffer.from(transaction.serialize()), 'signed.bin');
+
+        expect(connection.sentTransactions).toHaveLength(1);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Successfully deposited to Breeze');
+    });
+
+    it('refuses transactions signed by another key or changed while signing', async () => {
+        const wrongKey = await exported();
+        wrongKey.sign([{ publicKey: wallet.publicKey, secretKey: Keypair.generate().secretKey }]);
+        await telegram.sendText(CHAT_ID, Buffer.from(wrongKey.serialize()).toString('base64'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain("isn't signed by your wallet");
+
+        const changed = await exported();
+        changed.message.recentBlockhash = Keypair.generate().publicKey.toBase58();
+        changed.sign([wallet]);
+        await telegram.sendText(CHAT_ID, Buffer.from(changed.serialize()).toString('base64'));
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain("isn't the transaction I exported");
+
+        expect(connection.sentTransactions).toHaveLength(0);
+        expect((await userStore.get(CHAT_ID))?.conversation?.state).toEqual({ step: 'signed_transaction' });
+    });
+});
@@ -0,0 +1,104 @@
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import TelegramBot from 'node-telegram-bot-api';
+import { Connection, Keypair, VersionedTransaction } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BreezeBot } from '../src/bot.js';
+import { callbackData } from '../src/callbacks.js';
+import { FileUserStore } from '../src/userStore.js';
+import { FakeConnection, FakeTelegramBot, StubBreezeClient, TEST_FUNDS } from './helpers.js';
+
+const CHAT_ID = 8008;
+
+// Two replicas behind one load balancer, sharing the chain, Breeze and the user store file
+describe('replicas sharing a user store', () => {
+    let dir: string;
+    let storePath: string;
+    let connection: FakeConnection;
+    let breeze: StubBreezeClient;
+    let wallet: Keypair;
+
+    function createReplica() {
+        const telegram = new FakeTelegramBot();
+        const breezeBot = new BreezeBot(
+            telegram as unknown as TelegramBot,
+            connection as unknown as Connection,
+            breeze,
+            new FileUserStore(storePath),
+            TEST_FUNDS
+        );
+        return { telegram, breezeBot };
+    }
+
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        dir = mkdtempSync(path.join(os.tmpdir(), 'breeze-replicas-'));
+        storePath = path.join(dir, 'users.json');
+        connection = new FakeConnection();
+        breeze = new StubBreezeClient();
+        wallet = Keypair.generate();
+        connection.setSolBalance(wallet.publicKey, 0.1);
+        connection.setTokenBalance(wallet.publicKey, 'USDC', BigInt(20_000_000));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    async function watchWallet(telegram: FakeTelegramBot) {
+        await telegram.sendText(CHAT_ID, '/start');
+        await telegram.tap(CHAT_ID, callbackData('watchAddress'));
+        await telegram.sendText(CHAT_ID, wallet.publicKey.toBase58());
+    }
+
+    it('picks up sessions another replica changed since it last saw them', async () => {
+        // Each replica has its own fake Telegram, so neither can disable a menu the other one sent
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const first = createReplica();
+        const second = createReplica();
+
+        await second.telegram.sendText(CHAT_ID, '/start');
+        await watchWallet(first.telegram);
+        await second.telegram.sendText(CHAT_ID, '/start');
+
+        expect(second.telegram.lastMessage(CHAT_ID)?.text).toContain('👀 Watch-only');
+    });
+
+    it('keeps every replica\'s writes to different users', async () => {
+        const stores = [new FileUserStore(storePath), new FileUserStore(storePath)];
+
+        await Promise.all([1, 2, 3, 4].map((userId) => stores[userId % 2].set(userId, { walletName: `Wallet ${userId}` })));
+
+        const reader = new FileUserStore(storePath);
+        for (const userId of [1, 2, 3, 4]) {
+            expect((await reader.get(userId))?.walletName).toBe(`Wallet ${userId}`);
+        }
+    });
+
+    it('serves a Solana Pay request created by another replica and reports the transaction once it lands', async () => {
+        const first = createReplica();
+        const second = createReplica();
+        await watchWallet(first.telegram);
+
+        await first.telegram.sendText(CHAT_ID, '/deposit 10');
+        await first.telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+        const [openInWallet] = first.telegram.buttons(first.telegram.lastMessage(CHAT_ID));
+        const requestId = openInWallet.split('/').slice(-1)[0];
+
+        const response = await second.breezeBot.createTransactionRequest(requestId, wallet.publicKey);
+        expect(response.message).toBe('Deposit 10.00 USDC to Breeze');
+
+        const transaction = VersionedTransaction.deserialize(Buffer.from(response.transaction, 'base64'));
+        transaction.sign([wallet]);
+        await connection.sendRawTransaction(transaction.serialize());
+
+        await vi.waitFor(() => expect(first.telegram.lastMessage(CHAT_ID)?.text).toContain('Successfully deposited to Breeze'));
+        await vi.waitFor(async () => {
+            const userData = await new FileUserStore(storePath).get(CHAT_ID);
+            expect(userData?.pendingTransaction).toBeUndefined();
+            expect(userData?.signingRequests).toEqual([]);
+        });
+    });
+});
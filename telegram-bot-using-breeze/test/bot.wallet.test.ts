@@ -0,0 +1,306 @@
+import { PublicKey, SystemInstruction, SystemProgram, TransactionMessage } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { callbackData } from '../src/callbacks.js';
+import { BreezeUserBalancesResponse } from '../src/breeze/index.js';
+import { unsealSecretKey } from '../src/keyVault.js';
+import { TOKEN_MINTS } from '../src/tokens.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import { createTestBot, FakeConnection, FakeTelegramBot, setupWallet, StubBreezeClient, TEST_PASSPHRASE } from './helpers.js';
+
+const CHAT_ID = 6006;
+
+describe('removing a wallet', () => {
+    let telegram: FakeTelegramBot;
+    let userStore: InMemoryUserStore;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        ({ telegram, userStore } = createTestBot());
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('/logout asks first and offers to export the key', async () => {
+        await setupWallet(telegram, userStore, CHAT_ID);
+
+        await telegram.sendText(CHAT_ID, '/logout');
+
+        const confirm = telegram.lastMessage(CHAT_ID);
+        expect(confirm?.text).toContain('Log Out');
+        expect(telegram.buttons(confirm)).toEqual([callbackData('logout'), callbackData('exportKey'), callbackData('main')]);
+        expect(await userStore.get(CHAT_ID)).toBeDefined();
+    });
+
+    it('/logout wipes the key and the session', async () => {
+        await setupWallet(telegram, userStore, CHAT_ID);
+        await telegram.sendText(CHAT_ID, '/logout');
+
+        await telegram.tap(CHAT_ID, callbackData('logout'));
+
+        expect(await userStore.get(CHAT_ID)).toBeUndefined();
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Logged out');
+
+        await telegram.sendText(CHAT_ID, '/start');
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Welcome to BREEZE INTEGRATION BOT');
+    });
+
+    it('/logout deletes key messages still shown', async () => {
+        await setupWallet(telegram, userStore, CHAT_ID);
+        const secret = telegram.sent.find((message) => message.text.includes('New keypair generated'))!;
+        await telegram.sendText(CHAT_ID, '/logout');
+        telegram.deleted = [];
+
+        await telegram.tap(CHAT_ID, callbackData('logout'));
+
+        expect(telegram.deleted).toEqual([{ chatId: CHAT_ID, messageId: secret.messageId }]);
+        await vi.advanceTimersByTimeAsync(120_000);
+        expect(telegram.deleted).toHaveLength(1);
+    });
+
+    it('/logout without a wallet says so', async () => {
+        await telegram.sendText(CHAT_ID, '/logout');
+
+        expect(telegram.messagesTo(CHAT_ID)).toEqual(["🔑 There's no wallet to log out of."]);
+    });
+
+    it('/deletemydata purges the record and removes key messages and the menu', async () => {
+        await telegram.sendText(CHAT_ID, '/start');
+        await telegram.tap(CHAT_ID, callbackData('generateKeypair'));
+        const secret = telegram.sent.find((message) => message.text.includes('New keypair generated'))!;
+
+        await telegram.sendText(CHAT_ID, '/deletemydata');
+        const confirm = telegram.lastMessage(CHAT_ID)!;
+        await telegram.tap(CHAT_ID, callbackData('deleteData'), confirm.messageId);
+
+        expect(await userStore.get(CHAT_ID)).toBeUndefined();
+        expect(telegram.deleted).toEqual([
+            { chatId: CHAT_ID, messageId: secret.messageId },
+            { chatId: CHAT_ID, messageId: confirm.messageId }
+        ]);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('All your data was deleted');
+
+        // The cached session went too, so the deleted key is not sealed by a late passphrase
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+        expect(await userStore.get(CHAT_ID)).toBeUndefined();
+    });
+});
+
+describe('several wallets', () => {
+    let telegram: FakeTelegramBot;
+    let breeze: StubBreezeClient;
+    let userStore: InMemoryUserStore;
+    let first: string;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        breeze = new StubBreezeClient();
+        ({ telegram, userStore } = createTestBot(breeze));
+        first = (await setupWallet(telegram, userStore, CHAT_ID)).toBase58();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    async function addWallet(name: string) {
+        await telegram.tap(CHAT_ID, callbackData('wallets'));
+        await telegram.tap(CHAT_ID, callbackData('addWallet'));
+        await telegram.sendText(CHAT_ID, name);
+        await telegram.tap(CHAT_ID, callbackData('generateKeypair'));
+    }
+
+    function positions(usdc: number, earned: number): BreezeUserBalancesResponse {
+        return {
+            data: [{
+                token_address: TOKEN_MINTS.USDC,
+                token_symbol: 'USDC',
+                token_name: 'USDC',
+                decimals: 6,
+                total_balance: 0,
+                yield_balance: { fund_id: 'usdc-fund', funds: String(usdc * 1e6), amount_of_yield: String(earned * 1e6), fund_apy: 8.5 }
+            }],
+            meta: { page: 1, per_page: 10, total: 1, total_pages: 1, has_more: false }
+        };
+    }
+
+    it('adds a named wallet and keeps the first one saved', async () => {
+        await addWallet('Savings');
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+
+        const userData = (await userStore.get(CHAT_ID))!;
+        expect(userData.walletName).toBe('Savings');
+        expect(userData.publicKey).not.toBe(first);
+        expect(userData.otherWallets).toEqual([expect.objectContaining({ name: 'Main', publicKey: first })]);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('💳 Wallet: **Savings**');
+    });
+
+    it('switches to a saved wallet, which starts locked', async () => {
+        await addWallet('Savings');
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+        const savings = (await userStore.get(CHAT_ID))!.publicKey;
+
+        await telegram.tap(CHAT_ID, callbackData('wallets'));
+        expect(telegram.buttons(telegram.lastMessage(CHAT_ID))).toEqual([
+            callbackData('switchWallet', first),
+            callbackData('addWallet'),
+            callbackData('portfolio'),
+            callbackData('main')
+        ]);
+        await telegram.tap(CHAT_ID, callbackData('switchWallet', first));
+
+        const userData = (await userStore.get(CHAT_ID))!;
+        expect(userData).toMatchObject({ publicKey: first, walletName: 'Main', keypair: undefined });
+        expect(userData.otherWallets?.map(({ name, publicKey }) => ({ name, publicKey }))).toEqual([{ name: 'Savings', publicKey: savings }]);
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('🔒 Locked');
+    });
+
+    it('rejects a name that is already taken', async () => {
+        await telegram.tap(CHAT_ID, callbackData('wallets'));
+        await telegram.tap(CHAT_ID, callbackData('addWallet'));
+
+        await telegram.sendText(CHAT_ID, 'main');
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('already have a wallet called main');
+        expect((await userStore.get(CHAT_ID))?.conversation?.state).toEqual({ step: 'wallet_name' });
+    });
+
+    it('goes back to the previous wallet when adding one is cancelled', async () => {
+        await addWallet('Savings');
+
+        await telegram.sendText(CHAT_ID, '/cancel');
+
+        const userData = (await userStore.get(CHAT_ID))!;
+        expect(userData).toMatchObject({ publicKey: first, walletName: 'Main' });
+        expect(userData.otherWallets).toEqual([]);
+    });
+
+    it('sums Breeze positions across every wallet in the portfolio', async () => {
+        await addWallet('Savings');
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+        await addWallet('Spare');
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+        const userData = (await userStore.get(CHAT_ID))!;
+        const [, savings] = userData.otherWallets!;
+        const getUserBalances = vi.spyOn(breeze, 'getUserBalances').mockImplementation(async (publicKey) =>
+            publicKey === first ? positions(20, 1) : publicKey === savings.publicKey ? positions(5, 0.5) : null
+        );
+
+        await telegram.tap(CHAT_ID, callbackData('wallets'));
+        await telegram.tap(CHAT_ID, callbackData('portfolio'));
+
+        expect(getUserBalances.mock.calls.map(([publicKey]) => publicKey)).toEqual([userData.publicKey, first, savings.publicKey]);
+        const portfolio = telegram.lastMessage(CHAT_ID)!.text;
+        expect(portfolio).toContain('👛 **Spare** (active)\n• ⚠️ Balances unavailable');
+        expect(portfolio).toContain('👛 **Main**\n• In Breeze: $20.00\n• Yield Earned: $1.00');
+        expect(portfolio).toContain('Total in Breeze:** $25.00');
+        expect(portfolio).toContain('Total Yield Earned:** $1.50');
+        expect(portfolio).toContain('One wallet is missing from the totals');
+    });
+
+    it('counts positions from every page of Breeze balances in the portfolio', async () => {
+        const firstPage = { ...positions(20, 1), meta: { page: 1, per_page: 1, total: 2, total_pages: 2, has_more: true } };
+        const getUserBalances = vi.spyOn(breeze, 'getUserBalances').mockImplementation(async (publicKey, page) =>
+            page === 2 ? positions(5, 0.5) : firstPage
+        );
+
+        await telegram.tap(CHAT_ID, callbackData('wallets'));
+        await telegram.tap(CHAT_ID, callbackData('portfolio'));
+
+        expect(getUserBalances.mock.calls.map(([, page]) => page)).toEqual([1, 2]);
+        expect(telegram.lastMessage(CHAT_ID)!.text).toContain('👛 **Main** (active)\n• In Breeze: $25.00\n• Yield Earned: $1.50');
+    });
+});
+
+describe('replacing a wallet', () => {
+    let telegram: FakeTelegramBot;
+    let connection: FakeConnection;
+    let breeze: StubBreezeClient;
+    let userStore: InMemoryUserStore;
+    let publicKey: PublicKey;
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        breeze = new StubBreezeClient();
+        ({ telegram, connection, userStore } = createTestBot(breeze));
+        publicKey = await setupWallet(telegram, userStore, CHAT_ID);
+        connection.setSolBalance(publicKey, 0.1);
+        connection.setTokenBalance(publicKey, 'USDC', BigInt(5_000_000));
+        breeze.balances = {
+            data: [{
+                token_address: TOKEN_MINTS.USDC,
+                token_symbol: 'USDC',
+                token_name: 'USDC',
+                decimals: 6,
+                total_balance: 5_000_000,
+                yield_balance: { fund_id: 'usdc-fund', funds: '20000000', amount_of_yield: '0', fund_apy: 8.5 }
+            }],
+            meta: { page: 1, per_page: 10, total: 1, total_pages: 1, has_more: false }
+        };
+
+        await telegram.sendText(CHAT_ID, '/wallet');
+        await telegram.tap(CHAT_ID, callbackData('replaceWallet'));
+        await telegram.tap(CHAT_ID, callbackData('confirmReplaceWallet'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('asks for the passphrase before moving anything', async () => {
+        await telegram.sendText(CHAT_ID, 'wrong passphrase');
+
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Wrong passphrase');
+        expect(breeze.withdrawRequests).toEqual([]);
+        expect((await userStore.get(CHAT_ID))?.replacement).toBeUndefined();
+    });
+
+    it('withdraws from Breeze, sweeps the wallet and switches to the new key', async () => {
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+
+        const userData = (await userStore.get(CHAT_ID))!;
+        const replacement = await unsealSecretKey(userData.sealedKey!, TEST_PASSPHRASE, process.env.KEY_ENCRYPTION_SECRET!);
+        expect(userData.publicKey).toBe(replacement.publicKey.toBase58());
+        expect(userData.publicKey).not.toBe(publicKey.toBase58());
+        expect(userData.replacement).toBeUndefined();
+
+        expect(breeze.withdrawRequests).toEqual([expect.objectContaining({ fundId: 'usdc-fund', all: true, userKey: publicKey.toBase58() })]);
+        expect(connection.sentTransactions).toHaveLength(2);
+        const [sweepTransfer] = TransactionMessage.decompile(connection.sentTransactions[1].message).instructions.slice(-1);
+        expect(sweepTransfer.programId.equals(SystemProgram.programId)).toBe(true);
+        expect(SystemInstruction.decodeTransfer(sweepTransfer).toPubkey.equals(replacement.publicKey)).toBe(true);
+
+        expect(telegram.messagesTo(CHAT_ID)).toContainEqual(expect.stringContaining(`\`${replacement.publicKey.toBase58()}\``));
+        const status = telegram.lastMessage(CHAT_ID)!.text;
+        expect(status).toContain('Withdrew 20.000000 USDC from Test USDC Fund');
+        expect(status).toContain('Moved 5.000000 USDC');
+        expect(status).toContain('Wallet replaced!');
+    });
+
+    it('keeps the current wallet when a step fails and reuses the new one on retry', async () => {
+        connection.setSolBalance(publicKey, 0);
+
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+
+        const stopped = (await userStore.get(CHAT_ID))!;
+        expect(stopped.publicKey).toBe(publicKey.toBase58());
+        const replacementKey = stopped.replacement?.publicKey;
+        expect(replacementKey).toBeDefined();
+        expect(telegram.lastMessage(CHAT_ID)?.text).toContain('needs at least');
+
+        connection.setSolBalance(publicKey, 0.1);
+        breeze.balances = null;
+        await telegram.tap(CHAT_ID, callbackData('main'));
+        await telegram.sendText(CHAT_ID, '/wallet');
+        await telegram.tap(CHAT_ID, callbackData('replaceWallet'));
+        await telegram.tap(CHAT_ID, callbackData('confirmReplaceWallet'));
+        await telegram.sendText(CHAT_ID, TEST_PASSPHRASE);
+
+        expect((await userStore.get(CHAT_ID))?.publicKey).toBe(replacementKey);
+        expect(telegram.sent.filter((message) => message.text.includes('Your New Wallet'))).toHaveLength(1);
+    });
+});
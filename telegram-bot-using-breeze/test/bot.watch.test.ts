@@ -0,0 +1,145 @@
+import { Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BreezeBot } from '../src/bot.js';
+import { callbackData } from '../src/callbacks.js';
+import { TransactionRequestError } from '../src/solanaPay.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+import { createTestBot, FakeConnection, FakeTelegramBot, StubBreezeClient } from './helpers.js';
+
+const CHAT_ID = 7007;
+
+describe('watch-only wallets', () => {
+    let breezeBot: BreezeBot;
+    let telegram: FakeTelegramBot;
+    let connection: FakeConnection;
+    let breeze: StubBreezeClient;
+    let userStore: InMemoryUserStore;
+    let wallet: Keypair;
+
+    beforeEach(async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        breeze = new StubBreezeClient();
+        ({ breezeBot, telegram, connection, userStore } = createTestBot(breeze));
+        wallet = Keypair.generate();
+        connection.setSolBalance(wallet.publicKey, 0.1);
+        connection.setTokenBalance(wallet.publicKey, 'USDC', BigInt(20_000_000));
+
+        await telegram.sendText(CHAT_ID, '/start');
+        await telegram.tap(CHAT_ID, callbackData('watchAddress'));
+        await telegram.sendText(CHAT_ID, wallet.publicKey.toBase58());
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    // Opens the deposit in the user's wallet and returns the Solana Pay request id
+    async function requestSignature(): Promise<string> {
+        await telegram.sendText(CHAT_ID, '/deposit 10');
+        await telegram.tap(CHAT_ID, callbackData('confirmTransaction'));
+
+        const [openInWallet] = telegram.buttons(telegram.lastMessage(CHAT_ID));
+        return openInWallet.split('/').slice(-1)[0];
+    }
+
+    it('keeps only the address and has no key to lock', async () => {
+        const userData = (await userStore.get(CHAT_ID))!;
+        expect(userData).toMatchObject({ publicKey: wallet.publicKey.toBase58(), watchOnly: true, walletName: 'Main' });
+        expect(userData.sealedKey).toBeUndefined();
+
+        const main = telegram.lastMessage(CHAT_ID)!;
+        expect(main.text).toContain('👀 Watch-only');
+        expect(telegram.buttons(main)).not.toContain(callbackData('unlockWallet'));
+    });
+
+    it('rejects addresses no wallet can sign for', async () => {
+        const otherChat = CHAT_ID + 1;
+        await telegram.sendText(otherChat, '/start');
+        await telegram.tap(otherChat, callbackData('watchAddress'));
+
+        const vault = PublicKey.findProgramAddressSync([Buffer.from('vault')], wallet.publicKey)[0];
+        await telegram.sendText(otherChat, vault.toBase58());
+
+        expect(telegram.lastMessage(otherChat)?.text).toContain('not a wallet address');
+        expect((await userStore.get(otherChat))?.publicKey).toBeUndefined();
+    });
+
+    it('offers the transaction to the wallet over Solana Pay and reports it once it lands', async () => {
+        const requestId = await requestSignature();
+
+        const screen = telegram.lastMessage(CHAT_ID)!;
+        expect(screen.text).toContain(`solana:https://pay.example.test/solana-pay/tx/${requestId}`);
+        expect(telegram.buttons(screen)).toEqual([`https://pay.example.test/solana-pay/open/${requestId}`, callbackData('earnYield')]);
+
+        await expect(breezeBot.createTransactionRequest(requestId, Keypair.generate().publicKey))
+            .rejects.toMatchObject({ status: 400 });
+        const response = await breezeBot.createTransactionRequest(requestId, wallet.publicKey);
+        expect(response.message).toBe('Deposit 10.00 USDC to Breeze');
+
+        // The wallet signs and sends it; the bot never does
+        const transaction = VersionedTransaction.deserialize(Buffer.from(response.transaction, 'base64'));
+        transaction.sign([wallet]);
+        await connection.sendRawTransaction(transaction.serialize());
+
+        await vi.waitFor(() => expect(telegram.lastMessage(CHAT_ID)?.text).toContain('Successfully deposited to Breeze'));
+        expect(connection.sentTransactions).toHaveLength(1);
+        expect(breeze.depositRequests).toEqual([expect.objectContaining({ userKey: wallet.publicKey.toBase58(), amount: 10_000_000 })]);
+        await vi.waitFor(async () => expect((await userStore.get(CHAT_ID))?.pendingTransaction).toBeUndefined());
+    });
+
+    it('refuses a stale request and shows the rebuilt transaction to confirm again', async () => {
+        const requestId = await requestSignature();
+
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 61_000);
+        const error = await breezeBot.createTransactionRequest(requestId, wallet.publicKey).catch((caught) => caught);
+
+        expect(error).toMatchObject({ status: 410 });
+        expect(breeze.depositRequests).toHaveLength(2);
+        expect(telegram.lastMenu(CHAT_ID)?.text).toContain('Confirm Deposit');
+        expect(connection.simulatedTransactions).toHaveLength(2);
+    });
+
+    it('stops watching for the transaction once the user deletes their data', async () => {
+        const requestId = await requestSignature();
+        const response = await breezeBot.createTransactionRequest(requestId, wallet.publicKey);
+
+        await telegram.sendText(CHAT_ID, '/deletemydata');
+        await telegram.tap(CHAT_ID, callbackData('deleteData'), telegram.lastMessage(CHAT_ID)!.messageId);
+        telegram.sent = [];
+
+        const transaction = VersionedTransaction.deserialize(Buffer.from(response.transaction, 'base64'));
+        transaction.sign([wallet]);
+        await connection.sendRawTransaction(transaction.serialize());
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(telegram.messagesTo(CHAT_ID)).toEqual([]);
+        expect(await userStore.get(CHAT_ID)).toBeUndefined();
+    });
+
+    it('stops watching for the transaction once the user logs out', async () => {
+        const requestId = await requestSignature();
+        const response = await breezeBot.createTransactionRequest(requestId, wallet.publicKey);
+
+        await telegram.sendText(CHAT_ID, '/logout');
+        await telegram.tap(CHAT_ID, callbackData('logout'));
+        telegram.sent = [];
+
+        const transaction = VersionedTransaction.deserialize(Buffer.from(response.transaction, 'base64'));
+        transaction.sign([wallet]);
+        await connection.sendRawTransaction(transaction.serialize());
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        expect(telegram.messagesTo(CHAT_ID)).toEqual([]);
+        await expect(breezeBot.createTransactionRequest(requestId, wallet.publicKey)).rejects.toMatchObject({ status: 410 });
+    });
+
+    it('stops serving the request once the user moves on', async () => {
+        const requestId = await requestSignature();
+
+        await telegram.tap(CHAT_ID, callbackData('earnYield'));
+
+        const error = await breezeBot.createTransactionRequest(requestId, wallet.publicKey).catch((caught) => caught);
+        expect(error).toBeInstanceOf(TransactionRequestError);
+        expect(error.status).toBe(410);
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CALLBACK_VERSION, CallbackDataError, callbackData, CallbackRouter, MAX_CALLBACK_DATA_BYTES } from '../src/callbacks.js';
+
+describe('callbackData', () => {
+    it('encodes the version, route and parameters compactly', () => {
+        expect(callbackData('main')).toBe(`${CALLBACK_VERSION}:mn`);
+        expect(callbackData('deposit', 'usdc-fund', '50')).toBe(`${CALLBACK_VERSION}:dp:usdc-fund:50`);
+        expect(callbackData('yieldHistory', 2)).toBe(`${CALLBACK_VERSION}:yh:2`);
+    });
+
+    it('leaves out missing optional parameters', () => {
+        expect(callbackData('withdraw', 'usdt-fund', undefined)).toBe(callbackData('withdraw', 'usdt-fund'));
+    });
+
+    it('rejects parameters containing the separator', () => {
+        expect(() => callbackData('deposit', 'usdc:fund')).toThrow(CallbackDataError);
+    });
+
+    it(`rejects data longer than ${MAX_CALLBACK_DATA_BYTES} bytes`, () => {
+        expect(() => callbackData('deposit', 'f'.repeat(MAX_CALLBACK_DATA_BYTES))).toThrow(CallbackDataError);
+    });
+});
+
+describe('CallbackRouter', () => {
+    function createRouter() {
+        const calls: unknown[][] = [];
+        const fallbacks: unknown[][] = [];
+        const router = new CallbackRouter<string>()
+            .on('main', (context) => { calls.push(['main', context]); })
+            .on('deposit', (context, fundId, option) => { calls.push(['deposit', context, fundId, option]); })
+            .on('yieldHistory', (context, page, fundId) => { calls.push(['yieldHistory', context, page, fundId]); })
+            .fallback((context, data, reason) => { fallbacks.push([context, data, reason]); });
+        return { router, calls, fallbacks };
+    }
+
+    it('passes decoded parameters to the route handler', async () => {
+        const { router, calls } = createRouter();
+
+        await router.dispatch('ctx', callbackData('deposit', 'usdc-fund', 'custom'));
+        await router.dispatch('ctx', callbackData('deposit', 'usdc-fund'));
+        await router.dispatch('ctx', callbackData('yieldHistory', 3, 'usdt-fund'));
+
+        expect(calls).toEqual([
+            ['deposit', 'ctx', 'usdc-fund', 'custom'],
+            ['deposit', 'ctx', 'usdc-fund', undefined],
+            ['yieldHistory', 'ctx', 3, 'usdt-fund']
+        ]);
+    });
+
+    it('sends buttons from other versions to the fallback as outdated', async () => {
+        const { router, calls, fallbacks } = createRouter();
+
+        await router.dispatch('ctx', 'back_to_main');
+        await router.dispatch('ctx', `${CALLBACK_VERSION + 1}:mn`);
+
+        expect(calls).toEqual([]);
+        expect(fallbacks).toEqual([
+            ['ctx', 'back_to_main', 'outdated'],
+            ['ctx', `${CALLBACK_VERSION + 1}:mn`, 'outdated']
+        ]);
+        expect(router.handles('back_to_main')).toBe(false);
+    });
+
+    it('sends unknown routes, bad parameters and unregistered routes to the fallback', async () => {
+        const { router, calls, fallbacks } = createRouter();
+        const invalid = [
+            `${CALLBACK_VERSION}:zz`,
+            `${CALLBACK_VERSION}:dp:usdc-fund:75`,
+            `${CALLBACK_VERSION}:yh:0`,
+            `${CALLBACK_VERSION}:mn:extra`,
+            callbackData('earnYield')
+        ];
+
+        for (const data of invalid) {
+            expect(router.handles(data)).toBe(false);
+            await router.dispatch('ctx', data);
+        }
+
+        expect(calls).toEqual([]);
+        expect(fallbacks.map(([, , reason]) => reason)).toEqual(invalid.map(() => 'unknown'));
+    });
+
+    it('ignores unroutable data without a fallback', async () => {
+        const handler = vi.fn();
+        const router = new CallbackRouter<string>().on('main', handler);
+
+        await expect(router.dispatch('ctx', 'earn_yield')).resolves.toBeUndefined();
+        expect(handler).not.toHaveBeenCalled();
+    });
+});
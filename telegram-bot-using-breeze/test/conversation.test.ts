@@ -0,0 +1,78 @@
+import { Keypair, PublicKey, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { describe, expect, it } from 'vitest';
+import { validateAmount, validateInput } from '../src/conversation.js';
+
+describe('validateInput', () => {
+    it('decodes private keys', () => {
+        const keypair = Keypair.generate();
+
+        const input = validateInput({ step: 'private_key' }, ` ${bs58.encode(keypair.secretKey)}\n`);
+
+        expect(input.ok && input.value.publicKey.equals(keypair.publicKey)).toBe(true);
+        expect(validateInput({ step: 'private_key' }, 'not-a-key')).toMatchObject({ ok: false, error: expect.stringContaining('Invalid private key format') });
+    });
+
+    it('accepts only addresses a wallet can sign for', () => {
+        const wallet = Keypair.generate().publicKey;
+        const vault = PublicKey.findProgramAddressSync([Buffer.from('vault')], wallet)[0];
+
+        const input = validateInput({ step: 'watch_address' }, ` ${wallet.toBase58()} `);
+
+        expect(input.ok && input.value.equals(wallet)).toBe(true);
+        expect(validateInput({ step: 'watch_address' }, vault.toBase58())).toMatchObject({ ok: false });
+        expect(validateInput({ step: 'watch_address' }, 'not-an-address')).toMatchObject({ ok: false });
+    });
+
+    it('requires new passphrases to be long enough', () => {
+        expect(validateInput({ step: 'new_passphrase' }, 'short')).toMatchObject({ ok: false, error: expect.stringContaining('at least 8 characters') });
+        expect(validateInput({ step: 'new_passphrase' }, 'long enough')).toEqual({ ok: true, value: 'long enough' });
+    });
+
+    it('keeps wallet names short and free of Markdown', () => {
+        expect(validateInput({ step: 'wallet_name' }, '  Savings ')).toEqual({ ok: true, value: 'Savings' });
+        expect(validateInput({ step: 'wallet_name' }, 'my_wallet')).toMatchObject({ ok: false });
+        expect(validateInput({ step: 'wallet_name' }, 'x'.repeat(25))).toMatchObject({ ok: false });
+        expect(validateInput({ step: 'wallet_name' }, '   ')).toMatchObject({ ok: false });
+    });
+
+    it('reads signed transactions pasted as wrapped base64', () => {
+        const payer = Keypair.generate();
+        const transaction = new VersionedTransaction(new TransactionMessage({
+            payerKey: payer.publicKey,
+            recentBlockhash: Keypair.generate().publicKey.toBase58(),
+            instructions: [SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: payer.publicKey, lamports: 1 })]
+        }).compileToV0Message());
+        transaction.sign([payer]);
+        const base64 = Buffer.from(transaction.serialize()).toString('base64');
+
+        const input = validateInput({ step: 'signed_transaction' }, `${base64.slice(0, 64)}\n${base64.slice(64)}\n`);
+
+        expect(input.ok && Buffer.from(input.value.serialize()).toString('base64')).toBe(base64);
+        expect(validateInput({ step: 'signed_transaction' }, 'not a transaction')).toMatchObject({ ok: false });
+        expect(validateInput({ step: 'signed_transaction' }, 'AAAA')).toMatchObject({ ok: false });
+    });
+
+    it("checks amounts against the fund's asset", () => {
+        const state = { step: 'amount', type: 'deposit', fundId: 'usdc-fund', asset: 'USDC' } as const;
+
+        expect(validateInput(state, '2.5')).toEqual({ ok: true, value: 2.5 });
+        expect(validateInput(state, '1.1234567')).toEqual({ ok: false, error: '❌ USDC supports maximum 6 decimal places.' });
+    });
+});
+
+describe('validateAmount', () => {
+    it.each(['abc', '0', '-5', '', 'Infinity', 'NaN', '1e21', '1e3', '12abc', '0x10'])('rejects %j', (text) => {
+        expect(validateAmount(text, 'USDT')).toEqual({ ok: false, error: '❌ Please enter a valid amount.' });
+    });
+
+    it.each([['25', 25], [' 2.5 ', 2.5], ['.5', 0.5], ['1.500000000', 1.5]])('accepts %j', (text, value) => {
+        expect(validateAmount(text, 'USDT')).toEqual({ ok: true, value });
+    });
+
+    it('rejects amounts beyond the safe token unit range', () => {
+        expect(validateAmount('9007199254', 'USDC')).toEqual({ ok: true, value: 9007199254 });
+        expect(validateAmount('9007199255', 'USDC')).toEqual({ ok: false, error: '❌ That is more USDC than the bot can handle in one transaction.' });
+        expect(validateAmount('1'.repeat(40), 'USDC')).toMatchObject({ ok: false });
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { explorerTransactionUrl, resolveCluster } from '../src/explorer.js';
+
+describe('resolveCluster', () => {
+    it('detects the cluster from the RPC URL', () => {
+        expect(resolveCluster('https://api.mainnet-beta.solana.com')).toBe('mainnet-beta');
+        expect(resolveCluster('https://api.devnet.solana.com')).toBe('devnet');
+        expect(resolveCluster('https://api.testnet.solana.com')).toBe('testnet');
+        expect(resolveCluster('http://127.0.0.1:8899')).toBe('custom');
+    });
+
+    it('prefers the configured cluster', () => {
+        expect(resolveCluster('https://rpc.example.com', 'devnet')).toBe('devnet');
+    });
+
+    it('rejects unknown clusters', () => {
+        expect(() => resolveCluster('https://rpc.example.com', 'moonnet')).toThrow('Unknown Solana cluster: moonnet');
+    });
+});
+
+describe('explorerTransactionUrl', () => {
+    it('links mainnet transactions without a cluster parameter', () => {
+        expect(explorerTransactionUrl('sig', 'mainnet-beta', 'https://api.mainnet-beta.solana.com')).toBe('https://explorer.solana.com/tx/sig');
+    });
+
+    it('adds the cluster for other networks', () => {
+        expect(explorerTransactionUrl('sig', 'devnet', 'https://api.devnet.solana.com')).toBe('https://explorer.solana.com/tx/sig?cluster=devnet');
+    });
+
+    it('points custom clusters at the RPC URL', () => {
+        expect(explorerTransactionUrl('sig', 'custom', 'http://127.0.0.1:8899'))
+            .toBe('https://explorer.solana.com/tx/sig?cluster=custom&customUrl=http%3A%2F%2F127.0.0.1%3A8899');
+    });
+});
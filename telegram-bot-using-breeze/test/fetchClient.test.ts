@@ -0,0 +1,18 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FetchBreezeClient } from '../src/breeze/index.js';
+
+describe('FetchBreezeClient', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('sends the fund id as a single query parameter', async () => {
+        const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ data: [], meta: {} }));
+
+        await new FetchBreezeClient('test-api-key', 'https://api.breeze.test').getUserYield('user', 'fund&page=9#x', 2, 5);
+
+        const url = new URL(String(fetch.mock.calls[0][0]));
+        expect(url.pathname).toBe('/user-yield/user');
+        expect(Object.fromEntries(url.searchParams)).toEqual({ page: '2', limit: '5', fund_id: 'fund&page=9#x' });
+    });
+});
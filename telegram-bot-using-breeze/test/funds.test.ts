@@ -0,0 +1,62 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadFundCatalogue } from '../src/funds.js';
+
+const NO_FALLBACK = { USDC: undefined, USDT: undefined, PYUSD: undefined, USDS: undefined };
+
+describe('loadFundCatalogue', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'breeze-funds-'));
+        filePath = path.join(dir, 'funds.json');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads funds from the catalogue file', () => {
+        writeFileSync(filePath, JSON.stringify([
+            { id: 'usdc-fund', name: 'USDC Fund', baseAsset: 'USDC', description: 'Stable yield' },
+            { id: 'usds-fund', name: 'USDS Fund', baseAsset: 'USDS' }
+        ]));
+
+        expect(loadFundCatalogue(filePath, NO_FALLBACK)).toEqual([
+            { id: 'usdc-fund', name: 'USDC Fund', baseAsset: 'USDC', description: 'Stable yield' },
+            { id: 'usds-fund', name: 'USDS Fund', baseAsset: 'USDS', description: undefined }
+        ]);
+    });
+
+    it('falls back to one fund per configured asset without a file', () => {
+        const funds = loadFundCatalogue(filePath, { ...NO_FALLBACK, USDC: 'legacy-usdc', PYUSD: 'legacy-pyusd' });
+
+        expect(funds).toEqual([
+            { id: 'legacy-usdc', name: 'Breeze USDC Fund', baseAsset: 'USDC' },
+            { id: 'legacy-pyusd', name: 'Breeze PYUSD Fund', baseAsset: 'PYUSD' }
+        ]);
+    });
+
+    it('rejects fallback fund ids that cannot go on a button', () => {
+        expect(() => loadFundCatalogue(filePath, { ...NO_FALLBACK, USDT: 'a:b' })).toThrow('the USDT fund id setting');
+    });
+
+    it.each([
+        ['not an array', { id: 'fund' }, 'expected an array'],
+        ['a fund without a name', [{ id: 'fund', baseAsset: 'USDC' }], 'needs an id and a name'],
+        ['an unsupported asset', [{ id: 'fund', name: 'Fund', baseAsset: 'DOGE' }], 'unsupported base asset DOGE'],
+        ['duplicate ids', [
+            { id: 'fund', name: 'A', baseAsset: 'USDC' },
+            { id: 'fund', name: 'B', baseAsset: 'USDT' }
+        ], 'fund ids must be unique'],
+        ['an id with a colon', [{ id: 'a:b', name: 'Fund', baseAsset: 'USDC' }], 'Invalid fund a:b'],
+        ['an id too long for a button', [{ id: 'f'.repeat(60), name: 'Fund', baseAsset: 'USDC' }], 'must fit in 64 bytes']
+    ])('rejects %s', (_, contents, message) => {
+        writeFileSync(filePath, JSON.stringify(contents));
+
+        expect(() => loadFundCatalogue(filePath, NO_FALLBACK)).toThrow(message);
+    });
+});
@@ -0,0 +1,524 @@
+import { Readable } from 'stream';
+import TelegramBot from 'node-telegram-bot-api';
+import {
+    AccountInfo,
+    ComputeBudgetProgram,
+    Connection,
+    Keypair,
+    PublicKey,
+    SimulatedTransactionResponse,
+    TransactionConfirmationStatus,
+    TransactionError,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedMessage,
+    VersionedTransaction
+} from '@solana/web3.js';
+import {
+    ACCOUNT_SIZE,
+    AccountLayout,
+    AccountState,
+    createAssociatedTokenAccountIdempotentInstruction,
+    createTransferCheckedInstruction,
+    getAssociatedTokenAddressSync,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+import { BreezeBot } from '../src/bot.js';
+import {
+    BreezeApiResponseUpdated,
+    BreezeClient,
+    BreezeTransactionParams,
+    BreezeUserBalancesResponse,
+    BreezeUserYieldResponse
+} from '../src/breeze/index.js';
+import { callbackData } from '../src/callbacks.js';
+import { BreezeFund } from '../src/funds.js';
+import { FeeSponsor } from '../src/sponsorship.js';
+import { TOKEN_DECIMALS, TOKEN_MINTS, TOKEN_PROGRAM_IDS, TokenSymbol } from '../src/tokens.js';
+import { InMemoryUserStore } from '../src/userStore.js';
+
+export const TEST_PASSPHRASE = 'correct horse battery';
+
+export const TEST_FUNDS: BreezeFund[] = [
+    { id: 'usdc-fund', name: 'Test USDC Fund', baseAsset: 'USDC', description: 'Lends USDC for testing' },
+    { id: 'usdt-fund', name: 'Test USDT Fund', baseAsset: 'USDT' },
+    { id: 'pyusd-fund', name: 'Test PYUSD Fund', baseAsset: 'PYUSD' }
+];
+
+type TextHandler = (msg: TelegramBot.Message, match: RegExpExecArray | null) => unknown;
+
+// The updates BreezeBot listens for
+interface UpdateHandlers {
+    message: (msg: TelegramBot.Message) => unknown;
+    callback_query: (query: TelegramBot.CallbackQuery) => unknown;
+}
+
+export interface SentMessage {
+    chatId: number;
+    messageId: number;
+    text: string;
+    options?: TelegramBot.SendMessageOptions;
+    edits?: string[]; // earlier texts, oldest first
+}
+
+export const BOT_USERNAME = 'breeze_test_bot';
+
+function chat(chatId: number): TelegramBot.Chat {
+    return { id: chatId, type: chatId < 0 ? 'group' : 'private' };
+}
+
+// Records everything the bot sends and lets tests push updates through the registered handlers.
+// Tests may clear `sent`; messages sent earlier can still be edited and tapped. Negative chat ids
+// are groups, where updates come from the given user; in private chats the user is the chat.
+export class FakeTelegramBot {
+    sent: SentMessage[] = [];
+    private messages: SentMessage[] = [];
+    private received: TelegramBot.Message[] = [];
+    deleted: { chatId: number; messageId: number }[] = [];
+    commands: TelegramBot.BotCommand[] = [];
+    groupCommands: TelegramBot.BotCommand[] = [];
+    callbackAnswers: string[] = [];
+    photos: { chatId: number; photo: Buffer; caption?: string }[] = [];
+    private files: Map<string, Buffer> = new Map();
+    private textHandlers: { regexp: RegExp; callback: TextHandler }[] = [];
+    private handlers: { [E in keyof UpdateHandlers]: UpdateHandlers[E][] } = { message: [], callback_query: [] };
+    private nextMessageId = 1;
+
+    onText(regexp: RegExp, callback: TextHandler) {
+        this.textHandlers.push({ regexp, callback });
+    }
+
+    on<E extends keyof UpdateHandlers>(event: E, callback: UpdateHandlers[E]) {
+        (this.handlers[event] as UpdateHandlers[E][]).push(callback);
+    }
+
+    async sendMessage(chatId: number, text: string, options?: TelegramBot.SendMessageOptions) {
+        const messageId = this.nextMessageId++;
+        const message = { chatId, messageId, text, options };
+        this.sent.push(message);
+        this.messages.push(message);
+        return { message_id: messageId, chat: chat(chatId), date: 0, text };
+    }
+
+    async sendPhoto(chatId: number, photo: Buffer, options?: TelegramBot.SendPhotoOptions) {
+        this.photos.push({ chatId, photo, caption: options?.caption });
+        return { message_id: this.nextMessageId++, chat: chat(chatId), date: 0 };
+    }
+
+    getFileStream(fileId: string): Readable {
+        const file = this.files.get(fileId);
+        if (!file) {
+            throw new Error('file not found');
+        }
+        return Readable.from([file]);
+    }
+
+    // Edits are applied in place and bring the message back into `sent`; the replaced texts are kept on it
+    async editMessageText(text: string, options: TelegramBot.EditMessageTextOptions) {
+        const message = this.findMessage(options.chat_id, options.message_id);
+        if (!this.sent.includes(message)) {
+            this.sent.push(message);
+        }
+
+        message.edits = [...(message.edits ?? []), message.text];
+        message.text = text;
+        message.options = { ...message.options, parse_mode: options.parse_mode, reply_markup: options.reply_markup };
+        return true;
+    }
+
+    async editMessageReplyMarkup(markup: TelegramBot.InlineKeyboardMarkup, options: TelegramBot.EditMessageReplyMarkupOptions) {
+        const message = this.findMessage(options.chat_id, options.message_id);
+        message.options = { ...message.options, reply_markup: markup };
+        return true;
+    }
+
+    private findMessage(chatId: TelegramBot.ChatId | undefined, messageId: number | undefined): SentMessage {
+        const message = this.messages.find((sent) => sent.chatId === chatId && sent.messageId === messageId);
+        if (!message) {
+            throw new Error('message to edit not found');
+        }
+        return message;
+    }
+
+    async deleteMessage(chatId: number, messageId: number) {
+        this.deleted.push({ chatId, messageId });
+        return true;
+    }
+
+    async setMyCommands(commands: TelegramBot.BotCommand[], options?: { scope?: TelegramBot.BotCommandScope }) {
+        if (options?.scope?.type === 'all_group_chats') {
+            this.groupCommands = commands;
+        } else {
+            this.commands = commands;
+        }
+        return true;
+    }
+
+    async getMe(): Promise<TelegramBot.User> {
+        return { id: 1, is_bot: true, first_name: 'Breeze', username: BOT_USERNAME };
+    }
+
+    async answerCallbackQuery(queryId: string, options?: TelegramBot.AnswerCallbackQueryOptions) {
+        if (options?.text) {
+            this.callbackAnswers.push(options.text);
+        }
+        return true;
+    }
+
+    async sendText(chatId: number, text: string, fromId = chatId): Promise<TelegramBot.Message> {
+        const msg = {
+            message_id: this.nextMessageId++,
+            chat: chat(chatId),
+            from: { id: fromId, is_bot: false, first_name: 'Tester' },
+            date: 0,
+            text
+        } as TelegramBot.Message;
+
+        for (const { regexp, callback } of this.textHandlers) {
+            const match = regexp.exec(text);
+            if (match) {
+                await callback(msg, match);
+            }
+        }
+        return this.receive(msg);
+    }
+
+    // Sends a file the bot can download through getFileStream
+    async uploadFile(chatId: number, content: Buffer, fileName: string): Promise<TelegramBot.Message> {
+        const fileId = `file-${this.nextMessageId}`;
+        this.files.set(fileId, content);
+
+        return this.receive({
+            message_id: this.nextMessageId++,
+            chat: chat(chatId),
+            from: { id: chatId, is_bot: false, first_name: 'Tester' },
+            date: 0,
+            document: { file_id: fileId, file_unique_id: fileId, file_name: fileName, file_size: content.length }
+        });
+    }
+
+    private async receive(msg: TelegramBot.Message): Promise<TelegramBot.Message> {
+        this.received.push(msg);
+        for (const callback of this.handlers.message) {
+            await callback(msg);
+        }
+        return msg;
+    }
+
+    // Taps a button on the given message, by default the newest one that still has buttons
+    async tap(chatId: number, data: string, messageId = this.lastMenu(chatId)?.messageId ?? 0, fromId = chatId) {
+        const replyTo = this.messages.find((sent) => sent.chatId === chatId && sent.messageId === messageId)?.options?.reply_to_message_id;
+        const query = {
+            id: String(this.nextMessageId++),
+            from: { id: fromId, is_bot: false, first_name: 'Tester' },
+            message: {
+                message_id: messageId,
+                chat: chat(chatId),
+                date: 0,
+                reply_to_message: this.received.find((msg) => msg.chat.id === chatId && msg.message_id === replyTo)
+            },
+            chat_instance: String(chatId),
+            data
+        } as TelegramBot.CallbackQuery;
+
+        for (const callback of this.handlers.callback_query) {
+            await callback(query);
+        }
+    }
+
+    lastMessage(chatId: number): SentMessage | undefined {
+        return [...this.sent].reverse().find((message) => message.chatId === chatId);
+    }
+
+    // The newest message with buttons, which may have been edited since later messages were sent
+    lastMenu(chatId: number): SentMessage | undefined {
+        return [...this.messages].reverse().find((message) => message.chatId === chatId && this.buttons(message).length > 0);
+    }
+
+    messagesTo(chatId: number): string[] {
+        return this.sent.filter((message) => message.chatId === chatId).map((message) => message.text);
+    }
+
+    buttons(message: SentMessage | undefined): string[] {
+        const markup = message?.options?.reply_markup as TelegramBot.InlineKeyboardMarkup | undefined;
+        return (markup?.inline_keyboard ?? []).flat().map((button) => button.callback_data ?? button.url!);
+    }
+}
+
+// Token-2022 accounts get the account type byte and the ImmutableOwner extension associated accounts carry
+function tokenAccountInfo(owner: PublicKey, symbol: TokenSymbol, amount: bigint, programId = TOKEN_PROGRAM_ID): AccountInfo<Buffer> {
+    const mint = new PublicKey(TOKEN_MINTS[symbol]);
+    const data = programId.equals(TOKEN_2022_PROGRAM_ID)
+        ? Buffer.concat([Buffer.alloc(ACCOUNT_SIZE), Buffer.from([2, 7, 0, 0, 0])])
+        : Buffer.alloc(ACCOUNT_SIZE);
+    AccountLayout.encode({
+        mint,
+        owner,
+        amount,
+        delegateOption: 0,
+        delegate: PublicKey.default,
+        state: AccountState.Initialized,
+        isNativeOption: 0,
+        isNative: BigInt(0),
+        delegatedAmount: BigInt(0),
+        closeAuthorityOption: 0,
+        closeAuthority: PublicKey.default
+    }, data);
+
+    return { data, owner: programId, lamports: (128 + data.length) * 6960, executable: false };
+}
+
+// Serves SOL and SPL token balances from memory and accepts every transaction sent to it.
+// Simulations succeed without changing balances unless a simulated outcome is configured.
+// Sent transactions land once broadcast landAfterBroadcasts times, or never with dropTransactions,
+// and then step through confirmationStatuses on successive status checks.
+export class FakeConnection {
+    lamports: Map<string, number> = new Map();
+    sentTransactions: VersionedTransaction[] = [];
+    simulatedTransactions: VersionedTransaction[] = [];
+    confirmationError: TransactionError | null = null;
+    transactionLogs: string[] = [];
+    dropTransactions = false;
+    landAfterBroadcasts = 1;
+    confirmationStatuses: TransactionConfirmationStatus[] = ['finalized'];
+    broadcasts = 0;
+    private blockHeight = 1000;
+    private landed: Map<string, number> = new Map(); // signature → status checks since landing
+    simulationError: SimulatedTransactionResponse['err'] = null;
+    simulationLogs: string[] = [];
+    private accounts: Map<string, AccountInfo<Buffer>> = new Map();
+    private simulatedAccounts: Map<string, AccountInfo<Buffer>> = new Map();
+
+    setSolBalance(owner: PublicKey, sol: number) {
+        this.lamports.set(owner.toBase58(), Math.round(sol * 1e9));
+    }
+
+    setTokenBalance(owner: PublicKey, symbol: TokenSymbol, amount: bigint, programId = TOKEN_PROGRAM_IDS[symbol]) {
+        const mint = new PublicKey(TOKEN_MINTS[symbol]);
+        this.accounts.set(getAssociatedTokenAddressSync(mint, owner, false, programId).toBase58(), tokenAccountInfo(owner, symbol, amount, programId));
+    }
+
+    // Token balance the owner would have after the simulated transaction
+    setSimulatedTokenBalance(owner: PublicKey, symbol: TokenSymbol, amount: bigint) {
+        const mint = new PublicKey(TOKEN_MINTS[symbol]);
+        const programId = TOKEN_PROGRAM_IDS[symbol];
+        this.simulatedAccounts.set(getAssociatedTokenAddressSync(mint, owner, false, programId).toBase58(), tokenAccountInfo(owner, symbol, amount, programId));
+    }
+
+    async getBalance(publicKey: PublicKey): Promise<number> {
+        return this.lamports.get(publicKey.toBase58()) ?? 0;
+    }
+
+    async getAccountInfo(publicKey: PublicKey): Promise<AccountInfo<Buffer> | null> {
+        return this.accounts.get(publicKey.toBase58()) ?? null;
+    }
+
+    async getMultipleAccountsInfo(publicKeys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+        return publicKeys.map((publicKey) => this.getStoredAccount(publicKey.toBase58(), this.accounts));
+    }
+
+    async simulateTransaction(
+        transaction: VersionedTransaction,
+        config?: { accounts?: { addresses: string[] } }
+    ): Promise<{ context: { slot: number }; value: SimulatedTransactionResponse }> {
+        this.simulatedTransactions.push(transaction);
+
+        const accounts = config?.accounts?.addresses.map((address) => {
+            const account = this.getStoredAccount(address, this.simulatedAccounts) ?? this.getStoredAccount(address, this.accounts);
+            return account && { ...account, owner: account.owner.toBase58(), data: [account.data.toString('base64'), 'base64'] };
+        });
+
+        return {
+            context: { slot: 1 },
+            value: { err: this.simulationError, logs: this.simulationLogs, accounts, unitsConsumed: 21_337 }
+        };
+    }
+
+    async getMinimumBalanceForRentExemption(dataLength: number): Promise<number> {
+        return (128 + dataLength) * 6960;
+    }
+
+    async getFeeForMessage(message: VersionedMessage) {
+        return { context: { slot: 1 }, value: message.header.numRequiredSignatures * 5000 };
+    }
+
+    async getLatestBlockhash() {
+        return { blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: this.blockHeight + 150 };
+    }
+
+    // Every call moves the chain forward by one block
+    async getBlockHeight(): Promise<number> {
+        return ++this.blockHeight;
+    }
+
+    async sendRawTransaction(rawTransaction: Uint8Array): Promise<string> {
+        const transaction = VersionedTransaction.deserialize(rawTransaction);
+        const signature = bs58.encode(transaction.signatures[0]);
+
+        this.broadcasts += 1;
+        if (!this.sentTransactions.some((sent) => bs58.encode(sent.signatures[0]) === signature)) {
+            this.sentTransactions.push(transaction);
+        }
+        if (!this.dropTransactions && this.broadcasts >= this.landAfterBroadcasts && !this.landed.has(signature)) {
+            this.landed.set(signature, 0);
+        }
+
+        return signature;
+    }
+
+    async getSignatureStatuses(signatures: string[]) {
+        return {
+            context: { slot: 1 },
+            value: signatures.map((signature) => {
+                const checks = this.landed.get(signature);
+                if (checks === undefined) {
+                    return null;
+                }
+                this.landed.set(signature, checks + 1);
+                const confirmationStatus = this.confirmationStatuses[Math.min(checks, this.confirmationStatuses.length - 1)];
+                return { slot: 1, confirmations: null, err: this.confirmationError, confirmationStatus };
+            })
+        };
+    }
+
+    // Landed transactions that mention the address, newest first, down to `until`
+    async getSignaturesForAddress(address: PublicKey, options?: { until?: string; limit?: number }) {
+        const signatures = [...this.landed.keys()].reverse().filter((signature) =>
+            this.findSent(signature)?.message.staticAccountKeys.some((key) => key.equals(address))
+        );
+        const until = options?.until ? signatures.indexOf(options.until) : -1;
+        return signatures
+            .slice(0, until >= 0 ? until : undefined)
+            .slice(0, options?.limit)
+            .map((signature) => ({ signature, slot: 1, err: this.confirmationError, memo: null, blockTime: null }));
+    }
+
+    async getTransaction(signature: string) {
+        const transaction = this.findSent(signature);
+        return transaction ? { meta: { logMessages: this.transactionLogs }, transaction } : null;
+    }
+
+    private findSent(signature: string): VersionedTransaction | undefined {
+        return this.sentTransactions.find((sent) => bs58.encode(sent.signatures[0]) === signature);
+    }
+
+    private getStoredAccount(address: string, accounts: Map<string, AccountInfo<Buffer>>): AccountInfo<Buffer> | null {
+        const lamports = this.lamports.get(address);
+        if (lamports !== undefined && !accounts.has(address)) {
+            return { data: Buffer.alloc(0), owner: PublicKey.default, lamports, executable: false };
+        }
+        return accounts.get(address) ?? null;
+    }
+}
+
+export const TEST_VAULT_PROGRAM_ID = new PublicKey('BreezeTest111111111111111111111111111111111');
+
+// Builds a deposit or withdraw transaction shaped like the ones Breeze returns: deposits go to a
+// program-derived vault, withdrawals come from a pre-signed treasury, and fees and rent are paid by
+// payerKey when given. Extra instructions are appended.
+export function buildTestTransaction(
+    type: 'deposit' | 'withdraw',
+    params: BreezeTransactionParams,
+    extraInstructions: TransactionInstruction[] = []
+): string {
+    const asset = TEST_FUNDS.find((fund) => fund.id === params.fundId)?.baseAsset ?? 'USDC';
+    const mint = new PublicKey(TOKEN_MINTS[asset]);
+    const decimals = TOKEN_DECIMALS[asset];
+    const user = new PublicKey(params.userKey);
+    const payer = params.payerKey ? new PublicKey(params.payerKey) : user;
+    const vault = PublicKey.findProgramAddressSync([Buffer.from(params.fundId)], TEST_VAULT_PROGRAM_ID)[0];
+    const programId = TOKEN_PROGRAM_IDS[asset];
+    const treasury = Keypair.generate();
+    const userTokenAccount = getAssociatedTokenAddressSync(mint, user, false, programId);
+    const vaultTokenAccount = getAssociatedTokenAddressSync(mint, vault, true, programId);
+    const treasuryTokenAccount = getAssociatedTokenAddressSync(mint, treasury.publicKey, false, programId);
+
+    const instructions = type === 'deposit'
+        ? [
+            createAssociatedTokenAccountIdempotentInstruction(payer, vaultTokenAccount, vault, mint, programId),
+            createTransferCheckedInstruction(userTokenAccount, mint, vaultTokenAccount, user, params.amount, decimals, [], programId)
+        ]
+        : [
+            createAssociatedTokenAccountIdempotentInstruction(payer, userTokenAccount, user, mint, programId),
+            createTransferCheckedInstruction(treasuryTokenAccount, mint, userTokenAccount, treasury.publicKey, params.amount, decimals, [], programId)
+        ];
+
+    const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: [ComputeBudgetProgram.setComputeUnitLimit({ units: 200_000 }), ...instructions, ...extraInstructions]
+    }).compileToV0Message();
+
+    const transaction = new VersionedTransaction(message);
+    if (type === 'withdraw') {
+        transaction.sign([treasury]);
+    }
+
+    return Buffer.from(transaction.serialize()).toString('base64');
+}
+
+function emptyPage() {
+    return { data: [], meta: { page: 1, per_page: 10, total: 0, total_pages: 1, has_more: false } };
+}
+
+// Canned Breeze responses; transaction requests are recorded for assertions.
+// Without a canned transactionResponse a realistic transaction is built for each request.
+export class StubBreezeClient implements BreezeClient {
+    balances: BreezeUserBalancesResponse | null = emptyPage();
+    yields: BreezeUserYieldResponse | null = emptyPage();
+    transactionResponse?: BreezeApiResponseUpdated;
+    depositRequests: BreezeTransactionParams[] = [];
+    withdrawRequests: BreezeTransactionParams[] = [];
+    yieldRequests: { fundId?: string; page?: number; limit?: number }[] = [];
+
+    async getUserBalances(userPublicKey: string, page?: number, limit?: number): Promise<BreezeUserBalancesResponse | null> {
+        return this.balances;
+    }
+
+    async getUserYield(userPublicKey: string, fundId?: string, page?: number, limit?: number): Promise<BreezeUserYieldResponse | null> {
+        this.yieldRequests.push({ fundId, page, limit });
+        return this.yields;
+    }
+
+    async createDepositTransaction(params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated> {
+        this.depositRequests.push(params);
+        return this.transactionResponse ?? buildTestTransaction('deposit', params);
+    }
+
+    async createWithdrawTransaction(params: BreezeTransactionParams): Promise<BreezeApiResponseUpdated> {
+        this.withdrawRequests.push(params);
+        return this.transactionResponse ?? buildTestTransaction('withdraw', params);
+    }
+}
+
+export function createTestBot(
+    breeze: BreezeClient = new StubBreezeClient(),
+    funds: BreezeFund[] = TEST_FUNDS,
+    feeSponsor?: FeeSponsor,
+    connection: FakeConnection = new FakeConnection()
+) {
+    const telegram = new FakeTelegramBot();
+    const userStore = new InMemoryUserStore();
+    const breezeBot = new BreezeBot(
+        telegram as unknown as TelegramBot,
+        connection as unknown as Connection,
+        breeze,
+        userStore,
+        funds,
+        feeSponsor
+    );
+
+    return { breezeBot, telegram, connection, userStore, breeze };
+}
+
+// Generates a wallet for the chat and seals it, leaving it unlocked
+export async function setupWallet(telegram: FakeTelegramBot, userStore: InMemoryUserStore, chatId: number): Promise<PublicKey> {
+    await telegram.sendText(chatId, '/start');
+    await telegram.tap(chatId, callbackData('generateKeypair'));
+    await telegram.sendText(chatId, TEST_PASSPHRASE);
+
+    const userData = await userStore.get(chatId);
+    return new PublicKey(userData!.publicKey!);
+}
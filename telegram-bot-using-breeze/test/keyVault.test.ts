@@ -0,0 +1,54 @@
+import { Keypair } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { SealedKey, sealSecretKey, unsealSecretKey, WrongPassphraseError } from '../src/keyVault.js';
+
+const PASSPHRASE = 'correct horse battery';
+const MASTER_KEY = 'server master key';
+
+// Flips the first byte of one base64 encoded field
+function tamper(sealedKey: SealedKey, field: keyof SealedKey): SealedKey {
+    const bytes = Buffer.from(sealedKey[field], 'base64');
+    bytes[0] ^= 0xff;
+    return { ...sealedKey, [field]: bytes.toString('base64') };
+}
+
+describe('keyVault', () => {
+    it('unseals the keypair it sealed', async () => {
+        const keypair = Keypair.generate();
+
+        const sealedKey = await sealSecretKey(keypair.secretKey, PASSPHRASE, MASTER_KEY);
+        const unsealed = await unsealSecretKey(sealedKey, PASSPHRASE, MASTER_KEY);
+
+        expect(Buffer.from(unsealed.secretKey)).toEqual(Buffer.from(keypair.secretKey));
+        expect(JSON.stringify(sealedKey)).not.toContain(Buffer.from(keypair.secretKey).toString('base64'));
+    });
+
+    it('uses a fresh salt and iv every time', async () => {
+        const keypair = Keypair.generate();
+
+        const first = await sealSecretKey(keypair.secretKey, PASSPHRASE, MASTER_KEY);
+        const second = await sealSecretKey(keypair.secretKey, PASSPHRASE, MASTER_KEY);
+
+        expect(second.salt).not.toBe(first.salt);
+        expect(second.iv).not.toBe(first.iv);
+        expect(second.ciphertext).not.toBe(first.ciphertext);
+    });
+
+    it('refuses a wrong passphrase', async () => {
+        const sealedKey = await sealSecretKey(Keypair.generate().secretKey, PASSPHRASE, MASTER_KEY);
+
+        await expect(unsealSecretKey(sealedKey, 'wrong horse battery', MASTER_KEY)).rejects.toBeInstanceOf(WrongPassphraseError);
+    });
+
+    it('needs the master key it was sealed with', async () => {
+        const sealedKey = await sealSecretKey(Keypair.generate().secretKey, PASSPHRASE, MASTER_KEY);
+
+        await expect(unsealSecretKey(sealedKey, PASSPHRASE, 'another master key')).rejects.toBeInstanceOf(WrongPassphraseError);
+    });
+
+    it.each(['ciphertext', 'authTag', 'iv', 'salt'] as const)('detects a tampered %s', async (field) => {
+        const sealedKey = await sealSecretKey(Keypair.generate().secretKey, PASSPHRASE, MASTER_KEY);
+
+        await expect(unsealSecretKey(tamper(sealedKey, field), PASSPHRASE, MASTER_KEY)).rejects.toBeInstanceOf(WrongPassphraseError);
+    });
+});
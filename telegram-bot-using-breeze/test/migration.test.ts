@@ -0,0 +1,102 @@
+import { Connection, Keypair, PublicKey, SystemInstruction, SystemProgram, TransactionMessage } from '@solana/web3.js';
+import { getAssociatedTokenAddressSync, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { buildSweepTransaction, InsufficientSolError } from '../src/migration.js';
+import { TOKEN_MINTS } from '../src/tokens.js';
+import { FakeConnection } from './helpers.js';
+
+const TOKEN_ACCOUNT_RENT = 2_039_280;
+const SYSTEM_ACCOUNT_RENT = 890_880;
+const FEE = 5000;
+
+describe('buildSweepTransaction', () => {
+    let connection: FakeConnection;
+    let from: Keypair;
+    let to: Keypair;
+
+    beforeEach(() => {
+        connection = new FakeConnection();
+        from = Keypair.generate();
+        to = Keypair.generate();
+    });
+
+    function sweep() {
+        return buildSweepTransaction(connection as unknown as Connection, from.publicKey, to.publicKey);
+    }
+
+    function instructions(transaction: NonNullable<Awaited<ReturnType<typeof sweep>>>['transaction']) {
+        return TransactionMessage.decompile(transaction.message).instructions;
+    }
+
+    it('returns nothing for an empty wallet', async () => {
+        expect(await sweep()).toBeUndefined();
+    });
+
+    it('moves every token and all SOL after the fee in one transaction', async () => {
+        connection.setSolBalance(from.publicKey, 0.01);
+        connection.setTokenBalance(from.publicKey, 'USDC', BigInt(5_000_000));
+        connection.setTokenBalance(from.publicKey, 'USDT', BigInt(7_000_000));
+
+        const result = (await sweep())!;
+
+        expect(result.tokens).toEqual([{ symbol: 'USDC', amount: BigInt(5_000_000) }, { symbol: 'USDT', amount: BigInt(7_000_000) }]);
+        expect(result.lamports).toBe(10_000_000 - FEE);
+        expect(result.transaction.message.staticAccountKeys[0].equals(from.publicKey)).toBe(true);
+        expect(result.transaction.message.header.numRequiredSignatures).toBe(1);
+
+        const keys = result.transaction.message.staticAccountKeys;
+        const newUsdcAccount = getAssociatedTokenAddressSync(new PublicKey(TOKEN_MINTS.USDC), to.publicKey);
+        expect(keys.some((key) => key.equals(newUsdcAccount))).toBe(true);
+
+        const [transfer] = instructions(result.transaction).slice(-1);
+        expect(transfer.programId.equals(SystemProgram.programId)).toBe(true);
+        expect(SystemInstruction.decodeTransfer(transfer)).toMatchObject({ lamports: BigInt(10_000_000 - FEE) });
+    });
+
+    it('closes empty token accounts without opening new ones', async () => {
+        connection.setSolBalance(from.publicKey, 0.01);
+        connection.setTokenBalance(from.publicKey, 'USDS', BigInt(0));
+
+        const result = (await sweep())!;
+
+        expect(result.tokens).toEqual([]);
+        const tokenInstructions = instructions(result.transaction).filter((instruction) => instruction.programId.equals(TOKEN_PROGRAM_ID));
+        expect(tokenInstructions).toHaveLength(1);
+        expect(tokenInstructions[0].keys[1].pubkey.equals(to.publicKey)).toBe(true);
+    });
+
+    it('moves Token-2022 balances such as PYUSD through the Token-2022 program', async () => {
+        connection.setSolBalance(from.publicKey, 0.01);
+        connection.setTokenBalance(from.publicKey, 'PYUSD', BigInt(3_000_000), TOKEN_2022_PROGRAM_ID);
+
+        const result = (await sweep())!;
+
+        expect(result.tokens).toEqual([{ symbol: 'PYUSD', amount: BigInt(3_000_000) }]);
+        const tokenInstructions = instructions(result.transaction).filter((instruction) => !instruction.programId.equals(SystemProgram.programId));
+        expect(tokenInstructions.map((instruction) => instruction.programId.toBase58())).not.toContain(TOKEN_PROGRAM_ID.toBase58());
+
+        const newPyusdAccount = getAssociatedTokenAddressSync(new PublicKey(TOKEN_MINTS.PYUSD), to.publicKey, false, TOKEN_2022_PROGRAM_ID);
+        expect(result.transaction.message.staticAccountKeys.some((key) => key.equals(newPyusdAccount))).toBe(true);
+    });
+
+    it('reserves the larger rent of Token-2022 accounts', async () => {
+        const token2022Rent = (128 + 170) * 6960;
+        connection.setSolBalance(from.publicKey, TOKEN_ACCOUNT_RENT / 1e9);
+        connection.setTokenBalance(from.publicKey, 'PYUSD', BigInt(3_000_000), TOKEN_2022_PROGRAM_ID);
+
+        await expect(sweep()).rejects.toEqual(new InsufficientSolError(token2022Rent + FEE));
+    });
+
+    it('leaves SOL behind that is too little to open the new wallet', async () => {
+        connection.setSolBalance(from.publicKey, (SYSTEM_ACCOUNT_RENT - 1) / 1e9);
+
+        expect(await sweep()).toBeUndefined();
+    });
+
+    it("refuses when the wallet can't pay the fee and the new token accounts", async () => {
+        connection.setSolBalance(from.publicKey, TOKEN_ACCOUNT_RENT / 1e9);
+        connection.setTokenBalance(from.publicKey, 'USDC', BigInt(5_000_000));
+
+        await expect(sweep()).rejects.toEqual(new InsufficientSolError(TOKEN_ACCOUNT_RENT + FEE));
+    });
+});
@@ -0,0 +1,53 @@
+import jsQR from 'jsqr';
+import { PNG } from 'pngjs';
+import { Keypair, PACKET_DATA_SIZE, TransactionInstruction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { describe, expect, it } from 'vitest';
+import { qrCodePng } from '../src/qr.js';
+
+// A transaction padded with instruction data up to the network's packet limit
+function largestTransaction(): string {
+    const payer = Keypair.generate().publicKey;
+    const programId = Keypair.generate().publicKey;
+    const build = (dataLength: number) => new VersionedTransaction(new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions: [new TransactionInstruction({ programId, keys: [], data: Buffer.alloc(dataLength, 7) })]
+    }).compileToV0Message()).serialize();
+
+    let dataLength = PACKET_DATA_SIZE - build(0).length;
+    while (build(dataLength).length > PACKET_DATA_SIZE) {
+        dataLength--;
+    }
+    const serialized = build(dataLength);
+    expect(serialized.length).toBe(PACKET_DATA_SIZE);
+    return Buffer.from(serialized).toString('base64');
+}
+
+function decode(png: Buffer): { text: string | undefined; width: number; height: number } {
+    const { data, width, height } = PNG.sync.read(png);
+    // jsqr is CommonJS, so under NodeNext its default export is the module's `default` property
+    return { text: jsQR.default(new Uint8ClampedArray(data), width, height)?.data, width, height };
+}
+
+describe('qrCodePng', () => {
+    it('round-trips the largest transaction the network accepts', async () => {
+        const base64 = largestTransaction();
+
+        const { text, width, height } = decode(await qrCodePng(base64));
+
+        expect(text).toBe(base64);
+        expect(height).toBe(width);
+        expect(width).toBeLessThanOrEqual(1280);
+    });
+
+    it('draws small codes with large modules', async () => {
+        const { text, width } = decode(await qrCodePng('hello'));
+
+        expect(text).toBe('hello');
+        expect(width).toBeGreaterThan(1000);
+    });
+
+    it('refuses text longer than the largest code holds', async () => {
+        await expect(qrCodePng('a'.repeat(2954))).rejects.toThrow();
+    });
+});
@@ -0,0 +1,124 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Connection, Keypair, VersionedTransaction } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    createSolanaPayServer,
+    findSignedTransaction,
+    solanaPayUrl,
+    TransactionRequestError,
+    transactionRequestLink,
+    TransactionRequestSource
+} from '../src/solanaPay.js';
+import { buildTestTransaction, FakeConnection } from './helpers.js';
+
+const PUBLIC_URL = 'https://pay.example.test';
+
+describe('createSolanaPayServer', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let source: { createTransactionRequest: ReturnType<typeof vi.fn> };
+
+    beforeEach(async () => {
+        source = { createTransactionRequest: vi.fn(async () => ({ transaction: 'dHg=', message: 'Deposit 1.00 USDC to Breeze' })) };
+        server = createSolanaPayServer(source as TransactionRequestSource, { publicUrl: PUBLIC_URL, label: 'Breeze Bot' });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    function post(path: string, body: string) {
+        return fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+    }
+
+    it('answers GET with the label and icon', async () => {
+        const response = await fetch(`${baseUrl}/solana-pay/tx/abc`);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ label: 'Breeze Bot', icon: `${PUBLIC_URL}/solana-pay/icon.svg` });
+        expect((await fetch(`${baseUrl}/solana-pay/icon.svg`)).headers.get('content-type')).toBe('image/svg+xml');
+    });
+
+    it('hands the connected account to the source and returns its transaction', async () => {
+        const account = Keypair.generate().publicKey;
+
+        const response = await post('/solana-pay/tx/abc', JSON.stringify({ account: account.toBase58() }));
+
+        expect(await response.json()).toEqual({ transaction: 'dHg=', message: 'Deposit 1.00 USDC to Breeze' });
+        expect(source.createTransactionRequest).toHaveBeenCalledWith('abc', account);
+    });
+
+    it('turns refusals and bad accounts into errors the wallet can show', async () => {
+        source.createTransactionRequest.mockRejectedValue(new TransactionRequestError(410, 'This request has expired.'));
+
+        const refused = await post('/solana-pay/tx/abc', JSON.stringify({ account: Keypair.generate().publicKey.toBase58() }));
+        expect(refused.status).toBe(410);
+        expect(await refused.json()).toEqual({ message: 'This request has expired.' });
+
+        expect((await post('/solana-pay/tx/abc', JSON.stringify({ account: 'nope' }))).status).toBe(400);
+        expect((await post('/solana-pay/tx/abc', 'not json')).status).toBe(400);
+    });
+
+    it('redirects the open page to the Solana Pay URL', async () => {
+        const page = await (await fetch(`${baseUrl}/solana-pay/open/abc`)).text();
+
+        expect(page).toContain(`url=${solanaPayUrl(transactionRequestLink(PUBLIC_URL, 'abc'))}`);
+        expect(solanaPayUrl(transactionRequestLink(PUBLIC_URL, 'abc'))).toBe('solana:https://pay.example.test/solana-pay/tx/abc');
+    });
+
+    it('only serves its own paths', async () => {
+        expect((await fetch(`${baseUrl}/other`)).status).toBe(404);
+        expect((await fetch(`${baseUrl}/solana-pay/tx`)).status).toBe(404);
+        expect((await fetch(`${baseUrl}/solana-pay/open/abc`, { method: 'POST' })).status).toBe(405);
+        expect((await fetch(`${baseUrl}/healthz`)).status).toBe(200);
+    });
+});
+
+describe('findSignedTransaction', () => {
+    let connection: FakeConnection;
+    let wallet: Keypair;
+
+    beforeEach(() => {
+        connection = new FakeConnection();
+        wallet = Keypair.generate();
+    });
+
+    async function send(): Promise<VersionedTransaction> {
+        const serialized = buildTestTransaction('deposit', { fundId: 'usdc-fund', amount: 1_000_000, all: false, userKey: wallet.publicKey.toBase58() });
+        const transaction = VersionedTransaction.deserialize(Buffer.from(serialized, 'base64'));
+        transaction.sign([wallet]);
+        await connection.sendRawTransaction(transaction.serialize());
+        return transaction;
+    }
+
+    function find(blockhashes: string[], options: { until?: string; checked: Set<string> }) {
+        return findSignedTransaction(connection as unknown as Connection, wallet.publicKey, blockhashes, options);
+    }
+
+    it('finds the transaction built on a served blockhash', async () => {
+        const other = await send();
+        const served = await send();
+
+        const checked = new Set<string>();
+        const signature = await find([served.message.recentBlockhash], { checked });
+
+        expect(signature).toBe((await connection.getSignaturesForAddress(wallet.publicKey))[0].signature);
+        expect(checked.size).toBe(1);
+        expect(await find([other.message.recentBlockhash], { checked })).toBeDefined();
+    });
+
+    it('skips transactions from before the request and ones already checked', async () => {
+        const earlier = await send();
+        const [{ signature: until }] = await connection.getSignaturesForAddress(wallet.publicKey);
+        const later = await send();
+        const checked = new Set<string>();
+
+        expect(await find([earlier.message.recentBlockhash], { until, checked })).toBeUndefined();
+        expect(checked.size).toBe(1);
+        expect(await find([later.message.recentBlockhash], { until, checked })).toBeUndefined();
+        expect(await find([later.message.recentBlockhash], { until, checked: new Set() })).toBeDefined();
+    });
+});
@@ -0,0 +1,109 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FeeSponsor, FileSponsorshipLedger, InMemorySponsorshipLedger } from '../src/sponsorship.js';
+
+const NOON = Date.UTC(2026, 0, 15, 12);
+const HOUR = 60 * 60 * 1000;
+
+describe('FeeSponsor', () => {
+    let sponsor: FeeSponsor;
+
+    beforeEach(() => {
+        sponsor = new FeeSponsor(Keypair.generate(), new InMemorySponsorshipLedger(), {
+            perUserDailyLamports: 30_000,
+            dailyLamports: 50_000,
+            maxFeeLamports: 10_000
+        });
+    });
+
+    it("sponsors users until a transaction could exceed their day's budget", async () => {
+        await sponsor.record(1, 'sig-1', 10_000, NOON);
+        expect(await sponsor.canSponsor(1, NOON)).toBe(true);
+
+        await sponsor.record(1, 'sig-2', 15_000, NOON);
+        expect(await sponsor.canSponsor(1, NOON)).toBe(false);
+        expect(await sponsor.canSponsor(2, NOON)).toBe(true);
+    });
+
+    it('stops sponsoring everyone once the global budget is nearly spent', async () => {
+        await sponsor.record(1, 'sig-1', 25_000, NOON);
+        await sponsor.record(2, 'sig-2', 20_000, NOON);
+
+        expect(await sponsor.canSponsor(3, NOON)).toBe(false);
+    });
+
+    it('forgets who was sponsored but keeps counting the fees', async () => {
+        await sponsor.record(1, 'sig-1', 35_000, NOON);
+        expect(await sponsor.canSponsor(1, NOON)).toBe(false);
+
+        await sponsor.forget(1);
+        expect(await sponsor.canSponsor(1, NOON)).toBe(true);
+
+        await sponsor.record(2, 'sig-2', 10_000, NOON);
+        expect(await sponsor.canSponsor(3, NOON)).toBe(false);
+    });
+
+    it('reserves fees one at a time so concurrent transactions stay within the budgets', async () => {
+        const reserved = await Promise.all([1, 2, 3, 4, 5, 6].map((userId) => sponsor.reserve(userId, `sig-${userId}`, 10_000, NOON)));
+
+        expect(reserved).toEqual([true, true, true, true, true, false]);
+        expect(await sponsor.canSponsor(7, NOON)).toBe(false);
+    });
+
+    it('refuses to reserve more than one transaction may cost or the user has left', async () => {
+        expect(await sponsor.reserve(1, 'sig-1', 10_001, NOON)).toBe(false);
+
+        await sponsor.record(1, 'sig-2', 25_000, NOON);
+        expect(await sponsor.reserve(1, 'sig-3', 6000, NOON)).toBe(false);
+        expect(await sponsor.reserve(1, 'sig-4', 5000, NOON)).toBe(true);
+    });
+
+    it('starts fresh budgets at midnight UTC', async () => {
+        await sponsor.record(1, 'sig-1', 30_000, NOON);
+
+        expect(await sponsor.canSponsor(1, NOON + 11 * HOUR)).toBe(false);
+        expect(await sponsor.canSponsor(1, NOON + 12 * HOUR)).toBe(true);
+    });
+});
+
+describe('FileSponsorshipLedger', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'breeze-ledger-'));
+        filePath = path.join(dir, 'ledger', 'sponsored-fees.jsonl');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('appends one line per fee and reads them back after a restart', async () => {
+        const ledger = new FileSponsorshipLedger(filePath);
+        await ledger.record({ userId: 1, signature: 'sig-1', lamports: 5000, at: NOON - 24 * HOUR });
+        await ledger.record({ userId: 2, signature: 'sig-2', lamports: 7000, at: NOON });
+
+        expect(readFileSync(filePath, 'utf8').trim().split('\n')).toHaveLength(2);
+        expect(await new FileSponsorshipLedger(filePath).since(NOON)).toEqual([{ userId: 2, signature: 'sig-2', lamports: 7000, at: NOON }]);
+    });
+
+    it('removes forgotten users from the file', async () => {
+        const ledger = new FileSponsorshipLedger(filePath);
+        await ledger.record({ userId: 1, signature: 'sig-1', lamports: 5000, at: NOON });
+        await ledger.record({ userId: 2, signature: 'sig-2', lamports: 7000, at: NOON });
+
+        await ledger.forget(1);
+        await ledger.record({ userId: 2, signature: 'sig-3', lamports: 6000, at: NOON });
+
+        expect(readFileSync(filePath, 'utf8')).not.toContain('sig-1');
+        expect(await new FileSponsorshipLedger(filePath).since(0)).toEqual([
+            { lamports: 5000, at: NOON },
+            { userId: 2, signature: 'sig-2', lamports: 7000, at: NOON },
+            { userId: 2, signature: 'sig-3', lamports: 6000, at: NOON }
+        ]);
+    });
+});
@@ -0,0 +1,146 @@
+import { ComputeBudgetProgram, Connection, Keypair, VersionedTransaction } from '@solana/web3.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    describeTransactionError,
+    submitTransaction,
+    trackTransaction,
+    TransactionDroppedError,
+    TransactionFailedError,
+    TransactionTimeoutError,
+    withComputeUnitPrice
+} from '../src/submission.js';
+import { buildTestTransaction, FakeConnection } from './helpers.js';
+
+function signedDeposit(user: Keypair): VersionedTransaction {
+    const serialized = buildTestTransaction('deposit', { fundId: 'usdc-fund', amount: 1_000_000, all: false, userKey: user.publicKey.toBase58() });
+    const transaction = VersionedTransaction.deserialize(Buffer.from(serialized, 'base64'));
+    transaction.sign([user]);
+    return transaction;
+}
+
+function programIds(transaction: VersionedTransaction): string[] {
+    const keys = transaction.message.staticAccountKeys;
+    return transaction.message.compiledInstructions.map((instruction) => keys[instruction.programIdIndex].toBase58());
+}
+
+describe('withComputeUnitPrice', () => {
+    const connection = new FakeConnection() as unknown as Connection;
+    const user = Keypair.generate().publicKey.toBase58();
+
+    function decode(type: 'deposit' | 'withdraw'): VersionedTransaction {
+        const serialized = buildTestTransaction(type, { fundId: 'usdc-fund', amount: 1_000_000, all: false, userKey: user });
+        return VersionedTransaction.deserialize(Buffer.from(serialized, 'base64'));
+    }
+
+    it('prepends a compute-unit price to unsigned transactions', async () => {
+        const transaction = decode('deposit');
+
+        const priced = await withComputeUnitPrice(connection, transaction, 5_000);
+
+        expect(priced.message.compiledInstructions).toHaveLength(transaction.message.compiledInstructions.length + 1);
+        expect(programIds(priced)[0]).toBe(ComputeBudgetProgram.programId.toBase58());
+        expect(priced.message.staticAccountKeys[0].toBase58()).toBe(user);
+    });
+
+    it('prices a transaction only once', async () => {
+        const priced = await withComputeUnitPrice(connection, decode('deposit'), 5_000);
+
+        expect(await withComputeUnitPrice(connection, priced, 10_000)).toBe(priced);
+    });
+
+    it('leaves pre-signed transactions and a zero price alone', async () => {
+        const withdrawal = decode('withdraw');
+        const deposit = decode('deposit');
+
+        expect(await withComputeUnitPrice(connection, withdrawal, 5_000)).toBe(withdrawal);
+        expect(await withComputeUnitPrice(connection, deposit, 0)).toBe(deposit);
+    });
+});
+
+describe('submitTransaction', () => {
+    let fake: FakeConnection;
+    let connection: Connection;
+    let user: Keypair;
+
+    beforeEach(() => {
+        fake = new FakeConnection();
+        connection = fake as unknown as Connection;
+        user = Keypair.generate();
+    });
+
+    it('returns the signature once the transaction is confirmed', async () => {
+        const onStatus = vi.fn();
+        fake.confirmationStatuses = ['confirmed'];
+
+        const signature = await submitTransaction(connection, signedDeposit(user), { rebroadcastIntervalMs: 0, onStatus });
+
+        expect(onStatus.mock.calls).toEqual([['sent', signature], ['confirmed', signature]]);
+        expect(fake.broadcasts).toBe(1);
+    });
+
+    it('reports every status up to the requested commitment', async () => {
+        const onStatus = vi.fn();
+        fake.confirmationStatuses = ['processed', 'processed', 'confirmed', 'finalized'];
+
+        await submitTransaction(connection, signedDeposit(user), { commitment: 'finalized', rebroadcastIntervalMs: 0, onStatus });
+
+        expect(onStatus.mock.calls.map(([status]) => status)).toEqual(['sent', 'processed', 'confirmed', 'finalized']);
+        expect(fake.broadcasts).toBe(1);
+    });
+
+    it('gives up after the timeout with the last status reached', async () => {
+        fake.confirmationStatuses = ['confirmed'];
+
+        const error = await submitTransaction(connection, signedDeposit(user), { commitment: 'finalized', rebroadcastIntervalMs: 0, timeoutMs: 0 })
+            .catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(TransactionTimeoutError);
+        expect(error.lastStatus).toBe('confirmed');
+    });
+
+    it('follows a transaction sent elsewhere without sending it again', async () => {
+        const onStatus = vi.fn();
+        fake.confirmationStatuses = ['confirmed', 'finalized'];
+        const transaction = signedDeposit(user);
+        const signature = await fake.sendRawTransaction(transaction.serialize());
+
+        await trackTransaction(connection, signature, { commitment: 'finalized', rebroadcastIntervalMs: 0, onStatus });
+
+        expect(onStatus.mock.calls).toEqual([['confirmed', signature], ['finalized', signature]]);
+        expect(fake.broadcasts).toBe(1);
+    });
+
+    it('rebroadcasts until the transaction lands', async () => {
+        fake.landAfterBroadcasts = 4;
+
+        await submitTransaction(connection, signedDeposit(user), { rebroadcastIntervalMs: 0 });
+
+        expect(fake.broadcasts).toBe(4);
+    });
+
+    it('reports transactions that never land before the blockhash expires as dropped', async () => {
+        fake.dropTransactions = true;
+
+        await expect(submitTransaction(connection, signedDeposit(user), { rebroadcastIntervalMs: 0 }))
+            .rejects.toBeInstanceOf(TransactionDroppedError);
+        expect(fake.broadcasts).toBeGreaterThan(100);
+    });
+
+    it('reports on-chain failures with the program error and logs', async () => {
+        fake.confirmationError = { InstructionError: [1, { Custom: 6001 }] };
+        fake.transactionLogs = ['Program log: Error: vault is paused'];
+
+        const error = await submitTransaction(connection, signedDeposit(user), { rebroadcastIntervalMs: 0 }).catch((caught) => caught);
+
+        expect(error).toBeInstanceOf(TransactionFailedError);
+        expect(error.reason).toBe('instruction 1 failed with custom program error 0x1771');
+        expect(error.logs).toEqual(['Program log: Error: vault is paused']);
+    });
+});
+
+describe('describeTransactionError', () => {
+    it('names built-in instruction errors', () => {
+        expect(describeTransactionError({ InstructionError: [0, 'InvalidAccountData'] })).toBe('instruction 0 failed: InvalidAccountData');
+        expect(describeTransactionError('AccountNotFound')).toBe('AccountNotFound');
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { convertFromTokenAmount, convertToTokenAmount } from '../src/tokens.js';
+
+describe('convertToTokenAmount', () => {
+    it('converts whole and fractional amounts to token units', () => {
+        expect(convertToTokenAmount(0, 'USDC')).toBe(BigInt(0));
+        expect(convertToTokenAmount(1, 'USDC')).toBe(BigInt(1_000_000));
+        expect(convertToTokenAmount(1.5, 'USDC')).toBe(BigInt(1_500_000));
+        expect(convertToTokenAmount(123456.789012, 'USDT')).toBe(BigInt(123_456_789_012));
+    });
+
+    it('handles the smallest unit without floating point drift', () => {
+        expect(convertToTokenAmount(0.000001, 'USDC')).toBe(BigInt(1));
+        expect(convertToTokenAmount(0.1 + 0.2, 'USDC')).toBe(BigInt(300_000));
+        expect(convertToTokenAmount(1.005, 'PYUSD')).toBe(BigInt(1_005_000));
+    });
+
+    it('rounds digits beyond the token precision', () => {
+        expect(convertToTokenAmount(0.0000004, 'USDC')).toBe(BigInt(0));
+        expect(convertToTokenAmount(0.0000016, 'USDC')).toBe(BigInt(2));
+    });
+
+    it('uses the decimals of the token', () => {
+        expect(convertToTokenAmount(1.5, 'SOL')).toBe(BigInt(1_500_000_000));
+        expect(convertToTokenAmount(0.000000001, 'SOL')).toBe(BigInt(1));
+    });
+
+    it('falls back to 6 decimals for unknown tokens', () => {
+        expect(convertToTokenAmount(2.25, 'UNKNOWN')).toBe(BigInt(2_250_000));
+    });
+
+    it('keeps large balances exact', () => {
+        expect(convertToTokenAmount(9_000_000_000, 'USDC')).toBe(BigInt('9000000000000000'));
+    });
+});
+
+describe('convertFromTokenAmount', () => {
+    it('converts token units to human readable amounts', () => {
+        expect(convertFromTokenAmount(BigInt(0), 'USDC')).toBe(0);
+        expect(convertFromTokenAmount(BigInt(1), 'USDC')).toBe(0.000001);
+        expect(convertFromTokenAmount(BigInt(1_500_000), 'USDC')).toBe(1.5);
+        expect(convertFromTokenAmount(BigInt(1_500_000_000), 'SOL')).toBe(1.5);
+    });
+
+    it('falls back to 6 decimals for unknown tokens', () => {
+        expect(convertFromTokenAmount(BigInt(2_250_000), 'UNKNOWN')).toBe(2.25);
+    });
+
+    it('handles amounts beyond Number.MAX_SAFE_INTEGER token units', () => {
+        expect(convertFromTokenAmount(BigInt('12345678901234567890'), 'USDC')).toBeCloseTo(12345678901234.56789, 2);
+    });
+
+    it('round-trips amounts with up to 6 decimals', () => {
+        for (const amount of [0.000001, 0.1, 0.3, 1.23, 999.999999, 1234567.654321]) {
+            expect(convertFromTokenAmount(convertToTokenAmount(amount, 'USDC'), 'USDC')).toBe(amount);
+        }
+    });
+});
@@ -0,0 +1,109 @@
+import { promises as fsPromises, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createUserStore, FileUserStore, InMemoryUserStore, UserData } from '../src/userStore.js';
+
+const SEALED_KEY = { ciphertext: 'Y2lwaGVy', iv: 'aXY=', authTag: 'dGFn', salt: 'c2FsdA==' };
+
+describe('FileUserStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(path.join(os.tmpdir(), 'breeze-users-'));
+        filePath = path.join(dir, 'users.json');
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    function readStoredFile(): Record<string, Record<string, unknown>> {
+        return JSON.parse(readFileSync(filePath, 'utf8'));
+    }
+
+    it('reads back what was saved from a fresh instance on the same file', async () => {
+        const userData: UserData = {
+            sealedKey: SEALED_KEY,
+            publicKey: Keypair.generate().publicKey.toBase58(),
+            walletName: 'Main',
+            otherWallets: [{ name: 'Ledger', publicKey: Keypair.generate().publicKey.toBase58(), watchOnly: true }],
+            conversation: { state: { step: 'unlock_passphrase' }, expiresAt: 5 },
+            menuMessageId: 42,
+            pendingTransaction: { serializedTx: 'dHg=', type: 'deposit', amount: 10, asset: 'USDC', createdAt: 1, expiresAt: 2 }
+        };
+        await new FileUserStore(filePath).set(1, { ...userData, keypair: Keypair.generate(), unlockedUntil: 3 });
+
+        const loaded = await new FileUserStore(filePath).get(1);
+
+        expect(loaded).toMatchObject(userData);
+        expect(loaded?.keypair).toBeUndefined();
+        expect(loaded?.unlockedUntil).toBeUndefined();
+        expect(await new FileUserStore(filePath).get(2)).toBeUndefined();
+    });
+
+    it('replaces the file in one rename, leaving no temporary or lock file behind', async () => {
+        const store = new FileUserStore(filePath);
+
+        await Promise.all([1, 2, 3].map((userId) => store.set(userId, { walletName: `Wallet ${userId}` })));
+
+        expect(readdirSync(path.dirname(filePath))).toEqual(['users.json']);
+        expect(Object.keys(readStoredFile())).toEqual(['1', '2', '3']);
+    });
+
+    it('leaves the previous file intact when a write fails', async () => {
+        const store = new FileUserStore(filePath);
+        await store.set(1, { walletName: 'First' });
+        vi.spyOn(fsPromises, 'rename').mockRejectedValueOnce(new Error('disk full'));
+
+        await expect(store.set(2, { walletName: 'Second' })).rejects.toThrow('disk full');
+
+        expect(readStoredFile()).toEqual({ 1: expect.objectContaining({ walletName: 'First' }) });
+        await store.set(3, { walletName: 'Third' });
+        expect(Object.keys(readStoredFile())).toEqual(['1', '3']);
+    });
+
+    it('deletes a user for good and keeps the others', async () => {
+        const store = new FileUserStore(filePath);
+        await store.set(1, { walletName: 'First' });
+        await store.set(2, { walletName: 'Second' });
+
+        await store.delete(1);
+
+        expect(await store.get(1)).toBeUndefined();
+        const fresh = new FileUserStore(filePath);
+        expect(await fresh.get(1)).toBeUndefined();
+        expect((await fresh.get(2))?.walletName).toBe('Second');
+    });
+
+    it('keeps a legacy plaintext key until it is sealed', async () => {
+        const keypair = Keypair.generate();
+        writeFileSync(filePath, JSON.stringify({
+            1: { secretKey: bs58.encode(keypair.secretKey), publicKey: keypair.publicKey.toBase58() }
+        }));
+        const store = new FileUserStore(filePath);
+
+        const legacy = (await store.get(1))!;
+        expect(legacy.keypair?.publicKey.equals(keypair.publicKey)).toBe(true);
+
+        await store.set(1, { ...legacy, menuMessageId: 7 });
+        expect(readStoredFile()['1']).toMatchObject({ secretKey: bs58.encode(keypair.secretKey), menuMessageId: 7 });
+
+        await store.set(1, { ...legacy, sealedKey: SEALED_KEY });
+        expect(readStoredFile()['1'].secretKey).toBeUndefined();
+        expect(readStoredFile()['1'].sealedKey).toEqual(SEALED_KEY);
+        expect((await new FileUserStore(filePath).get(1))?.keypair).toBeUndefined();
+    });
+});
+
+describe('createUserStore', () => {
+    it('creates the configured store', () => {
+        expect(createUserStore('memory', 'unused.json')).toBeInstanceOf(InMemoryUserStore);
+        expect(createUserStore('file', 'users.json')).toBeInstanceOf(FileUserStore);
+        expect(() => createUserStore('redis', 'users.json')).toThrow('Unknown USER_STORE type: redis');
+    });
+});
@@ -0,0 +1,308 @@
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    TransactionInstruction,
+    TransactionMessage,
+    VersionedTransaction
+} from '@solana/web3.js';
+import {
+    createApproveInstruction,
+    createTransferCheckedInstruction,
+    createTransferInstruction,
+    getAssociatedTokenAddressSync,
+    TOKEN_2022_PROGRAM_ID,
+    TOKEN_PROGRAM_ID
+} from '@solana/spl-token';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TOKEN_MINTS } from '../src/tokens.js';
+import { ExpectedTransaction, isSignedBy, UnsafeTransactionError, verifyBalanceChanges, verifyTransaction } from '../src/verifier.js';
+import { buildTestTransaction, FakeConnection } from './helpers.js';
+
+const USDC = new PublicKey(TOKEN_MINTS.USDC);
+const PYUSD = new PublicKey(TOKEN_MINTS.PYUSD);
+const AMOUNT = 5_000_000;
+
+function decode(serialized: string): VersionedTransaction {
+    return VersionedTransaction.deserialize(Buffer.from(serialized, 'base64'));
+}
+
+function buildTransaction(payer: PublicKey, instructions: TransactionInstruction[]): VersionedTransaction {
+    const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: Keypair.generate().publicKey.toBase58(),
+        instructions
+    }).compileToV0Message();
+
+    return new VersionedTransaction(message);
+}
+
+describe('verifyTransaction', () => {
+    let connection: FakeConnection;
+    let user: PublicKey;
+    let expected: ExpectedTransaction;
+
+    async function problemsOf(transaction: VersionedTransaction, overrides: Partial<ExpectedTransaction> = {}): Promise<string[]> {
+        try {
+            await verifyTransaction(connection as unknown as Connection, transaction, { ...expected, ...overrides });
+            return [];
+        } catch (error) {
+            if (error instanceof UnsafeTransactionError) {
+                return error.problems;
+            }
+            throw error;
+        }
+    }
+
+    beforeEach(() => {
+        connection = new FakeConnection();
+        user = Keypair.generate().publicKey;
+        expected = { type: 'deposit', user, mint: USDC, tokenProgramId: TOKEN_PROGRAM_ID, amount: BigInt(AMOUNT), breezeProgramIds: [] };
+    });
+
+    it('accepts a deposit into a program vault', async () => {
+        const transaction = decode(buildTestTransaction('deposit', { fundId: 'usdc-fund', amount: AMOUNT, all: false, userKey: user.toBase58() }));
+
+        expect(await problemsOf(transaction)).toEqual([]);
+    });
+
+    it('accepts a withdrawal pre-signed by the fund', async () => {
+        const transaction = decode(buildTestTransaction('withdraw', { fundId: 'usdc-fund', amount: AMOUNT, all: false, userKey: user.toBase58() }));
+
+        expect(await problemsOf(transaction, { type: 'withdraw' })).toEqual([]);
+    });
+
+    it('rejects a different fee payer and unsigned extra signers', async () => {
+        const stranger = Keypair.generate().publicKey;
+        const transaction = buildTransaction(stranger, [
+            SystemProgram.transfer({ fromPubkey: stranger, toPubkey: user, lamports: 1 })
+        ]);
+
+        const problems = await problemsOf(transaction);
+
+        expect(problems).toContainEqual(expect.stringContaining('fee payer is'));
+        expect(problems).toContain('your wallet is not a signer');
+        expect(problems).toContainEqual(expect.stringContaining('unexpected signer'));
+    });
+
+    it('rejects programs outside the allowlist', async () => {
+        const transaction = buildTransaction(user, [
+            SystemProgram.transfer({ fromPubkey: user, toPubkey: Keypair.generate().publicKey, lamports: 1_000_000 })
+        ]);
+
+        expect(await problemsOf(transaction)).toEqual([expect.stringContaining('invokes unexpected program 1111')]);
+    });
+
+    it('allows the configured Breeze program', async () => {
+        const breezeProgram = Keypair.generate().publicKey;
+        const transaction = decode(buildTestTransaction(
+            'deposit',
+            { fundId: 'usdc-fund', amount: AMOUNT, all: false, userKey: user.toBase58() },
+            [new TransactionInstruction({ programId: breezeProgram, keys: [{ pubkey: user, isSigner: true, isWritable: true }] })]
+        ));
+
+        expect(await problemsOf(transaction)).toHaveLength(1);
+        expect(await problemsOf(transaction, { breezeProgramIds: [breezeProgram] })).toEqual([]);
+    });
+
+    it('rejects token approvals signed by the user', async () => {
+        const userTokenAccount = getAssociatedTokenAddressSync(USDC, user);
+        const transaction = buildTransaction(user, [
+            createApproveInstruction(userTokenAccount, Keypair.generate().publicKey, user, BigInt(AMOUNT))
+        ]);
+
+        expect(await problemsOf(transaction)).toEqual(['contains a token instruction other than a transfer that your wallet signs']);
+    });
+
+    it('rejects deposits above the confirmed amount', async () => {
+        const transaction = decode(buildTestTransaction('deposit', { fundId: 'usdc-fund', amount: AMOUNT + 1, all: false, userKey: user.toBase58() }));
+
+        expect(await problemsOf(transaction)).toEqual([`transfers ${AMOUNT + 1} token units, more than the ${AMOUNT} confirmed`]);
+    });
+
+    it('rejects deposits into a regular wallet', async () => {
+        const attacker = Keypair.generate().publicKey;
+        connection.setTokenBalance(attacker, 'USDC', BigInt(0));
+        const transaction = buildTransaction(user, [
+            createTransferCheckedInstruction(
+                getAssociatedTokenAddressSync(USDC, user),
+                USDC,
+                getAssociatedTokenAddressSync(USDC, attacker),
+                user,
+                BigInt(AMOUNT),
+                6
+            )
+        ]);
+
+        expect(await problemsOf(transaction)).toEqual([expect.stringContaining('which is not a Breeze vault')]);
+    });
+
+    it('rejects deposits of another token', async () => {
+        const usdt = new PublicKey(TOKEN_MINTS.USDT);
+        const transaction = decode(buildTestTransaction('deposit', { fundId: 'usdt-fund', amount: AMOUNT, all: false, userKey: user.toBase58() }));
+
+        expect(await problemsOf(transaction)).toEqual(['transfers a different token than the one confirmed']);
+        expect(await problemsOf(transaction, { mint: usdt })).toEqual([]);
+    });
+
+    it('rejects withdrawals that move tokens out of the wallet', async () => {
+        const userTokenAccount = getAssociatedTokenAddressSync(USDC, user);
+        const transaction = decode(buildTestTransaction(
+            'withdraw',
+            { fundId: 'usdc-fund', amount: AMOUNT, all: false, userKey: user.toBase58() },
+            [createTransferCheckedInstruction(userTokenAccount, USDC, userTokenAccount, user, BigInt(1), 6)]
+        ));
+
+        expect(await problemsOf(transaction, { type: 'withdraw' })).toEqual(['a withdrawal must not move tokens out of your wallet']);
+    });
+
+    it('rejects withdrawals paid to someone else', async () => {
+        const treasury = Keypair.generate();
+        const stranger = Keypair.generate().publicKey;
+        connection.setTokenBalance(stranger, 'USDC', BigInt(0));
+        const transaction = buildTransaction(user, [
+            createTransferCheckedInstruction(
+                getAssociatedTokenAddressSync(USDC, treasury.publicKey),
+                USDC,
+                getAssociatedTokenAddressSync(USDC, stranger),
+                treasury.publicKey,
+                BigInt(AMOUNT),
+                6
+            )
+        ]);
+        transaction.sign([treasury]);
+
+        expect(await problemsOf(transaction, { type: 'withdraw' })).toEqual([expect.stringContaining('instead of your wallet')]);
+    });
+
+    describe('with a Token-2022 mint', () => {
+        const pyusd = { mint: PYUSD, tokenProgramId: TOKEN_2022_PROGRAM_ID };
+
+        it('accepts a PYUSD deposit into a program vault', async () => {
+            const transaction = decode(buildTestTransaction('deposit', { fundId: 'pyusd-fund', amount: AMOUNT, all: false, userKey: user.toBase58() }));
+
+            expect(await problemsOf(transaction, pyusd)).toEqual([]);
+        });
+
+        it('accepts a PYUSD withdrawal pre-signed by the fund', async () => {
+            const transaction = decode(buildTestTransaction('withdraw', { fundId: 'pyusd-fund', amount: AMOUNT, all: false, userKey: user.toBase58() }));
+
+            expect(await problemsOf(transaction, { ...pyusd, type: 'withdraw' })).toEqual([]);
+        });
+
+        it('rejects PYUSD deposits above the confirmed amount', async () => {
+            const transaction = decode(buildTestTransaction('deposit', { fundId: 'pyusd-fund', amount: AMOUNT + 1, all: false, userKey: user.toBase58() }));
+
+            expect(await problemsOf(transaction, pyusd)).toEqual([`transfers ${AMOUNT + 1} token units, more than the ${AMOUNT} confirmed`]);
+        });
+
+        it('rejects unchecked transfers out of the PYUSD account into a regular wallet', async () => {
+            const attacker = Keypair.generate().publicKey;
+            connection.setTokenBalance(attacker, 'PYUSD', BigInt(0));
+            const transaction = buildTransaction(user, [
+                createTransferInstruction(
+                    getAssociatedTokenAddressSync(PYUSD, user, false, TOKEN_2022_PROGRAM_ID),
+                    getAssociatedTokenAddressSync(PYUSD, attacker, false, TOKEN_2022_PROGRAM_ID),
+                    user,
+                    BigInt(AMOUNT),
+                    [],
+                    TOKEN_2022_PROGRAM_ID
+                )
+            ]);
+
+            expect(await problemsOf(transaction, pyusd)).toEqual([expect.stringContaining('which is not a Breeze vault')]);
+        });
+
+        it('rejects PYUSD withdrawals paid to someone else', async () => {
+            const treasury = Keypair.generate();
+            const stranger = Keypair.generate().publicKey;
+            connection.setTokenBalance(stranger, 'PYUSD', BigInt(0));
+            const transaction = buildTransaction(user, [
+                createTransferCheckedInstruction(
+                    getAssociatedTokenAddressSync(PYUSD, treasury.publicKey, false, TOKEN_2022_PROGRAM_ID),
+                    PYUSD,
+                    getAssociatedTokenAddressSync(PYUSD, stranger, false, TOKEN_2022_PROGRAM_ID),
+                    treasury.publicKey,
+                    BigInt(AMOUNT),
+                    6,
+                    [],
+                    TOKEN_2022_PROGRAM_ID
+                )
+            ]);
+            transaction.sign([treasury]);
+
+            expect(await problemsOf(transaction, { ...pyusd, type: 'withdraw' })).toEqual([expect.stringContaining('instead of your wallet')]);
+        });
+
+        it('rejects Token-2022 approvals signed by the user', async () => {
+            const transaction = buildTransaction(user, [
+                createApproveInstruction(
+                    getAssociatedTokenAddressSync(PYUSD, user, false, TOKEN_2022_PROGRAM_ID),
+                    Keypair.generate().publicKey,
+                    user,
+                    BigInt(AMOUNT),
+                    [],
+                    TOKEN_2022_PROGRAM_ID
+                )
+            ]);
+
+            expect(await problemsOf(transaction, pyusd)).toEqual(['contains a token instruction other than a transfer that your wallet signs']);
+        });
+    });
+});
+
+describe('verifyBalanceChanges', () => {
+    const deposit = { type: 'deposit' as const, asset: 'USDC' as const, amount: BigInt(AMOUNT) };
+
+    it('accepts deposits that take up to the confirmed amount, and incoming tokens', () => {
+        expect(() => verifyBalanceChanges([{ symbol: 'SOL', delta: -0.002 }, { symbol: 'USDC', delta: -5 }], deposit)).not.toThrow();
+        expect(() => verifyBalanceChanges([{ symbol: 'USDC', delta: 5 }], { ...deposit, type: 'withdraw' })).not.toThrow();
+    });
+
+    it('rejects deposits that take more than confirmed', () => {
+        expect(() => verifyBalanceChanges([{ symbol: 'USDC', delta: -5.000001 }], deposit))
+            .toThrow(`moves 5000001 token units out of your wallet, more than the ${AMOUNT} confirmed`);
+    });
+
+    it('rejects other tokens leaving the wallet', () => {
+        expect(() => verifyBalanceChanges([{ symbol: 'USDC', delta: -5 }, { symbol: 'PYUSD', delta: -1 }], deposit))
+            .toThrow('moves 1 PYUSD out of your wallet, which was not confirmed');
+    });
+
+    it('rejects withdrawals that take tokens from the wallet', () => {
+        expect(() => verifyBalanceChanges([{ symbol: 'USDC', delta: -1 }], { ...deposit, type: 'withdraw' }))
+            .toThrow('a withdrawal must not move tokens out of your wallet');
+    });
+});
+
+describe('isSignedBy', () => {
+    let user: Keypair;
+
+    beforeEach(() => {
+        user = Keypair.generate();
+    });
+
+    function transfer(): VersionedTransaction {
+        return buildTransaction(user.publicKey, [SystemProgram.transfer({ fromPubkey: user.publicKey, toPubkey: user.publicKey, lamports: 1 })]);
+    }
+
+    it("accepts the signer's signature over the message", () => {
+        const transaction = transfer();
+        expect(isSignedBy(transaction, user.publicKey)).toBe(false);
+
+        transaction.sign([user]);
+
+        expect(isSignedBy(transaction, user.publicKey)).toBe(true);
+        expect(isSignedBy(transaction, Keypair.generate().publicKey)).toBe(false);
+    });
+
+    it('rejects a signature made over a different message', () => {
+        const signed = transfer();
+        signed.sign([user]);
+        const other = transfer();
+        other.signatures[0] = signed.signatures[0];
+
+        expect(isSignedBy(other, user.publicKey)).toBe(false);
+    });
+});
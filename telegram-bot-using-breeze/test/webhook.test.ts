@@ -0,0 +1,60 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createWebhookServer } from '../src/webhook.js';
+
+const SECRET = 'test-secret-token';
+const UPDATE = { update_id: 42, message: { message_id: 1, date: 0, chat: { id: 7, type: 'private' }, text: '/start' } };
+
+describe('createWebhookServer', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let processUpdate: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+        processUpdate = vi.fn();
+        server = createWebhookServer({ processUpdate }, { path: '/telegram/webhook', secretToken: SECRET });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    function post(body: string, secret?: string, path = '/telegram/webhook') {
+        return fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(secret ? { 'X-Telegram-Bot-Api-Secret-Token': secret } : {}) },
+            body
+        });
+    }
+
+    it('hands verified updates to the bot', async () => {
+        const response = await post(JSON.stringify(UPDATE), SECRET);
+
+        expect(response.status).toBe(200);
+        expect(processUpdate).toHaveBeenCalledWith(UPDATE);
+    });
+
+    it('rejects requests without the secret token', async () => {
+        expect((await post(JSON.stringify(UPDATE))).status).toBe(401);
+        expect((await post(JSON.stringify(UPDATE), 'wrong-secret')).status).toBe(401);
+        expect(processUpdate).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed updates', async () => {
+        expect((await post('not json', SECRET)).status).toBe(400);
+        expect((await post(JSON.stringify({ message: {} }), SECRET)).status).toBe(400);
+        expect(processUpdate).not.toHaveBeenCalled();
+    });
+
+    it('only serves the webhook path and health checks', async () => {
+        expect((await post(JSON.stringify(UPDATE), SECRET, '/other')).status).toBe(404);
+        expect((await fetch(`${baseUrl}/telegram/webhook`)).status).toBe(405);
+
+        const health = await fetch(`${baseUrl}/healthz`);
+        expect(health.status).toBe(200);
+        expect(await health.text()).toBe('ok');
+    });
+});
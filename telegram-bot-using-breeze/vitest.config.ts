@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        include: ['test/**/*.test.ts'],
+        env: {
+            BOT_TOKEN: 'test-bot-token',
+            BREEZE_API_KEY: 'test-api-key',
+            BREEZE_FUND_ID: 'test-fund',
+            BREEZE_PROGRAM_ID: 'BreezeTest111111111111111111111111111111111',
+            KEY_ENCRYPTION_SECRET: 'test-encryption-secret',
+            USER_STORE: 'memory',
+            TX_REBROADCAST_INTERVAL_MS: '1',
+            SOLANA_PAY_URL: 'https://pay.example.test',
+            EXTERNAL_SIGNING_POLL_INTERVAL_MS: '1'
+        }
+    }
+});